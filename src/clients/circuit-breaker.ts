@@ -0,0 +1,148 @@
+import { CircuitState, CircuitBreakerSnapshot } from '../types/index.js';
+import { settingsLoader } from '../config/settings-loader.js';
+
+export interface CircuitBreakerOptions {
+  windowSize: number;
+  minimumCalls: number;
+  failureRateThreshold: number;
+  slowCallMs: number;
+  slowCallRateThreshold: number;
+  cooldownMs: number;
+  now: () => number;
+}
+
+interface CallOutcome {
+  failed: boolean;
+  slow: boolean;
+}
+
+// Tracks the outcome of the last windowSize calls to one downstream server.
+// The circuit opens when the failure rate or the slow call rate crosses its
+// threshold; after cooldownMs a single probe call is let through (half-open)
+// and its outcome closes or re-opens the circuit.
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: CallOutcome[] = [];
+  private openedAt?: number;
+  private probeInFlight = false;
+  private lastFailure?: string;
+  private options: CircuitBreakerOptions;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    const settings = settingsLoader.getSettings().execution_settings;
+    this.options = {
+      windowSize: settings.circuit_window_size,
+      minimumCalls: settings.circuit_minimum_calls,
+      failureRateThreshold: settings.circuit_failure_rate_threshold,
+      slowCallMs: settings.circuit_slow_call_ms,
+      slowCallRateThreshold: settings.circuit_slow_call_rate_threshold,
+      cooldownMs: settings.circuit_cooldown_ms,
+      now: Date.now,
+      ...options
+    };
+  }
+
+  // Returns whether a call may go ahead. Moving from open to half-open
+  // hands out exactly one probe.
+  allowRequest(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open' && this.options.now() - this.openedAt! >= this.options.cooldownMs) {
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(responseTimeMs: number): void {
+    if (this.state === 'half_open') {
+      this.close();
+      return;
+    }
+
+    this.record({ failed: false, slow: responseTimeMs >= this.options.slowCallMs });
+  }
+
+  recordFailure(error: string): void {
+    this.lastFailure = error;
+
+    if (this.state === 'half_open') {
+      this.open();
+      return;
+    }
+
+    this.record({ failed: true, slow: false });
+  }
+
+  // A cancelled call says nothing about the server; it only hands back
+  // the half-open probe
+  recordCancelled(): void {
+    if (this.state === 'half_open') {
+      this.probeInFlight = false;
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    const calls = this.outcomes.length;
+    return {
+      state: this.state,
+      calls,
+      failure_rate: calls > 0 ? this.outcomes.filter(outcome => outcome.failed).length / calls : 0,
+      slow_call_rate: calls > 0 ? this.outcomes.filter(outcome => outcome.slow).length / calls : 0,
+      opened_at: this.openedAt !== undefined ? new Date(this.openedAt).toISOString() : undefined,
+      next_probe_at: this.state === 'open' ? new Date(this.openedAt! + this.options.cooldownMs).toISOString() : undefined,
+      last_failure: this.lastFailure
+    };
+  }
+
+  describe(): string {
+    const snapshot = this.getSnapshot();
+    const reason = snapshot.failure_rate >= this.options.failureRateThreshold
+      ? `${Math.round(snapshot.failure_rate * 100)}% of the last ${snapshot.calls} calls failed`
+      : `${Math.round(snapshot.slow_call_rate * 100)}% of the last ${snapshot.calls} calls took over ${this.options.slowCallMs}ms`;
+    return snapshot.next_probe_at ? `${reason}; retrying after ${snapshot.next_probe_at}` : reason;
+  }
+
+  private record(outcome: CallOutcome): void {
+    this.outcomes.push(outcome);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.shift();
+    }
+
+    if (this.outcomes.length < this.options.minimumCalls) {
+      return;
+    }
+
+    const snapshot = this.getSnapshot();
+    if (
+      snapshot.failure_rate >= this.options.failureRateThreshold ||
+      snapshot.slow_call_rate >= this.options.slowCallRateThreshold
+    ) {
+      this.open();
+    }
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = this.options.now();
+    this.probeInFlight = false;
+  }
+
+  private close(): void {
+    this.state = 'closed';
+    this.outcomes = [];
+    this.openedAt = undefined;
+    this.probeInFlight = false;
+  }
+}
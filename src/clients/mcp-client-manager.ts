@@ -1,6 +1,11 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import { PackageManager, MCPServerConfig } from '../types/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { PackageManager, MCPServerConfig, DiscoveredTool } from '../types/index.js';
+import { settingsLoader } from '../config/settings-loader.js';
+import { logger } from '../utils/logger.js';
 
 export interface MCPClientManager {
   clients: Map<PackageManager, Client>;
@@ -8,11 +13,14 @@ export interface MCPClientManager {
   connect(manager: PackageManager): Promise<void>;
   disconnect(manager: PackageManager): Promise<void>;
   isConnected(manager: PackageManager): boolean;
+  ensureConnected(manager: PackageManager): Promise<boolean>;
+  getDiscoveredTools(manager: PackageManager): DiscoveredTool[] | undefined;
   
   callTool<T>(
     manager: PackageManager, 
     toolName: string, 
-    params: any
+    params: any,
+    signal?: AbortSignal
   ): Promise<T>;
   
   callToolParallel<T>(
@@ -25,7 +33,8 @@ export interface MCPClientManager {
     manager: PackageManager,
     toolName: string,
     params: any,
-    timeoutMs?: number
+    timeoutMs?: number,
+    signal?: AbortSignal
   ): Promise<T>;
   
   callToolParallelWithTimeout<T>(
@@ -36,11 +45,30 @@ export interface MCPClientManager {
   ): Promise<Map<PackageManager, T>>;
 }
 
+// A tool result the server flagged with isError. The server did answer, so
+// callers can tell this apart from a call that never completed
+export class ToolResultError extends Error {
+  constructor(public manager: PackageManager, public toolName: string, public content: unknown) {
+    super(`${toolName} failed on the ${manager} MCP server`);
+    this.name = 'ToolResultError';
+  }
+}
+
+export type ConnectionLostListener = (manager: PackageManager, reason: string) => void;
+export type ToolsDiscoveredListener = (manager: PackageManager, tools: DiscoveredTool[]) => void;
+
 export class MCPClientManagerImpl implements MCPClientManager {
   public clients: Map<PackageManager, Client> = new Map();
   private serverConfigs: Map<PackageManager, MCPServerConfig> = new Map();
   private connectionStatus: Map<PackageManager, boolean> = new Map();
   private healthCheckIntervals: Map<PackageManager, NodeJS.Timeout> = new Map();
+  private connectionLostListeners: ConnectionLostListener[] = [];
+  private toolsDiscoveredListeners: ToolsDiscoveredListener[] = [];
+  private discoveredTools: Map<PackageManager, DiscoveredTool[]> = new Map();
+  private closingManagers: Set<PackageManager> = new Set();
+  private pendingConnections: Map<PackageManager, Promise<void>> = new Map();
+  private idleTimers: Map<PackageManager, NodeJS.Timeout> = new Map();
+  private activeCalls: Map<PackageManager, number> = new Map();
 
   constructor(serverConfigs: Map<PackageManager, MCPServerConfig>) {
     this.serverConfigs = serverConfigs;
@@ -57,12 +85,7 @@ export class MCPClientManagerImpl implements MCPClientManager {
     }
 
     try {
-      // Create stdio transport for the MCP server
-      const transport = new StdioClientTransport({
-        command: config.command,
-        args: config.args,
-        env: config.env
-      });
+      const transport = MCPClientManagerImpl.createTransport(manager, config);
 
       // Create client
       const client = new Client({
@@ -77,10 +100,22 @@ export class MCPClientManagerImpl implements MCPClientManager {
       // Connect to the server
       await client.connect(transport);
 
+      // The transport closes when the child process exits or crashes, or
+      // when a remote server drops the connection. A stdio process closes
+      // some time after disconnect(), possibly after a new client connected.
+      client.onclose = () => {
+        if (this.clients.get(manager) !== client) {
+          return;
+        }
+        this.handleConnectionLost(manager, transport instanceof StdioClientTransport ? 'Server process exited' : 'Connection closed');
+      };
+
       // Store client and update status
       this.clients.set(manager, client);
       this.connectionStatus.set(manager, true);
 
+      await this.discoverTools(manager, client);
+
       // Start health check if configured
       if (config.health_check_interval) {
         this.startHealthCheck(manager, config.health_check_interval);
@@ -94,19 +129,101 @@ export class MCPClientManagerImpl implements MCPClientManager {
     }
   }
 
+  // Lists the tools the server actually offers. A server that fails to list
+  // them keeps what was discovered before, or the configured list.
+  private async discoverTools(manager: PackageManager, client: Client): Promise<void> {
+    try {
+      const tools: DiscoveredTool[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await client.listTools(cursor ? { cursor } : undefined);
+        tools.push(...page.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.inputSchema
+        })));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      this.discoveredTools.set(manager, tools);
+      for (const listener of this.toolsDiscoveredListeners) {
+        listener(manager, tools);
+      }
+    } catch (error) {
+      logger.warn(`Failed to list the tools of the ${manager} MCP server`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // Kept after a disconnect, so idle lazy servers are still known
+  getDiscoveredTools(manager: PackageManager): DiscoveredTool[] | undefined {
+    return this.discoveredTools.get(manager);
+  }
+
+  onToolsDiscovered(listener: ToolsDiscoveredListener): void {
+    this.toolsDiscoveredListeners.push(listener);
+  }
+
+  static createTransport(manager: PackageManager, config: MCPServerConfig): Transport {
+    const transport = config.transport || 'stdio';
+
+    if (transport === 'stdio') {
+      if (!config.command) {
+        throw new Error(`No command configured for the ${manager} MCP server`);
+      }
+      return new StdioClientTransport({
+        command: config.command,
+        args: config.args || [],
+        env: config.env
+      });
+    }
+
+    if (!config.url) {
+      throw new Error(`No url configured for the ${manager} MCP server`);
+    }
+    const url = new URL(config.url);
+    const requestInit = { headers: MCPClientManagerImpl.expandHeaders(config.headers) };
+
+    switch (transport) {
+      case 'streamable-http':
+        return new StreamableHTTPClientTransport(url, { requestInit });
+      case 'sse':
+        return new SSEClientTransport(url, { requestInit });
+      default:
+        throw new Error(`Unknown transport for the ${manager} MCP server: ${transport}`);
+    }
+  }
+
+  // Keeps tokens out of mcp-servers.json: "Bearer ${NPM_MCP_TOKEN}"
+  private static expandHeaders(headers: Record<string, string> = {}): Record<string, string> {
+    return Object.fromEntries(Object.entries(headers).map(([name, value]) => [
+      name,
+      value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, variable) => process.env[variable] ?? '')
+    ]));
+  }
+
   async disconnect(manager: PackageManager): Promise<void> {
     const client = this.clients.get(manager);
     if (client) {
+      this.closingManagers.add(manager);
       try {
+        // Lets a remote server free the session right away
+        if (client.transport instanceof StreamableHTTPClientTransport) {
+          await client.transport.terminateSession().catch(() => undefined);
+        }
         await (client as any).close();
       } catch (error) {
         // Error will be handled by the caller with proper logging
+      } finally {
+        this.closingManagers.delete(manager);
       }
       
       this.clients.delete(manager);
     }
 
     this.connectionStatus.set(manager, false);
+    this.clearIdleTimer(manager);
 
     // Stop health check
     const healthCheckInterval = this.healthCheckIntervals.get(manager);
@@ -123,10 +240,46 @@ export class MCPClientManagerImpl implements MCPClientManager {
            this.clients.has(manager);
   }
 
+  isLazy(manager: PackageManager): boolean {
+    return this.serverConfigs.get(manager)?.connection_mode === 'lazy';
+  }
+
+  // Starts a lazy server on first use. Returns false for eager servers that
+  // are not connected; a failed start is thrown to the caller.
+  async ensureConnected(manager: PackageManager): Promise<boolean> {
+    if (this.isConnected(manager)) {
+      return true;
+    }
+
+    if (!this.isLazy(manager)) {
+      return false;
+    }
+
+    let pending = this.pendingConnections.get(manager);
+    if (!pending) {
+      pending = (async () => {
+        // Drop the client of a server that exited since its last use
+        if (this.clients.has(manager)) {
+          await this.disconnect(manager);
+        }
+        await this.connect(manager);
+        logger.logConnectionEvent(manager, 'connected', { mode: 'lazy' });
+        this.scheduleIdleShutdown(manager);
+      })().finally(() => {
+        this.pendingConnections.delete(manager);
+      });
+      this.pendingConnections.set(manager, pending);
+    }
+
+    await pending;
+    return true;
+  }
+
   async callTool<T>(
     manager: PackageManager, 
     toolName: string, 
-    params: any
+    params: any,
+    signal?: AbortSignal
   ): Promise<T> {
     if (!this.isConnected(manager)) {
       throw new Error(`Not connected to ${manager} MCP server`);
@@ -137,27 +290,39 @@ export class MCPClientManagerImpl implements MCPClientManager {
       throw new Error(`No client available for ${manager}`);
     }
 
+    this.clearIdleTimer(manager);
+    this.activeCalls.set(manager, (this.activeCalls.get(manager) || 0) + 1);
+
     try {
       const startTime = Date.now();
       const result = await client.callTool({
         name: toolName,
         arguments: params
-      });
+      }, undefined, { signal });
 
       const endTime = Date.now();
       // Tool call timing is logged by the caller
 
+      if (result.isError) {
+        throw new ToolResultError(manager, toolName, result.content);
+      }
+
       return result.content as T;
     } catch (error) {
       // Error will be handled by the caller with proper logging
       
       // Check if we should reconnect
       if (this.shouldReconnectOnError(error)) {
-        this.connectionStatus.set(manager, false);
-        // Could implement auto-reconnection here
+        this.handleConnectionLost(manager, error instanceof Error ? error.message : String(error));
       }
       
       throw error;
+    } finally {
+      const remaining = (this.activeCalls.get(manager) || 1) - 1;
+      this.activeCalls.set(manager, remaining);
+      if (remaining === 0) {
+        this.scheduleIdleShutdown(manager);
+      }
     }
   }
 
@@ -190,27 +355,36 @@ export class MCPClientManagerImpl implements MCPClientManager {
     return resultMap;
   }
 
+  // Aborting the request makes the client send notifications/cancelled, so
+  // the downstream server stops working on calls that timed out or whose
+  // caller went away
   async callToolWithTimeout<T>(
     manager: PackageManager,
     toolName: string,
     params: any,
-    timeoutMs: number = 5000
+    timeoutMs: number = 5000,
+    signal?: AbortSignal
   ): Promise<T> {
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error(`Tool call to ${manager}.${toolName} timed out after ${timeoutMs}ms`));
-      }, timeoutMs);
-
-      this.callTool<T>(manager, toolName, params)
-        .then(result => {
-          clearTimeout(timeout);
-          resolve(result);
-        })
-        .catch(error => {
-          clearTimeout(timeout);
-          reject(error);
-        });
-    });
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      controller.abort(new Error(`Tool call to ${manager}.${toolName} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    const onAbort = () => {
+      controller.abort(new Error(`Tool call to ${manager}.${toolName} was cancelled`));
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    try {
+      return await this.callTool<T>(manager, toolName, params, controller.signal);
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+    }
   }
 
   async callToolParallelWithTimeout<T>(
@@ -252,15 +426,74 @@ export class MCPClientManagerImpl implements MCPClientManager {
           await client.listTools();
         }
       } catch (error) {
-        // Health check error will be handled by the caller
-        this.connectionStatus.set(manager, false);
-        // Could implement auto-reconnection here
+        this.handleConnectionLost(
+          manager,
+          `Health check failed: ${error instanceof Error ? error.message : String(error)}`
+        );
       }
     }, intervalMs);
 
     this.healthCheckIntervals.set(manager, interval);
   }
 
+  // Lazy servers are shut down once they have been idle for their timeout
+  private scheduleIdleShutdown(manager: PackageManager): void {
+    if (!this.isLazy(manager) || !this.isConnected(manager)) {
+      return;
+    }
+
+    this.clearIdleTimer(manager);
+    const idleTimeoutMs = this.serverConfigs.get(manager)?.idle_timeout_ms
+      ?? settingsLoader.getSettings().execution_settings.idle_timeout_ms;
+
+    const timer = setTimeout(() => {
+      this.idleTimers.delete(manager);
+      if ((this.activeCalls.get(manager) || 0) > 0) {
+        return;
+      }
+
+      logger.logConnectionEvent(manager, 'disconnected', { reason: 'idle', idle_timeout_ms: idleTimeoutMs });
+      this.disconnect(manager).catch(() => {
+        // Nothing left to clean up if closing the idle server fails
+      });
+    }, idleTimeoutMs);
+    timer.unref?.();
+
+    this.idleTimers.set(manager, timer);
+  }
+
+  private clearIdleTimer(manager: PackageManager): void {
+    const timer = this.idleTimers.get(manager);
+    if (timer) {
+      clearTimeout(timer);
+      this.idleTimers.delete(manager);
+    }
+  }
+
+  onConnectionLost(listener: ConnectionLostListener): void {
+    this.connectionLostListeners.push(listener);
+  }
+
+  // Marks a live connection as lost and notifies listeners once; closes
+  // started by disconnect() are not failures
+  private handleConnectionLost(manager: PackageManager, reason: string): void {
+    if (this.closingManagers.has(manager) || this.connectionStatus.get(manager) !== true) {
+      return;
+    }
+
+    this.connectionStatus.set(manager, false);
+
+    const healthCheckInterval = this.healthCheckIntervals.get(manager);
+    if (healthCheckInterval) {
+      clearInterval(healthCheckInterval);
+      this.healthCheckIntervals.delete(manager);
+    }
+
+    for (const listener of this.connectionLostListeners) {
+      listener(manager, reason);
+    }
+  }
+
   private shouldReconnectOnError(error: any): boolean {
     // Define which errors should trigger a reconnection attempt
     const reconnectErrors = [
@@ -287,6 +520,20 @@ export class MCPClientManagerImpl implements MCPClientManager {
     await Promise.allSettled(connectionPromises);
   }
 
+  // Connects the servers configured for eager connection; lazy servers
+  // start on first use
+  async connectEager(): Promise<void> {
+    const connectionPromises = Array.from(this.serverConfigs.keys())
+      .filter(manager => !this.isLazy(manager))
+      .map(manager => 
+        this.connect(manager).catch(error => {
+          // Connection error will be handled by the supervisor
+        })
+      );
+
+    await Promise.allSettled(connectionPromises);
+  }
+
   async disconnectAll(): Promise<void> {
     const disconnectionPromises = Array.from(this.clients.keys()).map(manager => 
       this.disconnect(manager).catch(error => {
@@ -303,6 +550,27 @@ export class MCPClientManagerImpl implements MCPClientManager {
     );
   }
 
+  // Swaps in reloaded server configs. Servers that were removed or whose
+  // config changed are disconnected; connecting them again is up to the
+  // caller.
+  async updateServerConfigs(serverConfigs: Map<PackageManager, MCPServerConfig>, changed: PackageManager[]): Promise<void> {
+    const stale = Array.from(this.serverConfigs.keys())
+      .filter(manager => !serverConfigs.has(manager) || changed.includes(manager));
+
+    for (const manager of stale) {
+      await this.disconnect(manager).catch(() => {
+        // The old server is dropped either way
+      });
+      this.discoveredTools.delete(manager);
+    }
+
+    this.serverConfigs = new Map(serverConfigs);
+  }
+
+  getConfiguredManagers(): PackageManager[] {
+    return Array.from(this.serverConfigs.keys());
+  }
+
   getConnectionStatus(): Map<PackageManager, boolean> {
     return new Map(this.connectionStatus);
   }
@@ -0,0 +1,213 @@
+import { PackageManager, ServerSupervisionStatus } from '../types/index.js';
+import { MCPClientManagerImpl } from './mcp-client-manager.js';
+import { ManagerRegistry } from '../detection/manager-registry.js';
+import { settingsLoader } from '../config/settings-loader.js';
+import { logger } from '../utils/logger.js';
+
+export interface SupervisorOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRestartsPerWindow: number;
+  windowMs: number;
+  random: () => number;
+}
+
+interface SupervisedServer {
+  status: ServerSupervisionStatus;
+  restartTimes: number[];
+  timer?: NodeJS.Timeout;
+  restarting: boolean;
+}
+
+// Restarts downstream MCP servers whose connection was lost. Restarts back
+// off exponentially with jitter, and at most maxRestartsPerWindow restarts
+// happen per manager within windowMs.
+export class ServerSupervisor {
+  private servers: Map<PackageManager, SupervisedServer> = new Map();
+  private options: SupervisorOptions;
+  private running = false;
+
+  constructor(
+    private clientManager: MCPClientManagerImpl,
+    private managerRegistry: ManagerRegistry,
+    options: Partial<SupervisorOptions> = {}
+  ) {
+    const settings = settingsLoader.getSettings().execution_settings;
+    this.options = {
+      baseDelayMs: settings.restart_base_delay_ms,
+      maxDelayMs: settings.restart_max_delay_ms,
+      maxRestartsPerWindow: settings.max_restarts_per_window,
+      windowMs: settings.restart_window_ms,
+      random: Math.random,
+      ...options
+    };
+
+    this.clientManager.onConnectionLost((manager, reason) => {
+      this.handleFailure(manager, reason);
+    });
+  }
+
+  // Syncs the registry with the initial connections and schedules restarts
+  // for servers that failed to start
+  start(): void {
+    this.running = true;
+
+    for (const manager of this.clientManager.getConfiguredManagers()) {
+      if (this.clientManager.isLazy(manager)) {
+        continue;
+      }
+
+      if (this.clientManager.isConnected(manager)) {
+        this.managerRegistry.updateConnectionStatus(manager, 'connected');
+      } else {
+        this.handleFailure(manager, 'Initial connection failed');
+      }
+    }
+  }
+
+  stop(): void {
+    this.running = false;
+
+    for (const server of this.servers.values()) {
+      if (server.timer) {
+        clearTimeout(server.timer);
+        server.timer = undefined;
+      }
+      server.status.next_restart_at = undefined;
+    }
+  }
+
+  // Connects a server that a config reload added or changed. It starts
+  // with a clean supervision record; a failed connect is retried like any
+  // other failure.
+  async connectServer(manager: PackageManager): Promise<void> {
+    this.forget(manager);
+
+    if (this.clientManager.isLazy(manager)) {
+      this.managerRegistry.updateConnectionStatus(manager, 'disconnected');
+      return;
+    }
+
+    try {
+      await this.clientManager.connect(manager);
+      this.managerRegistry.updateConnectionStatus(manager, 'connected');
+      logger.logConnectionEvent(manager, 'connected', { reason: 'config reload' });
+    } catch (error) {
+      this.handleFailure(manager, `Initial connection failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  // Stops restarting a server that was removed from the config
+  forget(manager: PackageManager): void {
+    const server = this.servers.get(manager);
+    if (server?.timer) {
+      clearTimeout(server.timer);
+    }
+    this.servers.delete(manager);
+  }
+
+  getStatus(manager: PackageManager): ServerSupervisionStatus | undefined {
+    const server = this.servers.get(manager);
+    return server ? { ...server.status } : undefined;
+  }
+
+  getAllStatuses(): Map<PackageManager, ServerSupervisionStatus> {
+    return new Map(Array.from(this.servers.entries()).map(([manager, server]) => [manager, { ...server.status }]));
+  }
+
+  handleFailure(manager: PackageManager, reason: string): void {
+    const server = this.getServer(manager);
+    server.status.consecutive_failures++;
+    server.status.last_failure_reason = reason;
+    server.status.last_failure_at = new Date().toISOString();
+    logger.logConnectionEvent(manager, 'failed', { reason, consecutive_failures: server.status.consecutive_failures });
+
+    // A lazy server is started again on its next use
+    if (this.clientManager.isLazy(manager)) {
+      this.managerRegistry.updateConnectionStatus(manager, 'disconnected');
+      return;
+    }
+
+    this.managerRegistry.updateConnectionStatus(manager, 'error');
+    this.scheduleRestart(manager, server);
+  }
+
+  // Exponential backoff with jitter: a random delay between half and all
+  // of base * 2^(failures - 1), capped at maxDelayMs
+  getBackoffDelay(consecutiveFailures: number): number {
+    const exponential = this.options.baseDelayMs * Math.pow(2, Math.max(0, consecutiveFailures - 1));
+    const capped = Math.min(exponential, this.options.maxDelayMs);
+    return Math.round(capped / 2 + this.options.random() * (capped / 2));
+  }
+
+  private scheduleRestart(manager: PackageManager, server: SupervisedServer): void {
+    if (!this.running || server.timer || server.restarting) {
+      return;
+    }
+
+    const now = Date.now();
+    server.restartTimes = server.restartTimes.filter(time => now - time < this.options.windowMs);
+
+    let delay = this.getBackoffDelay(server.status.consecutive_failures);
+    if (server.restartTimes.length >= this.options.maxRestartsPerWindow) {
+      // Wait until the oldest restart leaves the window
+      delay = Math.max(delay, server.restartTimes[0] + this.options.windowMs - now);
+    }
+
+    server.status.next_restart_at = new Date(now + delay).toISOString();
+    server.timer = setTimeout(() => {
+      server.timer = undefined;
+      void this.restart(manager, server);
+    }, delay);
+    server.timer.unref?.();
+
+    logger.debug(`Scheduled restart of ${manager} MCP server in ${delay}ms`);
+  }
+
+  private async restart(manager: PackageManager, server: SupervisedServer): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    server.restarting = true;
+    server.restartTimes.push(Date.now());
+    server.status.restart_count++;
+    server.status.last_restart_at = new Date().toISOString();
+    server.status.next_restart_at = undefined;
+
+    try {
+      await this.clientManager.disconnect(manager);
+      await this.clientManager.connect(manager);
+
+      server.status.consecutive_failures = 0;
+      this.managerRegistry.updateConnectionStatus(manager, 'connected');
+      logger.logConnectionEvent(manager, 'connected', { restart_count: server.status.restart_count });
+    } catch (error) {
+      server.status.consecutive_failures++;
+      server.status.last_failure_reason = error instanceof Error ? error.message : String(error);
+      server.status.last_failure_at = new Date().toISOString();
+      this.managerRegistry.updateConnectionStatus(manager, 'error');
+      logger.logConnectionEvent(manager, 'failed', { reason: server.status.last_failure_reason });
+    } finally {
+      server.restarting = false;
+    }
+
+    // A reload may have replaced or removed the server meanwhile
+    if (server.status.consecutive_failures > 0 && this.servers.get(manager) === server) {
+      this.scheduleRestart(manager, server);
+    }
+  }
+
+  private getServer(manager: PackageManager): SupervisedServer {
+    let server = this.servers.get(manager);
+    if (!server) {
+      server = {
+        status: { restart_count: 0, consecutive_failures: 0 },
+        restartTimes: [],
+        restarting: false
+      };
+      this.servers.set(manager, server);
+    }
+    return server;
+  }
+}
@@ -1,127 +1,396 @@
-import { PackageManager, PackageManagerResult, OrchestrationError, OrchestrationErrorType } from '../types/index.js';
-import { MCPClientManager } from './mcp-client-manager.js';
+import { PackageManager, PackageManagerResult, OrchestrationError, OrchestrationErrorType, CircuitBreakerSnapshot, ServedFrom } from '../types/index.js';
+import { MCPClientManager, ToolResultError } from './mcp-client-manager.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { ToolResultParser } from '../utils/tool-result.js';
+import { PARALLEL_EXECUTION_STRATEGY } from '../config/patterns.js';
+import { logger } from '../utils/logger.js';
+import { ResponseCache, responseCache } from '../utils/cache.js';
+import { settingsLoader } from '../config/settings-loader.js';
+import { ReadmeMirror } from '../utils/readme-mirror.js';
+
+export interface ToolCallContext {
+  signal?: AbortSignal;
+  // Skips cached responses; the fresh response is still cached
+  fresh?: boolean;
+}
+
+export interface EarlyReturnOptions extends ToolCallContext {
+  // Detection confidence per manager; managers without one always qualify
+  confidences?: Map<PackageManager, number>;
+  minConfidence?: number;
+  timeoutMs?: number;
+}
+
+interface InFlightCall {
+  key: string;
+  promise: Promise<PackageManagerResult>;
+  controller: AbortController;
+  // Callers that can still use the result
+  waiters: number;
+}
 
 export class ToolProxy {
-  constructor(private clientManager: MCPClientManager) {}
+  private circuitBreakers: Map<PackageManager, CircuitBreaker> = new Map();
+  private inFlight: Map<string, InFlightCall> = new Map();
+
+  constructor(
+    private clientManager: MCPClientManager,
+    private cache: ResponseCache = responseCache
+  ) {}
 
   async executeToolSingle(
     manager: PackageManager,
     toolName: string,
     params: any,
-    timeoutMs: number = 5000
+    timeoutMs: number = 5000,
+    context: ToolCallContext = {}
   ): Promise<PackageManagerResult> {
-    const startTime = Date.now();
+    logger.logToolCallStart(manager, toolName, params);
 
-    try {
-      if (!this.clientManager.isConnected(manager)) {
+    const result = await this.executeCached(manager, toolName, params, timeoutMs, context);
+
+    // Logged per caller, so calls answered from the cache or by a shared
+    // in-flight call reach the progress of every tool call waiting for them
+    logger.logToolCall(manager, toolName, params, result.success, result.response_time, {
+      cache: result.cache,
+      served_from: result.served_from,
+      error: result.error
+    });
+    return result;
+  }
+
+  // Metadata for results that were served offline: the oldest age, and
+  // mirror when any of them came from the README mirror
+  static describeServedFrom(results: PackageManagerResult[]): { served_from?: ServedFrom; age_ms?: number } {
+    const served = results.filter(result => result.served_from);
+    if (served.length === 0) {
+      return {};
+    }
+
+    return {
+      served_from: served.some(result => result.served_from === 'mirror') ? 'mirror' : 'cache',
+      age_ms: Math.max(...served.map(result => result.age_ms ?? 0))
+    };
+  }
+
+  // Tools with a TTL in cache_settings are answered from the response cache.
+  // A response past its TTL is still served during the stale window while a
+  // background call refreshes it.
+  private async executeCached(
+    manager: PackageManager,
+    toolName: string,
+    params: any,
+    timeoutMs: number,
+    context: ToolCallContext
+  ): Promise<PackageManagerResult> {
+    const settings = settingsLoader.getSettings();
+    if (settings.offline_settings.enabled) {
+      return this.executeOffline(manager, toolName, params);
+    }
+
+    const cacheSettings = settings.cache_settings;
+    const ttl = cacheSettings.tool_ttl_ms[toolName];
+    if (!ttl) {
+      return await this.callManagerCoalesced(manager, toolName, params, timeoutMs, context.signal);
+    }
+
+    if (!context.fresh) {
+      const entry = this.cache.getToolResponseEntry(manager, toolName, params);
+      if (entry) {
+        if (entry.stale) {
+          this.revalidate(manager, toolName, params, timeoutMs);
+        }
         return {
           manager,
-          success: false,
-          error: `Not connected to ${manager} MCP server`,
-          response_time: Date.now() - startTime
+          success: true,
+          data: entry.value,
+          response_time: 0,
+          cache: entry.stale ? 'stale' : 'hit'
         };
       }
+    }
 
-      const result = await this.clientManager.callToolWithTimeout(
+    const result = await this.callManagerCoalesced(manager, toolName, params, timeoutMs, context.signal);
+    if (result.success) {
+      this.cache.cacheToolResponse(
         manager,
         toolName,
         params,
-        timeoutMs
+        result.data,
+        ttl,
+        cacheSettings.stale_while_revalidate_ms,
+        settings.offline_settings.retention_ms
       );
+    }
+    return { ...result, cache: context.fresh ? 'bypass' : 'miss' };
+  }
 
+  // Offline mode never calls downstream servers. Cached responses are
+  // served at any age, and READMEs fall back to the local mirror.
+  private executeOffline(manager: PackageManager, toolName: string, params: any): PackageManagerResult {
+    const entry = this.cache.getToolResponseEntry(manager, toolName, params, true);
+    if (entry) {
       return {
         manager,
         success: true,
-        data: result,
-        response_time: Date.now() - startTime
+        data: entry.value,
+        response_time: 0,
+        cache: entry.stale ? 'stale' : 'hit',
+        served_from: 'cache',
+        age_ms: entry.age_ms
       };
-    } catch (error) {
-      return {
-        manager,
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-        response_time: Date.now() - startTime
+    }
+
+    const mirrorDirectory = settingsLoader.getSettings().offline_settings.mirror_directory;
+    if (toolName === 'get_package_readme' && mirrorDirectory && params?.package_name) {
+      const mirrored = new ReadmeMirror(mirrorDirectory).find(manager, params.package_name, params.version);
+      if (mirrored) {
+        return {
+          manager,
+          success: true,
+          data: {
+            package_name: mirrored.package_name,
+            version: mirrored.version,
+            readme_content: mirrored.readme_content
+          },
+          response_time: 0,
+          served_from: 'mirror',
+          age_ms: mirrored.age_ms
+        };
+      }
+    }
+
+    return {
+      manager,
+      success: false,
+      error: `No cached ${toolName} response from ${manager} is available offline`,
+      error_type: OrchestrationErrorType.OFFLINE_CACHE_MISS,
+      response_time: 0
+    };
+  }
+
+  // Refreshes started by concurrent stale hits share one downstream call
+  // Refreshes run detached from the tool call that found the stale
+  // response and report no progress to it
+  private revalidate(manager: PackageManager, toolName: string, params: any, timeoutMs: number): void {
+    void logger.runWithHooks(undefined, () => this.executeCached(manager, toolName, params, timeoutMs, { fresh: true }))
+      .then(result => {
+        logger.logToolCall(manager, toolName, params, result.success, result.response_time, { error: result.error });
+      });
+  }
+
+  // Identical concurrent calls share one downstream call, keyed like the
+  // response cache. The first caller's timeout applies. A caller that
+  // cancels stops waiting; the shared call is only cancelled once no caller
+  // is waiting for it.
+  private callManagerCoalesced(
+    manager: PackageManager,
+    toolName: string,
+    params: any,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<PackageManagerResult> {
+    if (signal?.aborted) {
+      return Promise.resolve(this.createCancelledResult(manager, Date.now()));
+    }
+
+    const key = ResponseCache.createResponseKey(manager, toolName, params);
+    let call = this.inFlight.get(key);
+    if (call) {
+      logger.debug(`Joining in-flight call to ${manager}.${toolName}`, { key });
+    } else {
+      const controller = new AbortController();
+      const newCall: InFlightCall = {
+        key,
+        controller,
+        waiters: 0,
+        promise: this.callManager(manager, toolName, params, timeoutMs, controller.signal)
+          .finally(() => this.forgetInFlight(newCall))
       };
+      call = newCall;
+      this.inFlight.set(key, call);
     }
+
+    return this.waitForCall(call, manager, signal);
   }
 
-  async executeToolParallel(
-    managers: PackageManager[],
+  private waitForCall(call: InFlightCall, manager: PackageManager, signal?: AbortSignal): Promise<PackageManagerResult> {
+    const startTime = Date.now();
+    call.waiters++;
+
+    return new Promise(resolve => {
+      const onAbort = () => {
+        call.waiters--;
+        if (call.waiters === 0) {
+          this.forgetInFlight(call);
+          call.controller.abort();
+        }
+        resolve(this.createCancelledResult(manager, startTime));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      void call.promise.then(result => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve({ ...result });
+      });
+    });
+  }
+
+  // A cancelled call is forgotten right away, so new callers start a new one
+  private forgetInFlight(call: InFlightCall): void {
+    if (this.inFlight.get(call.key) === call) {
+      this.inFlight.delete(call.key);
+    }
+  }
+
+  private async callManager(
+    manager: PackageManager,
     toolName: string,
     params: any,
-    timeoutMs: number = 8000
-  ): Promise<PackageManagerResult[]> {
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<PackageManagerResult> {
     const startTime = Date.now();
 
-    // Filter to only connected managers
-    const connectedManagers = managers.filter(manager => 
-      this.clientManager.isConnected(manager)
-    );
+    if (signal?.aborted) {
+      return this.createCancelledResult(manager, startTime);
+    }
 
-    if (connectedManagers.length === 0) {
-      return managers.map(manager => ({
+    // Skip managers whose circuit is open instead of waiting for a timeout
+    const breaker = this.getCircuitBreaker(manager);
+    if (!breaker.allowRequest()) {
+      return {
         manager,
         success: false,
-        error: `Not connected to ${manager} MCP server`,
+        error: `Circuit open for ${manager} MCP server: ${breaker.describe()}`,
+        error_type: OrchestrationErrorType.MCP_SERVER_UNAVAILABLE,
         response_time: Date.now() - startTime
-      }));
+      };
     }
 
     try {
-      const results = await this.clientManager.callToolParallelWithTimeout(
-        connectedManagers,
-        toolName,
-        params,
-        timeoutMs
-      );
+      if (!(await this.clientManager.ensureConnected(manager))) {
+        breaker.recordFailure('Not connected');
+        return {
+          manager,
+          success: false,
+          error: `Not connected to ${manager} MCP server`,
+          response_time: Date.now() - startTime
+        };
+      }
 
-      // Convert to PackageManagerResult array
-      const packageManagerResults: PackageManagerResult[] = [];
+      // Starting a lazy server can take a while
+      if (signal?.aborted) {
+        breaker.recordCancelled();
+        return this.createCancelledResult(manager, startTime);
+      }
 
-      // Add successful results
-      for (const [manager, data] of results.entries()) {
-        packageManagerResults.push({
+      // Lazy servers list their tools on first use, after managers were picked
+      if (!this.supportsTool(manager, toolName)) {
+        breaker.recordCancelled();
+        return {
           manager,
-          success: true,
-          data,
+          success: false,
+          error: `The ${manager} MCP server does not offer ${toolName}`,
+          error_type: OrchestrationErrorType.TOOL_NOT_SUPPORTED,
           response_time: Date.now() - startTime
-        });
+        };
       }
 
-      // Add failed results for managers that didn't return data
-      for (const manager of connectedManagers) {
-        if (!results.has(manager)) {
-          packageManagerResults.push({
-            manager,
-            success: false,
-            error: 'Tool call failed or timed out',
-            response_time: Date.now() - startTime
-          });
-        }
+      const result = await this.clientManager.callToolWithTimeout(
+        manager,
+        toolName,
+        params,
+        timeoutMs,
+        signal
+      );
+
+      breaker.recordSuccess(Date.now() - startTime);
+      // Every caller gets the JSON the server sent rather than its MCP content
+      // blocks; text that is not JSON comes back as { text }
+      return {
+        manager,
+        success: true,
+        data: ToolResultParser.parse(result),
+        response_time: Date.now() - startTime
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        breaker.recordCancelled();
+        return this.createCancelledResult(manager, startTime);
       }
 
-      // Add results for disconnected managers
-      for (const manager of managers) {
-        if (!connectedManagers.includes(manager)) {
-          packageManagerResults.push({
-            manager,
-            success: false,
-            error: `Not connected to ${manager} MCP server`,
-            response_time: Date.now() - startTime
-          });
-        }
+      // The server answered with an error result, such as an unknown package,
+      // so its circuit stays healthy while the call still fails
+      if (error instanceof ToolResultError) {
+        breaker.recordSuccess(Date.now() - startTime);
+        return {
+          manager,
+          success: false,
+          error: this.describeToolResultError(error),
+          response_time: Date.now() - startTime
+        };
       }
 
-      return packageManagerResults;
-    } catch (error) {
-      // If the entire parallel operation fails, return error for all managers
-      return managers.map(manager => ({
+      const message = error instanceof Error ? error.message : String(error);
+      breaker.recordFailure(message);
+      return {
         manager,
         success: false,
-        error: error instanceof Error ? error.message : String(error),
+        error: message,
         response_time: Date.now() - startTime
-      }));
+      };
+    }
+  }
+
+  // Each manager is called and timed on its own, so one slow or broken
+  // server only affects its own circuit
+  async executeToolParallel(
+    managers: PackageManager[],
+    toolName: string,
+    params: any,
+    timeoutMs: number = 8000,
+    context: ToolCallContext = {}
+  ): Promise<PackageManagerResult[]> {
+    return await Promise.all(managers.map(manager =>
+      this.executeToolSingle(manager, toolName, params, timeoutMs, context)
+    ));
+  }
+
+  getCircuitBreakerSnapshots(): Partial<Record<PackageManager, CircuitBreakerSnapshot>> {
+    const snapshots: Partial<Record<PackageManager, CircuitBreakerSnapshot>> = {};
+    for (const [manager, breaker] of this.circuitBreakers.entries()) {
+      snapshots[manager] = breaker.getSnapshot();
     }
+    return snapshots;
+  }
+
+  private describeToolResultError(error: ToolResultError): string {
+    const data = ToolResultParser.parse(error.content);
+    for (const field of ['error', 'message', 'text']) {
+      if (typeof data?.[field] === 'string' && data[field].trim()) {
+        return data[field];
+      }
+    }
+    return error.message;
+  }
+
+  private createCancelledResult(manager: PackageManager, startTime: number): PackageManagerResult {
+    return {
+      manager,
+      success: false,
+      error: `Tool call to ${manager} MCP server was cancelled`,
+      response_time: Date.now() - startTime
+    };
+  }
+
+  private getCircuitBreaker(manager: PackageManager): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(manager);
+    if (!breaker) {
+      breaker = new CircuitBreaker();
+      this.circuitBreakers.set(manager, breaker);
+    }
+    return breaker;
   }
 
   async executeToolWithFallback(
@@ -161,86 +430,99 @@ export class ToolProxy {
     return primaryResult;
   }
 
+  // Resolves as soon as a manager whose detection confidence reaches
+  // minConfidence succeeds; once earlyReturnTimeoutMs has passed, any success
+  // wins. Calls still running at that point are cancelled. Without a
+  // qualifying success every result is awaited.
   async executeToolWithEarlyReturn(
     managers: PackageManager[],
     toolName: string,
     params: any,
-    earlyReturnTimeoutMs: number = 2000
+    earlyReturnTimeoutMs: number = PARALLEL_EXECUTION_STRATEGY.early_return_timeout,
+    options: EarlyReturnOptions = {}
   ): Promise<PackageManagerResult[]> {
-    const results: PackageManagerResult[] = [];
-    const promises = new Map<PackageManager, Promise<PackageManagerResult>>();
+    const minConfidence = options.minConfidence ?? PARALLEL_EXECUTION_STRATEGY.high_confidence_threshold;
+    const settled: PackageManagerResult[] = [];
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    let graceExpired = false;
 
-    // Start all tool calls
-    for (const manager of managers) {
-      const promise = this.executeToolSingle(manager, toolName, params);
-      promises.set(manager, promise);
+    if (managers.length === 0) {
+      return [];
     }
 
-    // Wait for early return timeout or first success
-    const earlyReturnPromise = new Promise<PackageManagerResult | null>((resolve) => {
-      const timeout = setTimeout(() => resolve(null), earlyReturnTimeoutMs);
-      
-      // Check for first successful result
-      Promise.race(Array.from(promises.values()))
-        .then(result => {
-          if (result.success) {
-            clearTimeout(timeout);
-            resolve(result);
-          }
-        })
-        .catch(() => {
-          // Ignore errors in race condition
-        });
-    });
+    return await new Promise<PackageManagerResult[]>((resolve) => {
+      let done = false;
+
+      const finish = () => {
+        done = true;
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
 
-    const earlyResult = await earlyReturnPromise;
+        const pending = managers.filter(manager => !settled.some(result => result.manager === manager));
+        if (pending.length > 0) {
+          logger.debug(`Returning early from ${toolName}; cancelling calls to ${pending.join(', ')}`);
+          controller.abort();
+        }
 
-    // If we got an early successful result, we can optionally return just that
-    // For now, let's wait for all results to maintain consistency
-    const allResults = await Promise.allSettled(Array.from(promises.values()));
+        resolve(settled.sort((a, b) => managers.indexOf(a.manager) - managers.indexOf(b.manager)));
+      };
+
+      const qualifies = (result: PackageManagerResult) => result.success && (
+        graceExpired || (options.confidences?.get(result.manager) ?? 1) >= minConfidence
+      );
+
+      const timer = setTimeout(() => {
+        graceExpired = true;
+        if (!done && settled.some(qualifies)) {
+          finish();
+        }
+      }, earlyReturnTimeoutMs);
 
-    for (let i = 0; i < allResults.length; i++) {
-      const promiseResult = allResults[i];
-      if (promiseResult.status === 'fulfilled') {
-        results.push(promiseResult.value);
+      if (options.signal?.aborted) {
+        controller.abort();
       } else {
-        // Handle rejected promises
-        const manager = managers[i];
-        results.push({
-          manager,
-          success: false,
-          error: promiseResult.reason?.message || 'Unknown error',
-          response_time: 0
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+      }
+
+      for (const manager of managers) {
+        void this.executeToolSingle(manager, toolName, params, options.timeoutMs, {
+          signal: controller.signal,
+          fresh: options.fresh
+        }).then(result => {
+          if (done) return;
+
+          settled.push(result);
+          if (qualifies(result) || settled.length === managers.length) {
+            finish();
+          }
         });
       }
-    }
+    });
+  }
 
-    return results;
+  // Servers that have not listed their tools yet are assumed to offer it
+  supportsTool(manager: PackageManager, toolName: string): boolean {
+    const discovered = this.clientManager.getDiscoveredTools(manager);
+    return !discovered || discovered.some(tool => tool.name === toolName);
   }
 
   async validateToolSupport(
     manager: PackageManager,
     toolName: string
   ): Promise<boolean> {
-    try {
-      if (!this.clientManager.isConnected(manager)) {
-        return false;
-      }
-
-      const client = this.clientManager.clients.get(manager);
-      if (!client) {
-        return false;
-      }
-
-      const tools = await client.listTools();
-      return tools.tools.some(tool => tool.name === toolName);
-    } catch (error) {
-      console.error(`Failed to validate tool support for ${manager}.${toolName}:`, error);
-      return false;
-    }
+    const tools = await this.getAvailableTools(manager);
+    return tools.includes(toolName);
   }
 
+  // The tools listed when the server connected; servers that could not list
+  // them then are asked again
   async getAvailableTools(manager: PackageManager): Promise<string[]> {
+    const discovered = this.clientManager.getDiscoveredTools(manager);
+    if (discovered) {
+      return discovered.map(tool => tool.name);
+    }
+
     try {
       if (!this.clientManager.isConnected(manager)) {
         return [];
@@ -1,10 +1,20 @@
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { mergeConfig, readUserConfig } from './user-config.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+export interface TransportSettings {
+  type: 'stdio' | 'http';
+  host: string;
+  port: number;
+  session_idle_timeout_ms: number;
+  max_request_bytes: number;
+  allowed_origins: string[];
+}
+
 export interface DetectionSettings {
   confidence_thresholds: {
     minimum_confidence: number;
@@ -21,15 +31,77 @@ export interface DetectionSettings {
     max_context_hints: number;
     max_hint_length: number;
     max_version_length: number;
+    max_manifest_length: number;
+    max_lockfile_length: number;
+    max_batch_size: number;
+    max_tree_depth: number;
   };
   execution_settings: {
     max_managers_attempted: number;
     timeout_ms: number;
     retry_attempts: number;
+    batch_concurrency: number;
+    default_tree_depth: number;
+    max_tree_nodes: number;
+    restart_base_delay_ms: number;
+    restart_max_delay_ms: number;
+    max_restarts_per_window: number;
+    restart_window_ms: number;
+    idle_timeout_ms: number;
+    circuit_window_size: number;
+    circuit_minimum_calls: number;
+    circuit_failure_rate_threshold: number;
+    circuit_slow_call_ms: number;
+    circuit_slow_call_rate_threshold: number;
+    circuit_cooldown_ms: number;
+  };
+  cache_settings: {
+    tool_ttl_ms: Record<string, number>;
+    stale_while_revalidate_ms: number;
+    persistence: {
+      backend: 'memory' | 'filesystem' | 'single-file';
+      path?: string;
+      max_size_bytes: number;
+    };
+  };
+  offline_settings: {
+    enabled: boolean;
+    mirror_directory: string;
+    retention_ms: number;
+  };
+  transport_settings: TransportSettings;
+  passthrough_settings: {
+    enabled: boolean;
+    exclude_tools: string[];
+  };
+  reload_settings: {
+    watch: boolean;
+    debounce_ms: number;
   };
   file_patterns: Record<string, string[]>;
 }
 
+const REQUIRED_SECTIONS = [
+  'confidence_thresholds',
+  'validation_rules',
+  'execution_settings',
+  'cache_settings',
+  'offline_settings',
+  'transport_settings',
+  'passthrough_settings',
+  'reload_settings',
+  'file_patterns'
+];
+
+// Sections whose values must all be non-negative numbers
+const NUMERIC_SECTIONS = ['confidence_thresholds', 'execution_settings'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonNegativeNumber = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
 class SettingsLoader {
   private static instance: SettingsLoader;
   private settings: DetectionSettings | null = null;
@@ -49,18 +121,86 @@ class SettingsLoader {
   }
 
   private loadSettings(): void {
+    this.settings = this.readSettings();
+  }
+
+  // Reads the settings file with the user's overrides and validates it
+  // without applying it
+  readSettings(): DetectionSettings {
+    let settings: unknown;
     try {
       const configPath = join(__dirname, '../../config/detection-settings.json');
       const settingsData = readFileSync(configPath, 'utf-8');
-      this.settings = JSON.parse(settingsData) as DetectionSettings;
+      settings = JSON.parse(settingsData);
     } catch (error) {
       throw new Error(`Failed to load detection settings: ${error}`);
     }
+
+    const override = readUserConfig('detection-settings.json');
+    if (override !== undefined) {
+      settings = mergeConfig(settings, override);
+    }
+
+    const errors = SettingsLoader.validate(settings);
+    if (errors.length > 0) {
+      throw new Error(`Invalid detection settings: ${errors.join('; ')}`);
+    }
+    return settings as DetectionSettings;
+  }
+
+  applySettings(settings: DetectionSettings): void {
+    this.settings = settings;
   }
 
+  // Keeps the current settings when the file cannot be read or is invalid
   reloadSettings(): void {
-    this.settings = null;
-    this.loadSettings();
+    this.settings = this.readSettings();
+  }
+
+  static validate(settings: unknown): string[] {
+    if (!isObject(settings)) {
+      return ['settings must be an object'];
+    }
+
+    const errors = REQUIRED_SECTIONS
+      .filter(section => !isObject(settings[section]))
+      .map(section => `${section} is missing`);
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    for (const section of NUMERIC_SECTIONS) {
+      for (const [key, value] of Object.entries(settings[section])) {
+        if (!isNonNegativeNumber(value)) {
+          errors.push(`${section}.${key} must be a non-negative number`);
+        }
+      }
+    }
+
+    for (const [tool, ttl] of Object.entries(settings.cache_settings.tool_ttl_ms || {})) {
+      if (!isNonNegativeNumber(ttl)) {
+        errors.push(`cache_settings.tool_ttl_ms.${tool} must be a non-negative number`);
+      }
+    }
+
+    try {
+      new RegExp(settings.validation_rules.allowed_package_name_chars);
+    } catch (error) {
+      errors.push(`validation_rules.allowed_package_name_chars is not a valid pattern: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const port = settings.transport_settings.port;
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      errors.push('transport_settings.port must be a port number');
+    }
+
+    for (const [name, patterns] of Object.entries(settings.file_patterns)) {
+      if (!Array.isArray(patterns)) {
+        errors.push(`file_patterns.${name} must be a list`);
+      }
+    }
+
+    return errors;
   }
 }
 
@@ -0,0 +1,50 @@
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+// Files in this directory override the bundled config files of the same name
+export function userConfigDirectory(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(configHome, 'package-readme-core-mcp-server');
+}
+
+// Returns undefined when the user has no override for the file
+export function readUserConfig(fileName: string): unknown {
+  const configPath = join(userConfigDirectory(), fileName);
+  let data: string;
+  try {
+    data = readFileSync(configPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw new Error(`Failed to read ${configPath}: ${error}`);
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    throw new Error(`Failed to parse ${configPath}: ${error}`);
+  }
+}
+
+// Objects are merged key by key and null removes a key; arrays and other
+// values replace the bundled value
+export function mergeConfig(base: unknown, override: unknown): unknown {
+  if (!isObject(override)) {
+    return override;
+  }
+
+  const merged: Record<string, unknown> = isObject(base) ? { ...base } : {};
+  for (const [key, value] of Object.entries(override)) {
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = mergeConfig(merged[key], value);
+    }
+  }
+  return merged;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,194 @@
+import { FSWatcher, watch } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { PackageManager } from '../types/index.js';
+import { DetectionSettings, settingsLoader } from '../config/settings-loader.js';
+import { userConfigDirectory } from '../config/user-config.js';
+import { ConfigDiff, ManagerRegistry, RegistryChanges } from '../detection/manager-registry.js';
+import { MCPClientManagerImpl } from '../clients/mcp-client-manager.js';
+import { ServerSupervisor } from '../clients/server-supervisor.js';
+import { detectionCache } from '../utils/cache.js';
+import { logger } from '../utils/logger.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export type ReloadListener = (result: ReloadResult) => void;
+
+export interface ReloadResult {
+  applied: boolean;
+  error?: string;
+  // Top-level sections of detection-settings.json that changed
+  settings?: string[];
+  managers?: ConfigDiff;
+  servers?: ConfigDiff;
+  // Changed settings that are only read at startup
+  restart_required?: string[];
+}
+
+const RESTART_REQUIRED_SETTINGS = [
+  'transport_settings',
+  'cache_settings.persistence',
+  'offline_settings.enabled',
+  'reload_settings',
+  'execution_settings.restart_base_delay_ms',
+  'execution_settings.restart_max_delay_ms',
+  'execution_settings.max_restarts_per_window',
+  'execution_settings.restart_window_ms'
+];
+
+// Watches the bundled config directory and the user config directory and
+// applies edited config files while the server runs. The settings and both registry files are read and validated
+// before anything is applied, so an invalid edit leaves the running config
+// in place.
+export class ConfigReloader {
+  private watchers: FSWatcher[] = [];
+  private debounceTimer?: NodeJS.Timeout;
+  private queue: Promise<unknown> = Promise.resolve();
+  private reloadListeners: ReloadListener[] = [];
+
+  constructor(
+    private managerRegistry: ManagerRegistry,
+    private clientManager: MCPClientManagerImpl,
+    private serverSupervisor: ServerSupervisor,
+    private directories: string[] = [join(__dirname, '../../config'), userConfigDirectory()]
+  ) {}
+
+  start(): void {
+    for (const directory of this.directories) {
+      this.watchDirectory(directory);
+    }
+  }
+
+  stop(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = undefined;
+    }
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+  }
+
+  // Called after a reload that changed the config
+  onReloaded(listener: ReloadListener): void {
+    this.reloadListeners.push(listener);
+  }
+
+  // Reloads run one at a time
+  reload(): Promise<ReloadResult> {
+    const result = this.queue.then(() => this.applyReload());
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private watchDirectory(directory: string): void {
+    const debounceMs = settingsLoader.getSettings().reload_settings.debounce_ms;
+
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(directory, (_event, fileName) => {
+        if (fileName && !fileName.toString().endsWith('.json')) {
+          return;
+        }
+
+        // Editors often save a file in several writes
+        if (this.debounceTimer) {
+          clearTimeout(this.debounceTimer);
+        }
+        this.debounceTimer = setTimeout(() => {
+          this.debounceTimer = undefined;
+          void this.reload();
+        }, debounceMs);
+        this.debounceTimer.unref?.();
+      });
+    } catch (error) {
+      // The user config directory is optional
+      logger.debug(`Not watching ${directory} for config changes`, { error: String(error) });
+      return;
+    }
+
+    watcher.on('error', error => {
+      logger.warn('Stopped watching config files', { directory, error: String(error) });
+    });
+    this.watchers.push(watcher);
+    logger.info(`Watching ${directory} for config changes`);
+  }
+
+  private async applyReload(): Promise<ReloadResult> {
+    let nextSettings: DetectionSettings;
+    let nextConfig;
+    try {
+      nextSettings = settingsLoader.readSettings();
+      nextConfig = await this.managerRegistry.loadConfig();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Rejected config change, keeping the current config', { error: message });
+      return { applied: false, error: message };
+    }
+
+    const previousSettings = settingsLoader.getSettings();
+    const previousServers = this.clientManager.getConfiguredManagers();
+
+    settingsLoader.applySettings(nextSettings);
+    const changes = this.managerRegistry.applyConfig(nextConfig);
+    await this.updateConnections(previousServers, changes);
+
+    const result: ReloadResult = {
+      applied: true,
+      settings: ConfigReloader.changedPaths(previousSettings, nextSettings, Object.keys({ ...previousSettings, ...nextSettings })),
+      managers: changes.managers,
+      servers: changes.servers,
+      restart_required: ConfigReloader.changedPaths(previousSettings, nextSettings, RESTART_REQUIRED_SETTINGS)
+    };
+
+    // Cached detections were computed from the previous patterns and thresholds
+    const detectionChanged = result.settings!.length > 0 || ConfigReloader.hasChanges(changes.managers);
+    if (detectionChanged) {
+      detectionCache.clear();
+    }
+
+    if (!detectionChanged && !ConfigReloader.hasChanges(changes.servers)) {
+      logger.debug('Config files were written without changes');
+      return result;
+    }
+
+    logger.info('Reloaded config', { settings: result.settings, managers: changes.managers, servers: changes.servers });
+    if (result.restart_required!.length > 0) {
+      logger.warn('Some changed settings take effect after a restart', { settings: result.restart_required });
+    }
+    this.reloadListeners.forEach(listener => listener(result));
+    return result;
+  }
+
+  // Removed servers are disconnected and no longer restarted. Added and
+  // changed servers are connected, unless they are lazy or the server is
+  // offline.
+  private async updateConnections(previousServers: PackageManager[], changes: RegistryChanges): Promise<void> {
+    const serverConfigs = this.managerRegistry.getServerConfigs();
+
+    for (const manager of previousServers) {
+      if (!serverConfigs.has(manager)) {
+        this.serverSupervisor.forget(manager);
+      }
+    }
+    await this.clientManager.updateServerConfigs(serverConfigs, changes.servers.changed);
+
+    if (settingsLoader.getSettings().offline_settings.enabled) {
+      return;
+    }
+
+    const toConnect = Array.from(serverConfigs.keys())
+      .filter(manager => !previousServers.includes(manager) || changes.servers.changed.includes(manager));
+    await Promise.all(toConnect.map(manager => this.serverSupervisor.connectServer(manager)));
+  }
+
+  private static hasChanges(diff: ConfigDiff): boolean {
+    return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+  }
+
+  private static changedPaths(previous: DetectionSettings, next: DetectionSettings, paths: string[]): string[] {
+    const valueAt = (settings: DetectionSettings, path: string) =>
+      JSON.stringify(path.split('.').reduce<any>((value, key) => value?.[key], settings));
+    return paths.filter(path => valueAt(previous, path) !== valueAt(next, path));
+  }
+}
@@ -4,18 +4,26 @@ import { ConfidenceCalculator } from '../detection/confidence-calculator.js';
 import { ManagerRegistry } from '../detection/manager-registry.js';
 import { MCPClientManagerImpl } from '../clients/mcp-client-manager.js';
 import { ToolProxy } from '../clients/tool-proxy.js';
+import { ServerSupervisor } from '../clients/server-supervisor.js';
 
 import { SmartPackageSearchTool } from '../tools/smart-package-search.js';
 import { SmartPackageReadmeTool } from '../tools/smart-package-readme.js';
 import { SmartPackageInfoTool } from '../tools/smart-package-info.js';
+import { SmartPackageInfoBatchTool } from '../tools/smart-package-info-batch.js';
+import { ResolveDependencyTreeTool } from '../tools/resolve-dependency-tree.js';
+import { FindEquivalentPackagesTool } from '../tools/find-equivalent-packages.js';
 import { ListSupportedManagersTool } from '../tools/list-supported-managers.js';
+import { PassthroughTools } from '../tools/passthrough-tools.js';
 
 import { logger } from '../utils/logger.js';
-import { cacheManager } from '../utils/cache.js';
+import { cacheManager, responseCache } from '../utils/cache.js';
+import { createCacheBackend } from '../utils/cache-backends.js';
+import { settingsLoader } from '../config/settings-loader.js';
 
 export interface Dependencies {
   managerRegistry: ManagerRegistry;
   clientManager: MCPClientManagerImpl;
+  serverSupervisor: ServerSupervisor;
   patternDetector: PatternDetector;
   contextAnalyzer: ContextAnalyzer;
   confidenceCalculator: ConfidenceCalculator;
@@ -23,13 +31,17 @@ export interface Dependencies {
   smartPackageSearchTool: SmartPackageSearchTool;
   smartPackageReadmeTool: SmartPackageReadmeTool;
   smartPackageInfoTool: SmartPackageInfoTool;
+  smartPackageInfoBatchTool: SmartPackageInfoBatchTool;
+  resolveDependencyTreeTool: ResolveDependencyTreeTool;
+  findEquivalentPackagesTool: FindEquivalentPackagesTool;
   listSupportedManagersTool: ListSupportedManagersTool;
+  passthroughTools: PassthroughTools;
 }
 
 export class DependencyInitializer {
   static createInitialDependencies(): Partial<Dependencies> {
     const managerRegistry = new ManagerRegistry();
-    const patternDetector = new PatternDetector();
+    const patternDetector = new PatternDetector(managerRegistry);
     const contextAnalyzer = new ContextAnalyzer();
     const confidenceCalculator = new ConfidenceCalculator();
     
@@ -63,16 +75,9 @@ export class DependencyInitializer {
     await managerRegistry.initialize();
     logger.info(`Loaded ${managerRegistry.getManagerCount()} package managers`);
 
-    const availableManagers = managerRegistry.getAvailableManagers();
-    const serverConfigs = new Map();
-    
-    for (const manager of availableManagers) {
-      if (manager.mcp_server_config) {
-        serverConfigs.set(manager.manager, manager.mcp_server_config);
-      }
-    }
-
-    const clientManager = new MCPClientManagerImpl(serverConfigs);
+    const clientManager = new MCPClientManagerImpl(managerRegistry.getServerConfigs());
+    clientManager.onToolsDiscovered((manager, tools) => managerRegistry.reconcileTools(manager, tools));
+    const serverSupervisor = new ServerSupervisor(clientManager, managerRegistry);
     const toolProxy = new ToolProxy(clientManager);
 
     const smartPackageSearchTool = new SmartPackageSearchTool(
@@ -99,22 +104,58 @@ export class DependencyInitializer {
       toolProxy
     );
 
+    const smartPackageInfoBatchTool = new SmartPackageInfoBatchTool(
+      patternDetector,
+      contextAnalyzer,
+      confidenceCalculator,
+      managerRegistry,
+      toolProxy
+    );
+
+    const resolveDependencyTreeTool = new ResolveDependencyTreeTool(
+      patternDetector,
+      contextAnalyzer,
+      confidenceCalculator,
+      managerRegistry,
+      toolProxy
+    );
+
+    const findEquivalentPackagesTool = new FindEquivalentPackagesTool(
+      patternDetector,
+      contextAnalyzer,
+      confidenceCalculator,
+      managerRegistry,
+      toolProxy
+    );
+
     const listSupportedManagersTool = new ListSupportedManagersTool(
       managerRegistry,
-      clientManager
+      clientManager,
+      serverSupervisor,
+      toolProxy
     );
 
-    logger.info('Connecting to MCP servers...');
-    await clientManager.connectAll();
-    
-    const connectedManagers = clientManager.getConnectedManagers();
-    logger.info(`Connected to ${connectedManagers.length} MCP servers: ${connectedManagers.join(', ')}`);
+    const passthroughTools = new PassthroughTools(managerRegistry, toolProxy);
+
+    if (settingsLoader.getSettings().offline_settings.enabled) {
+      logger.info('Offline mode: not connecting to MCP servers');
+    } else {
+      logger.info('Connecting to MCP servers...');
+      await clientManager.connectEager();
+      
+      const connectedManagers = clientManager.getConnectedManagers();
+      logger.info(`Connected to ${connectedManagers.length} MCP servers: ${connectedManagers.join(', ')}`);
+
+      serverSupervisor.start();
+    }
 
+    DependencyInitializer.initializeCachePersistence();
     cacheManager.startPeriodicCleanup();
 
     return {
       managerRegistry,
       clientManager,
+      serverSupervisor,
       patternDetector,
       contextAnalyzer,
       confidenceCalculator,
@@ -122,7 +163,26 @@ export class DependencyInitializer {
       smartPackageSearchTool,
       smartPackageReadmeTool,
       smartPackageInfoTool,
-      listSupportedManagersTool
+      smartPackageInfoBatchTool,
+      resolveDependencyTreeTool,
+      findEquivalentPackagesTool,
+      listSupportedManagersTool,
+      passthroughTools
     };
   }
+
+  // Downstream responses are persisted so READMEs and package info survive
+  // restarts. A backend that cannot be opened leaves the cache in memory.
+  private static initializeCachePersistence(): void {
+    const persistence = settingsLoader.getSettings().cache_settings.persistence;
+    try {
+      const backend = createCacheBackend(persistence);
+      responseCache.setBackend(backend);
+      if (backend) {
+        logger.info(`Persisting cached responses with the ${backend.name} backend`, backend.getStats());
+      }
+    } catch (error) {
+      logger.warn('Failed to open the persistent cache, caching in memory only', { backend: persistence.backend, error: String(error) });
+    }
+  }
 }
\ No newline at end of file
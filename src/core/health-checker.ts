@@ -1,5 +1,7 @@
 import { ManagerRegistry } from '../detection/manager-registry.js';
 import { MCPClientManagerImpl } from '../clients/mcp-client-manager.js';
+import { ToolProxy } from '../clients/tool-proxy.js';
+import { CircuitBreakerSnapshot } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 import { cacheManager } from '../utils/cache.js';
 
@@ -10,6 +12,7 @@ export interface HealthStatus {
     total_managers: number;
     cache_stats: any;
     uptime: number;
+    circuit_breakers?: Record<string, CircuitBreakerSnapshot>;
   };
 }
 
@@ -18,7 +21,8 @@ export class HealthChecker {
 
   constructor(
     private managerRegistry: ManagerRegistry,
-    private clientManager: MCPClientManagerImpl
+    private clientManager: MCPClientManagerImpl,
+    private toolProxy?: ToolProxy
   ) {}
 
   async checkHealth(): Promise<HealthStatus> {
@@ -35,7 +39,8 @@ export class HealthChecker {
           connected_managers: connectedManagers,
           total_managers: totalManagers,
           cache_stats: cacheStats,
-          uptime: Date.now() - this.startTime
+          uptime: Date.now() - this.startTime,
+          circuit_breakers: this.toolProxy?.getCircuitBreakerSnapshots()
         }
       };
 
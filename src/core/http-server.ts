@@ -0,0 +1,254 @@
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ToolOrchestrationMCPServer } from '../server.js';
+import { TransportSettings } from '../config/settings-loader.js';
+import { logger } from '../utils/logger.js';
+
+type SessionTransport = StreamableHTTPServerTransport | SSEServerTransport;
+
+interface HttpSession {
+  id: string;
+  transport: SessionTransport;
+  server: Server;
+  last_activity: number;
+}
+
+class HttpRequestError extends Error {
+  constructor(public status: number, message: string, public code: number = -32600) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+// Serves the orchestrator over HTTP to many clients at once:
+// - /mcp: Streamable HTTP. POST an initialize request without a session to
+//   start a session; later requests carry its Mcp-Session-Id header
+// - /sse and /messages: the older HTTP+SSE transport
+// - /health: the health check as JSON
+// Every session gets its own MCP server, all sharing one orchestrator.
+export class OrchestratorHttpServer {
+  private httpServer?: NodeHttpServer;
+  private sessions = new Map<string, HttpSession>();
+  private idleSweep?: NodeJS.Timeout;
+
+  constructor(
+    private orchestrator: ToolOrchestrationMCPServer,
+    private settings: TransportSettings
+  ) {}
+
+  async start(): Promise<AddressInfo> {
+    const httpServer = createServer((req, res) => {
+      void this.handleRequest(req, res);
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.settings.port, this.settings.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.idleSweep = setInterval(
+      () => void this.closeIdleSessions(),
+      Math.min(this.settings.session_idle_timeout_ms, 60000)
+    );
+    this.idleSweep.unref();
+
+    return httpServer.address() as AddressInfo;
+  }
+
+  async stop(): Promise<void> {
+    if (this.idleSweep) {
+      clearInterval(this.idleSweep);
+      this.idleSweep = undefined;
+    }
+
+    await Promise.all(Array.from(this.sessions.keys()).map(id => this.closeSession(id)));
+
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (httpServer) {
+      await new Promise<void>(resolve => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    }
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const origin = req.headers.origin;
+      if (origin && !this.settings.allowed_origins.includes(origin)) {
+        throw new HttpRequestError(403, `Origin not allowed: ${origin}`);
+      }
+
+      const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+      switch (pathname) {
+        case '/mcp':
+          await this.handleStreamableHttp(req, res);
+          return;
+        case '/sse':
+          this.requireMethod(req, 'GET');
+          await this.openSseSession(res);
+          return;
+        case '/messages':
+          this.requireMethod(req, 'POST');
+          await this.handleSseMessage(req, res, searchParams.get('sessionId'));
+          return;
+        case '/health':
+          this.requireMethod(req, 'GET');
+          this.sendJson(res, 200, { ...await this.orchestrator.healthCheck(), sessions: this.sessions.size });
+          return;
+        default:
+          throw new HttpRequestError(404, `Not found: ${pathname}`);
+      }
+    } catch (error) {
+      if (!(error instanceof HttpRequestError)) {
+        logger.error('HTTP request failed', { url: req.url, error: error instanceof Error ? error.message : String(error) });
+      }
+      if (!res.headersSent) {
+        const status = error instanceof HttpRequestError ? error.status : 500;
+        const code = error instanceof HttpRequestError ? error.code : -32603;
+        const message = error instanceof HttpRequestError ? error.message : 'Internal server error';
+        this.sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+      }
+    }
+  }
+
+  private async handleStreamableHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = req.method === 'POST' ? await this.readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const transport = this.touchSession(sessionId, StreamableHTTPServerTransport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    const initializing = Array.isArray(body) ? body.some(message => isInitializeRequest(message)) : isInitializeRequest(body);
+    if (req.method !== 'POST' || !initializing) {
+      throw new HttpRequestError(400, 'Bad Request: No valid session ID provided');
+    }
+
+    const server = this.orchestrator.createSessionServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        this.sessions.set(id, { id, transport, server, last_activity: Date.now() });
+        logger.info('HTTP session started', { session_id: id, transport: 'streamable-http' });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.forgetSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async openSseSession(res: ServerResponse): Promise<void> {
+    const server = this.orchestrator.createSessionServer();
+    const transport = new SSEServerTransport('/messages', res);
+    const id = transport.sessionId;
+
+    this.sessions.set(id, { id, transport, server, last_activity: Date.now() });
+    transport.onclose = () => this.forgetSession(id);
+    res.on('close', () => void this.closeSession(id));
+
+    await server.connect(transport);
+    logger.info('HTTP session started', { session_id: id, transport: 'sse' });
+  }
+
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    if (!sessionId) {
+      throw new HttpRequestError(400, 'Bad Request: Missing sessionId');
+    }
+
+    const transport = this.touchSession(sessionId, SSEServerTransport);
+    await transport.handlePostMessage(req, res, await this.readJsonBody(req));
+  }
+
+  private touchSession<T extends SessionTransport>(sessionId: string, kind: new (...args: any[]) => T): T {
+    const session = this.sessions.get(sessionId);
+    if (!session || !(session.transport instanceof kind)) {
+      throw new HttpRequestError(404, 'Session not found', -32001);
+    }
+    session.last_activity = Date.now();
+    return session.transport as T;
+  }
+
+  private async closeIdleSessions(): Promise<void> {
+    const idleSince = Date.now() - this.settings.session_idle_timeout_ms;
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.last_activity < idleSince) {
+        logger.info('Closing idle HTTP session', { session_id: session.id });
+        await this.closeSession(session.id);
+      }
+    }
+  }
+
+  private async closeSession(id: string): Promise<void> {
+    const session = this.forgetSession(id);
+    if (!session) {
+      return;
+    }
+
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.debug('Failed to close HTTP session', { session_id: id, error: String(error) });
+    }
+  }
+
+  private forgetSession(id: string): HttpSession | undefined {
+    const session = this.sessions.get(id);
+    if (session) {
+      this.sessions.delete(id);
+      logger.info('HTTP session closed', { session_id: id });
+    }
+    return session;
+  }
+
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > this.settings.max_request_bytes) {
+        throw new HttpRequestError(413, `Request body exceeds ${this.settings.max_request_bytes} bytes`);
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      throw new HttpRequestError(400, 'Parse error: Invalid JSON', -32700);
+    }
+  }
+
+  private requireMethod(req: IncomingMessage, method: string): void {
+    if (req.method !== method) {
+      throw new HttpRequestError(405, `Method not allowed: ${req.method}`);
+    }
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -6,18 +6,29 @@ export class ConfidenceCalculator {
   calculateOverallConfidence(
     patternDetections: DetectedManager[],
     contextDetections: DetectedManager[],
-    preferredManagers: PackageManager[] = []
+    preferredManagers: PackageManager[] = [],
+    manifestDetections: DetectedManager[] = []
   ): DetectedManager[] {
     // Merge all detections
-    const mergedDetections = this.mergeDetections(patternDetections, contextDetections);
+    const mergedDetections = this.mergeDetections(
+      patternDetections,
+      [...contextDetections, ...manifestDetections]
+    );
     
     // Apply user preferences
     const withPreferences = this.applyUserPreferences(mergedDetections, preferredManagers);
     
+    // Manifest evidence sets a confidence floor, since the project itself says
+    // which ecosystem it uses
+    const manifestFloors = new Map(manifestDetections.map(d => [d.manager, d.confidence]));
+
     // Calculate final confidence scores
     const finalDetections = withPreferences.map(detection => ({
       ...detection,
-      confidence: this.calculateFinalConfidence(detection)
+      confidence: Math.max(
+        this.calculateFinalConfidence(detection),
+        manifestFloors.get(detection.manager) || 0
+      )
     }));
 
     // Sort by confidence and return
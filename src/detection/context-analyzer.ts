@@ -1,5 +1,7 @@
-import { PackageManager, DetectedManager, DetectionReason } from '../types/index.js';
+import { PackageManager, DetectedManager, DetectionReason, ProjectFile, LockfileResolution, PurlTarget } from '../types/index.js';
 import { CONTEXT_HINT_PATTERNS } from '../config/patterns.js';
+import { settingsLoader } from '../config/settings-loader.js';
+import { ManifestParser } from './manifest-parser.js';
 
 export class ContextAnalyzer {
   analyzeContextHints(contextHints: string[] = []): DetectedManager[] {
@@ -31,6 +33,80 @@ export class ContextAnalyzer {
       .sort((a, b) => b.confidence - a.confidence);
   }
 
+  analyzeManifest(manifest: ProjectFile | undefined, packageName: string): DetectedManager[] {
+    if (!manifest || typeof manifest.content !== 'string') {
+      return [];
+    }
+
+    const settings = settingsLoader.getSettings();
+    if (manifest.content.length > settings.validation_rules.max_manifest_length) {
+      return [];
+    }
+
+    const parsed = ManifestParser.parse(manifest);
+    if (!parsed) {
+      return [];
+    }
+
+    const declared = ManifestParser.findDependency(parsed, packageName);
+    if (declared) {
+      // A package declared in the project's own manifest is near-certain
+      return [{
+        manager: parsed.manager,
+        confidence: 0.95,
+        detection_reasons: [{
+          type: 'dependency_pattern',
+          description: `Package "${declared.name}" is declared in ${parsed.filename} (${declared.spec})`,
+          weight: 1.0
+        }],
+        available: true
+      }];
+    }
+
+    return [{
+      manager: parsed.manager,
+      confidence: 0.5,
+      detection_reasons: [{
+        type: 'file_pattern',
+        description: `Project manifest ${parsed.filename} belongs to ${parsed.manager}`,
+        weight: 0.3
+      }],
+      available: true
+    }];
+  }
+
+  analyzePurl(target: PurlTarget): DetectedManager[] {
+    // The purl type names the ecosystem explicitly, so no detection is needed
+    return [{
+      manager: target.manager,
+      confidence: 1.0,
+      detection_reasons: [{
+        type: 'purl',
+        description: `Package type given by ${target.purl}`,
+        weight: 1.0
+      }],
+      available: true
+    }];
+  }
+
+  analyzeLockfile(resolution: LockfileResolution | null): DetectedManager[] {
+    if (!resolution) {
+      return [];
+    }
+
+    // A package pinned in the project's lockfile is actually installed
+    return [{
+      manager: resolution.manager,
+      confidence: 0.95,
+      detection_reasons: [{
+        type: 'dependency_pattern',
+        description: `Package "${resolution.package_name}" is locked at ${resolution.version} in ${resolution.lockfile}`,
+        weight: 1.0
+      }],
+      available: true
+    }];
+  }
+
   private analyzeHint(hint: string): DetectedManager[] {
     const detectedManagers: DetectedManager[] = [];
     const lowerHint = hint.toLowerCase();
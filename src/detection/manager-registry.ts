@@ -1,12 +1,32 @@
-import { PackageManager, PackageManagerInfo, MCPServerConfig } from '../types/index.js';
+import { PackageManager, PackageManagerInfo, MCPServerConfig, DiscoveredTool } from '../types/index.js';
 import { readFile } from 'fs/promises';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { logger } from '../utils/logger.js';
+import { settingsLoader } from '../config/settings-loader.js';
+import { mergeConfig, readUserConfig } from '../config/user-config.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+export interface ConfigDiff {
+  added: PackageManager[];
+  removed: PackageManager[];
+  changed: PackageManager[];
+}
+
+export interface RegistryChanges {
+  managers: ConfigDiff;
+  servers: ConfigDiff;
+}
+
+export interface RegistryConfig {
+  managers: Map<PackageManager, PackageManagerInfo>;
+  mcpServers: Map<PackageManager, MCPServerConfig>;
+}
+
+const DOWNSTREAM_TRANSPORTS = ['stdio', 'sse', 'streamable-http'];
+
 export class ManagerRegistry {
   private managers: Map<PackageManager, PackageManagerInfo> = new Map();
   private mcpServers: Map<PackageManager, MCPServerConfig> = new Map();
@@ -19,26 +39,7 @@ export class ManagerRegistry {
 
   private async loadPackageManagers(): Promise<void> {
     try {
-      const configPath = join(__dirname, '../../config', 'package-managers.json');
-      const configData = await readFile(configPath, 'utf-8');
-      const config = JSON.parse(configData);
-
-      for (const [key, managerConfig] of Object.entries(config.managers)) {
-        const manager = key as PackageManager;
-        const config_data = managerConfig as any;
-        const info: PackageManagerInfo = {
-          manager,
-          name: config_data.name,
-          description: config_data.description,
-          file_patterns: config_data.file_patterns,
-          package_name_patterns: config_data.package_name_patterns.map((p: string) => new RegExp(p)),
-          context_keywords: config_data.context_keywords,
-          priority: config_data.priority,
-          mcp_server_available: false, // Will be updated later
-        };
-
-        this.managers.set(manager, info);
-      }
+      this.managers = ManagerRegistry.parsePackageManagers(await this.readConfig('package-managers.json'));
     } catch (error) {
       logger.error('Failed to load package managers config', error);
       // Load defaults if config file is missing
@@ -48,30 +49,105 @@ export class ManagerRegistry {
 
   private async loadMCPServers(): Promise<void> {
     try {
-      const configPath = join(__dirname, '../../config', 'mcp-servers.json');
-      const configData = await readFile(configPath, 'utf-8');
-      const config = JSON.parse(configData);
-
-      for (const [key, serverConfig] of Object.entries(config.servers)) {
-        const manager = key as PackageManager;
-        const server_data = serverConfig as any;
-        const mcpConfig: MCPServerConfig = {
-          server_id: server_data.server_id,
-          command: server_data.command,
-          args: server_data.args,
-          env: server_data.env,
-          tools: server_data.tools,
-          health_check_interval: server_data.health_check_interval,
-          connection_status: 'disconnected'
-        };
-
-        this.mcpServers.set(manager, mcpConfig);
-      }
+      this.mcpServers = ManagerRegistry.parseMCPServers(await this.readConfig('mcp-servers.json'));
     } catch (error) {
       logger.error('Failed to load MCP servers config', error);
     }
   }
 
+  private async readConfig(fileName: string): Promise<any> {
+    const configPath = join(__dirname, '../../config', fileName);
+    const configData = await readFile(configPath, 'utf-8');
+    const config = JSON.parse(configData);
+    const override = readUserConfig(fileName);
+    return override === undefined ? config : mergeConfig(config, override);
+  }
+
+  // Throws on entries that are missing required fields or hold invalid
+  // patterns, naming the manager
+  static parsePackageManagers(config: any): Map<PackageManager, PackageManagerInfo> {
+    const managers = new Map<PackageManager, PackageManagerInfo>();
+
+    for (const [key, managerConfig] of Object.entries(ManagerRegistry.requireObject(config?.managers, 'managers'))) {
+      const manager = ManagerRegistry.requireManager(key);
+      const config_data = managerConfig as any;
+      if (typeof config_data?.name !== 'string' || !Array.isArray(config_data.file_patterns) ||
+          !Array.isArray(config_data.package_name_patterns) || typeof config_data.priority !== 'number') {
+        throw new Error(`Package manager ${manager} needs a name, file_patterns, package_name_patterns and a priority`);
+      }
+
+      let package_name_patterns: RegExp[];
+      try {
+        package_name_patterns = config_data.package_name_patterns.map((p: string) => new RegExp(p));
+      } catch (error) {
+        throw new Error(`Invalid package name pattern for ${manager}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      managers.set(manager, {
+        manager,
+        name: config_data.name,
+        description: config_data.description,
+        file_patterns: config_data.file_patterns,
+        package_name_patterns,
+        context_keywords: config_data.context_keywords || [],
+        priority: config_data.priority,
+        mcp_server_available: false, // Will be updated later
+      });
+    }
+
+    return managers;
+  }
+
+  static parseMCPServers(config: any): Map<PackageManager, MCPServerConfig> {
+    const mcpServers = new Map<PackageManager, MCPServerConfig>();
+
+    for (const [key, serverConfig] of Object.entries(ManagerRegistry.requireObject(config?.servers, 'servers'))) {
+      const manager = ManagerRegistry.requireManager(key);
+      const server_data = serverConfig as any;
+      const transport = server_data?.transport || 'stdio';
+      if (!DOWNSTREAM_TRANSPORTS.includes(transport)) {
+        throw new Error(`Unknown transport for the ${manager} MCP server: ${transport}`);
+      }
+      if (transport === 'stdio' ? typeof server_data.command !== 'string' : typeof server_data.url !== 'string') {
+        throw new Error(`The ${manager} MCP server needs a ${transport === 'stdio' ? 'command' : 'url'}`);
+      }
+      if (!Array.isArray(server_data.tools)) {
+        throw new Error(`The ${manager} MCP server needs a list of tools`);
+      }
+
+      mcpServers.set(manager, {
+        server_id: server_data.server_id,
+        transport,
+        command: server_data.command,
+        args: server_data.args,
+        env: server_data.env,
+        url: server_data.url,
+        headers: server_data.headers,
+        tools: server_data.tools,
+        health_check_interval: server_data.health_check_interval,
+        connection_mode: server_data.connection_mode === 'lazy' ? 'lazy' : 'eager',
+        idle_timeout_ms: server_data.idle_timeout_ms,
+        connection_status: 'disconnected'
+      });
+    }
+
+    return mcpServers;
+  }
+
+  private static requireObject(value: unknown, name: string): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new Error(`Config is missing its ${name} object`);
+    }
+    return value as Record<string, unknown>;
+  }
+
+  private static requireManager(key: string): PackageManager {
+    if (!Object.values(PackageManager).includes(key as PackageManager)) {
+      throw new Error(`Unknown package manager: ${key}`);
+    }
+    return key as PackageManager;
+  }
+
   private updateAvailability(): void {
     for (const [manager, info] of this.managers.entries()) {
       const mcpConfig = this.mcpServers.get(manager);
@@ -144,12 +220,25 @@ export class ManagerRegistry {
     }
   }
 
-  isManagerAvailable(manager: PackageManager): boolean {
+  // Lazy servers count as available while idle; they are started on first use.
+  // With a tool name, managers whose server lacks that tool are unavailable.
+  isManagerAvailable(manager: PackageManager, toolName?: string): boolean {
     const managerInfo = this.managers.get(manager);
     const mcpConfig = this.mcpServers.get(manager);
+
+    if (toolName && !this.hasToolSupport(manager, toolName)) {
+      return false;
+    }
+
+    // Offline lookups never reach the server, so it does not need a connection
+    if (settingsLoader.getSettings().offline_settings.enabled) {
+      return !!managerInfo?.mcp_server_available;
+    }
     
-    return !!(managerInfo?.mcp_server_available && 
-             mcpConfig?.connection_status === 'connected');
+    return !!(managerInfo?.mcp_server_available && (
+      mcpConfig?.connection_status === 'connected' ||
+      mcpConfig?.connection_mode === 'lazy'
+    ));
   }
 
   getManagersByPriority(): PackageManager[] {
@@ -158,20 +247,48 @@ export class ManagerRegistry {
       .map(manager => manager.manager);
   }
 
+  // The tools the server listed once it has connected, the configured
+  // tools until then
   getSupportedTools(manager: PackageManager): string[] {
     const mcpConfig = this.mcpServers.get(manager);
+    if (mcpConfig?.discovered_tools) {
+      return mcpConfig.discovered_tools.map(tool => tool.name);
+    }
     return mcpConfig?.tools || [];
   }
 
+  getDiscoveredTools(manager: PackageManager): DiscoveredTool[] | undefined {
+    return this.mcpServers.get(manager)?.discovered_tools;
+  }
+
+  // Stores the tools a server listed on connect and warns when they drift
+  // from the tools configured in mcp-servers.json
+  reconcileTools(manager: PackageManager, tools: DiscoveredTool[]): void {
+    const mcpConfig = this.mcpServers.get(manager);
+    if (!mcpConfig) {
+      return;
+    }
+
+    const configured = mcpConfig.tools || [];
+    const discovered = tools.map(tool => tool.name);
+    const missing = configured.filter(name => !discovered.includes(name));
+    const unlisted = discovered.filter(name => !configured.includes(name));
+
+    if (missing.length > 0 || unlisted.length > 0) {
+      logger.warn(`Tools of the ${manager} MCP server differ from mcp-servers.json`, { missing, unlisted });
+    }
+
+    mcpConfig.discovered_tools = tools;
+  }
+
   hasToolSupport(manager: PackageManager, toolName: string): boolean {
     const supportedTools = this.getSupportedTools(manager);
     return supportedTools.includes(toolName);
   }
 
   getManagersWithToolSupport(toolName: string): PackageManager[] {
-    return Array.from(this.mcpServers.entries())
-      .filter(([_, config]) => config.tools.includes(toolName))
-      .map(([manager, _]) => manager);
+    return Array.from(this.mcpServers.keys())
+      .filter(manager => this.hasToolSupport(manager, toolName));
   }
 
   getManagerCount(): number {
@@ -182,9 +299,82 @@ export class ManagerRegistry {
     return this.getAvailableManagers().length;
   }
 
-  refresh(): Promise<void> {
-    this.managers.clear();
-    this.mcpServers.clear();
-    return this.initialize();
+  // Configs of the servers of known managers, as handed to the client manager
+  getServerConfigs(): Map<PackageManager, MCPServerConfig> {
+    const serverConfigs = new Map<PackageManager, MCPServerConfig>();
+    for (const manager of this.getAvailableManagers()) {
+      if (manager.mcp_server_config) {
+        serverConfigs.set(manager.manager, manager.mcp_server_config);
+      }
+    }
+    return serverConfigs;
+  }
+
+  // Reads and validates both config files without applying them
+  async loadConfig(): Promise<RegistryConfig> {
+    return {
+      managers: ManagerRegistry.parsePackageManagers(await this.readConfig('package-managers.json')),
+      mcpServers: ManagerRegistry.parseMCPServers(await this.readConfig('mcp-servers.json'))
+    };
+  }
+
+  getConfig(): RegistryConfig {
+    return { managers: new Map(this.managers), mcpServers: new Map(this.mcpServers) };
+  }
+
+  // Swaps in a loaded config and reports what differs. Servers whose config
+  // is unchanged keep their connection status and discovered tools.
+  applyConfig(config: RegistryConfig): RegistryChanges {
+    const changes: RegistryChanges = {
+      managers: ManagerRegistry.diff(this.managers, config.managers, info => ({
+        ...info,
+        package_name_patterns: info.package_name_patterns.map(pattern => pattern.source),
+        mcp_server_available: undefined,
+        mcp_server_config: undefined,
+        supervision: undefined
+      })),
+      servers: ManagerRegistry.diff(this.mcpServers, config.mcpServers, server => ({
+        ...server,
+        connection_status: undefined,
+        discovered_tools: undefined
+      }))
+    };
+
+    for (const [manager, server] of config.mcpServers.entries()) {
+      const previous = this.mcpServers.get(manager);
+      if (previous && previous !== server && !changes.servers.changed.includes(manager)) {
+        server.connection_status = previous.connection_status;
+        server.discovered_tools = previous.discovered_tools;
+      }
+    }
+
+    this.managers = config.managers;
+    this.mcpServers = config.mcpServers;
+    for (const info of this.managers.values()) {
+      info.mcp_server_available = false;
+      info.mcp_server_config = undefined;
+    }
+    this.updateAvailability();
+    return changes;
+  }
+
+  private static diff<T>(
+    previous: Map<PackageManager, T>,
+    next: Map<PackageManager, T>,
+    comparable: (value: T) => unknown
+  ): ConfigDiff {
+    const fingerprint = (value: T) => JSON.stringify(comparable(value));
+    return {
+      added: Array.from(next.keys()).filter(manager => !previous.has(manager)),
+      removed: Array.from(previous.keys()).filter(manager => !next.has(manager)),
+      changed: Array.from(next.keys()).filter(manager =>
+        previous.has(manager) && fingerprint(previous.get(manager)!) !== fingerprint(next.get(manager)!)
+      )
+    };
+  }
+
+  // Invalid config files throw and leave the registry as it was
+  async refresh(): Promise<RegistryChanges> {
+    return this.applyConfig(await this.loadConfig());
   }
 }
\ No newline at end of file
@@ -0,0 +1,253 @@
+import { PackageManager, ParsedManifest, ProjectFile } from '../types/index.js';
+import { TomlParser, TomlTable, TomlValue } from '../utils/toml-parser.js';
+import { logger } from '../utils/logger.js';
+
+export class ManifestParser {
+  static parse(manifest: ProjectFile | undefined): ParsedManifest | null {
+    if (!manifest || typeof manifest.filename !== 'string' || typeof manifest.content !== 'string') {
+      return null;
+    }
+
+    const filename = this.extractFileName(manifest.filename);
+    const manager = this.detectManager(filename);
+    if (!manager) {
+      return null;
+    }
+
+    try {
+      const dependencies = this.parseDependencies(filename, manifest.content);
+      return dependencies ? { manager, filename, dependencies } : null;
+    } catch (error) {
+      logger.debug('Failed to parse manifest', { filename, error: String(error) });
+      return null;
+    }
+  }
+
+  static detectManager(filename: string): PackageManager | null {
+    const lowerName = filename.toLowerCase();
+
+    if (lowerName === 'package.json') return PackageManager.NPM;
+    if (lowerName === 'composer.json') return PackageManager.COMPOSER;
+    if (lowerName === 'pyproject.toml') return PackageManager.PIP;
+    if (/^requirements.*\.txt$/.test(lowerName)) return PackageManager.PIP;
+    if (lowerName === 'cargo.toml') return PackageManager.CARGO;
+    if (lowerName === 'pom.xml') return PackageManager.MAVEN;
+
+    return null;
+  }
+
+  static findDependency(
+    manifest: ParsedManifest,
+    packageName: string
+  ): { name: string; spec: string } | null {
+    const target = this.normalizeName(manifest.manager, packageName);
+
+    for (const [name, spec] of Object.entries(manifest.dependencies)) {
+      if (this.normalizeName(manifest.manager, name) === target) {
+        return { name, spec };
+      }
+
+      // Maven artifacts may be referenced without their group
+      if (manifest.manager === PackageManager.MAVEN && !packageName.includes(':')) {
+        const artifactId = name.split(':')[1];
+        if (artifactId === packageName) {
+          return { name, spec };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  static normalizeName(manager: PackageManager, name: string): string {
+    switch (manager) {
+      case PackageManager.PIP:
+        // PEP 503 normalization
+        return name.toLowerCase().replace(/[-_.]+/g, '-');
+      case PackageManager.CARGO:
+        return name.toLowerCase().replace(/_/g, '-');
+      case PackageManager.COMPOSER:
+      case PackageManager.SWIFT:
+        return name.toLowerCase();
+      default:
+        return name;
+    }
+  }
+
+  private static parseDependencies(filename: string, content: string): Record<string, string> | null {
+    const lowerName = filename.toLowerCase();
+
+    switch (lowerName) {
+      case 'package.json':
+        return this.parsePackageJson(content);
+      case 'composer.json':
+        return this.parseComposerJson(content);
+      case 'pyproject.toml':
+        return this.parsePyprojectToml(content);
+      case 'cargo.toml':
+        return this.parseCargoToml(content);
+      case 'pom.xml':
+        return this.parsePomXml(content);
+      default:
+        return this.parseRequirementsTxt(content);
+    }
+  }
+
+  private static parsePackageJson(content: string): Record<string, string> {
+    const data = JSON.parse(content);
+    return this.mergeSections(data, [
+      'dependencies',
+      'devDependencies',
+      'peerDependencies',
+      'optionalDependencies'
+    ]);
+  }
+
+  private static parseComposerJson(content: string): Record<string, string> {
+    const data = JSON.parse(content);
+    return this.mergeSections(data, ['require', 'require-dev']);
+  }
+
+  private static parsePyprojectToml(content: string): Record<string, string> {
+    const data = TomlParser.parse(content);
+    const dependencies: Record<string, string> = {};
+
+    // PEP 621 project metadata
+    const project = this.asTable(data.project);
+    this.addRequirements(dependencies, project?.dependencies);
+    for (const group of Object.values(this.asTable(project?.['optional-dependencies']) || {})) {
+      this.addRequirements(dependencies, group);
+    }
+
+    // PEP 735 dependency groups
+    for (const group of Object.values(this.asTable(data['dependency-groups']) || {})) {
+      this.addRequirements(dependencies, group);
+    }
+
+    // Poetry
+    const poetry = this.asTable(this.asTable(data.tool)?.poetry);
+    const poetryTables = [poetry?.dependencies, poetry?.['dev-dependencies']];
+    for (const group of Object.values(this.asTable(poetry?.group) || {})) {
+      poetryTables.push(this.asTable(group)?.dependencies);
+    }
+
+    for (const table of poetryTables) {
+      for (const [name, value] of Object.entries(this.asTable(table) || {})) {
+        if (name.toLowerCase() === 'python') continue;
+        dependencies[name] = this.describeTomlSpec(value);
+      }
+    }
+
+    return dependencies;
+  }
+
+  private static parseRequirementsTxt(content: string): Record<string, string> {
+    const dependencies: Record<string, string> = {};
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/\s+#.*$/, '').trim();
+      if (!line || line.startsWith('#') || line.startsWith('-')) {
+        continue;
+      }
+
+      this.addRequirements(dependencies, [line]);
+    }
+
+    return dependencies;
+  }
+
+  private static parseCargoToml(content: string): Record<string, string> {
+    const data = TomlParser.parse(content);
+    const dependencies: Record<string, string> = {};
+    const sections = ['dependencies', 'dev-dependencies', 'build-dependencies'];
+
+    const tables: Array<TomlValue | undefined> = sections.map(section => data[section]);
+    tables.push(this.asTable(data.workspace)?.dependencies);
+
+    // Platform-specific dependencies, e.g. [target.'cfg(unix)'.dependencies]
+    for (const target of Object.values(this.asTable(data.target) || {})) {
+      const targetTable = this.asTable(target);
+      tables.push(...sections.map(section => targetTable?.[section]));
+    }
+
+    for (const table of tables) {
+      for (const [name, value] of Object.entries(this.asTable(table) || {})) {
+        // Renamed dependencies point at the real crate through "package"
+        const actualName = this.asTable(value)?.package;
+        dependencies[typeof actualName === 'string' ? actualName : name] = this.describeTomlSpec(value);
+      }
+    }
+
+    return dependencies;
+  }
+
+  private static parsePomXml(content: string): Record<string, string> {
+    const dependencies: Record<string, string> = {};
+    const withoutComments = content.replace(/<!--[\s\S]*?-->/g, '');
+    const dependencyBlocks = withoutComments.match(/<dependency>[\s\S]*?<\/dependency>/g) || [];
+
+    for (const block of dependencyBlocks) {
+      const groupId = this.extractXmlTag(block, 'groupId');
+      const artifactId = this.extractXmlTag(block, 'artifactId');
+      if (!groupId || !artifactId) continue;
+
+      dependencies[`${groupId}:${artifactId}`] = this.extractXmlTag(block, 'version') || '*';
+    }
+
+    return dependencies;
+  }
+
+  private static mergeSections(data: any, sections: string[]): Record<string, string> {
+    const dependencies: Record<string, string> = {};
+
+    for (const section of sections) {
+      const entries = data?.[section];
+      if (!entries || typeof entries !== 'object') continue;
+
+      for (const [name, spec] of Object.entries(entries)) {
+        dependencies[name] = typeof spec === 'string' ? spec : '*';
+      }
+    }
+
+    return dependencies;
+  }
+
+  // Adds PEP 508 requirement strings such as "requests[socks]>=2.31; python_version>'3.8'"
+  private static addRequirements(dependencies: Record<string, string>, requirements: TomlValue | undefined): void {
+    if (!Array.isArray(requirements)) return;
+
+    for (const requirement of requirements) {
+      if (typeof requirement !== 'string') continue;
+
+      const match = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)\s*(\[[^\]]*\])?\s*([^;]*)/.exec(requirement);
+      if (match) {
+        dependencies[match[1]] = match[3].trim() || '*';
+      }
+    }
+  }
+
+  private static describeTomlSpec(value: TomlValue): string {
+    if (typeof value === 'string') return value;
+
+    const table = this.asTable(value);
+    if (table && typeof table.version === 'string') return table.version;
+    if (table && typeof table.git === 'string') return `git:${table.git}`;
+    if (table && typeof table.path === 'string') return `path:${table.path}`;
+
+    return '*';
+  }
+
+  private static asTable(value: TomlValue | undefined): TomlTable | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+  }
+
+  private static extractXmlTag(block: string, tag: string): string | null {
+    const match = new RegExp(`<${tag}>\\s*([^<]+?)\\s*</${tag}>`).exec(block);
+    return match ? match[1] : null;
+  }
+
+  private static extractFileName(filePath: string): string {
+    const parts = filePath.split(/[/\\]/);
+    return parts[parts.length - 1];
+  }
+}
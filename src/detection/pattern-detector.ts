@@ -1,12 +1,16 @@
 import { PackageManager, DetectedManager, DetectionReason } from '../types/index.js';
 import { PACKAGE_NAME_PATTERNS } from '../config/patterns.js';
+import { ManagerRegistry } from './manager-registry.js';
 
 export class PatternDetector {
+  // Patterns come from the registry once it has loaded package-managers.json,
+  // so reloaded patterns apply to the next detection
+  constructor(private managerRegistry?: ManagerRegistry) {}
+
   detectByPackageName(packageName: string): DetectedManager[] {
     const detectedManagers: DetectedManager[] = [];
 
-    for (const [managerKey, patterns] of Object.entries(PACKAGE_NAME_PATTERNS)) {
-      const manager = managerKey as PackageManager;
+    for (const [manager, patterns] of this.getPackageNamePatterns()) {
       const matchedPatterns = patterns.filter(pattern => pattern.test(packageName));
       
       if (matchedPatterns.length > 0) {
@@ -89,7 +93,15 @@ export class PatternDetector {
   }
 
   getManagerSpecificPatterns(manager: PackageManager): RegExp[] {
-    return PACKAGE_NAME_PATTERNS[manager] || [];
+    return this.getPackageNamePatterns().find(([candidate]) => candidate === manager)?.[1] || [];
+  }
+
+  private getPackageNamePatterns(): Array<[PackageManager, RegExp[]]> {
+    if (this.managerRegistry && this.managerRegistry.getManagerCount() > 0) {
+      return this.managerRegistry.getAllManagers().map(info => [info.manager, info.package_name_patterns]);
+    }
+
+    return Object.entries(PACKAGE_NAME_PATTERNS).map(([manager, patterns]) => [manager as PackageManager, patterns]);
   }
 
   testPackageNameAgainstManager(packageName: string, manager: PackageManager): boolean {
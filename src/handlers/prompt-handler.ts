@@ -0,0 +1,229 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+import { PackageUrl } from '../utils/purl.js';
+import { Validators } from '../utils/validators.js';
+import { PackageManager } from '../types/index.js';
+import { PromptProvider } from './prompt-provider.js';
+
+import { SmartPackageReadmeTool } from '../tools/smart-package-readme.js';
+import { SmartPackageInfoTool } from '../tools/smart-package-info.js';
+
+// Long READMEs are cut so a prompt stays within a reasonable context size
+const MAX_EMBEDDED_README_LENGTH = 20000;
+const MAX_COMPARED_PACKAGES = 5;
+
+interface PackageTarget {
+  label: string;
+  package_name?: string;
+  purl?: string;
+  manager?: PackageManager;
+}
+
+export class PromptHandler {
+  constructor(
+    private smartPackageReadmeTool: SmartPackageReadmeTool,
+    private smartPackageInfoTool: SmartPackageInfoTool
+  ) {}
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<any> {
+    const prompt = PromptProvider.getPrompts().find(candidate => candidate.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments
+      .filter(argument => argument.required && !args[argument.name]?.trim())
+      .map(argument => argument.name);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for ${name}: ${missing.join(', ')}`);
+    }
+
+    logger.debug('Building prompt', { prompt: name, args });
+
+    switch (name) {
+      case 'compare_packages':
+        return await this.buildComparePackages(args);
+      case 'migration_guide':
+        return await this.buildMigrationGuide(args);
+      default:
+        return await this.buildEvaluateDependency(args);
+    }
+  }
+
+  private async buildComparePackages(args: Record<string, string>): Promise<any> {
+    const targets = args.packages
+      .split(',')
+      .map(spec => spec.trim())
+      .filter(Boolean)
+      .slice(0, MAX_COMPARED_PACKAGES)
+      .map(spec => this.parseTarget(spec, 'packages'));
+
+    const documents = await Promise.all(targets.map(async target => [
+      await this.fetchInfo(target),
+      await this.fetchReadme(target)
+    ]));
+
+    const criteria = args.criteria ? `\n\nFocus on: ${args.criteria}.` : '';
+    return {
+      description: `Compare ${targets.map(target => target.label).join(', ')}`,
+      messages: [
+        this.textMessage(
+          `Compare the following packages: ${targets.map(target => target.label).join(', ')}.` +
+          ' Their package information and READMEs are attached below.' +
+          ' Summarize what each one is for, how their APIs and features differ, their maintenance and licensing,' +
+          ' and recommend which to choose for which situation.' + criteria
+        ),
+        ...documents.flat()
+      ]
+    };
+  }
+
+  private async buildMigrationGuide(args: Record<string, string>): Promise<any> {
+    const target = this.parseTarget(args.package_name, 'package_name');
+    this.requireValid('from_version', Validators.validateVersion(args.from_version).errors);
+    this.requireValid('to_version', Validators.validateVersion(args.to_version).errors);
+    const [fromReadme, toReadme] = await Promise.all([
+      this.fetchReadme(target, args.from_version),
+      this.fetchReadme(target, args.to_version)
+    ]);
+
+    return {
+      description: `Migrate ${target.label} from ${args.from_version} to ${args.to_version}`,
+      messages: [
+        this.textMessage(
+          `I am upgrading ${target.label} from version ${args.from_version} to version ${args.to_version}.` +
+          ' The READMEs of both versions are attached below.' +
+          ' Summarize the breaking changes, renamed or removed APIs, new requirements and new features,' +
+          ' and give a step-by-step migration checklist with code changes where the READMEs show them.'
+        ),
+        fromReadme,
+        toReadme
+      ]
+    };
+  }
+
+  private async buildEvaluateDependency(args: Record<string, string>): Promise<any> {
+    const target = this.parseTarget(args.package_name, 'package_name');
+    const [info, readme] = await Promise.all([
+      this.fetchInfo(target),
+      this.fetchReadme(target)
+    ]);
+
+    const useCase = args.use_case ? ` I want to use it for: ${args.use_case}.` : '';
+    return {
+      description: `Evaluate ${target.label} for adoption`,
+      messages: [
+        this.textMessage(
+          `Evaluate whether ${target.label} is a good dependency to adopt.${useCase}` +
+          ' Its package information and README are attached below.' +
+          ' Assess its purpose and fit, API quality, maintenance activity, license, dependency footprint and risks,' +
+          ' and finish with a clear recommendation.'
+        ),
+        info,
+        readme
+      ]
+    };
+  }
+
+  // Accepts "name", "manager:name" or a purl, checked like tool arguments
+  private parseTarget(spec: string, argument: string): PackageTarget {
+    const trimmed = spec.trim();
+    if (trimmed.startsWith('pkg:')) {
+      this.requireValid(argument, Validators.validatePurl(trimmed).errors);
+      return { label: trimmed, purl: trimmed };
+    }
+
+    const separator = trimmed.indexOf(':');
+    if (separator > 0) {
+      const prefix = trimmed.slice(0, separator).toLowerCase();
+      const manager = (Object.values(PackageManager) as string[]).includes(prefix)
+        ? prefix as PackageManager
+        : PackageUrl.toManager(prefix);
+      if (manager) {
+        const packageName = trimmed.slice(separator + 1);
+        // Checked as the purl it is fetched through, which splits Maven coordinates
+        this.requireValid(argument, Validators.validatePurl(PackageUrl.fromPackage(manager, packageName) ?? '').errors);
+        return { label: `${packageName} (${manager})`, package_name: packageName, manager };
+      }
+    }
+
+    this.requireValid(argument, Validators.validatePackageName(trimmed).errors);
+    return { label: trimmed, package_name: trimmed };
+  }
+
+  private requireValid(argument: string, errors: string[]): void {
+    if (errors.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid ${argument}: ${errors.join(', ')}`);
+    }
+  }
+
+  private toolTarget(target: PackageTarget, version?: string): { package_name?: string; purl?: string } {
+    if (target.manager && target.package_name) {
+      return { purl: PackageUrl.fromPackage(target.manager, target.package_name, version) || undefined };
+    }
+    return target.purl ? { purl: target.purl } : { package_name: target.package_name };
+  }
+
+  private async fetchReadme(target: PackageTarget, version?: string): Promise<any> {
+    const result = await this.smartPackageReadmeTool.execute({
+      ...this.toolTarget(target, version),
+      version,
+      include_examples: true
+    });
+
+    const readme = result.data?.readme_data;
+    const label = version ? `${target.label} ${version}` : target.label;
+    if (!result.success || typeof readme?.readme_content !== 'string') {
+      return this.textMessage(`README for ${label} could not be fetched: ${result.errors?.[0]?.message || 'no content available'}`);
+    }
+
+    let content = readme.readme_content;
+    if (content.length > MAX_EMBEDDED_README_LENGTH) {
+      content = `${content.slice(0, MAX_EMBEDDED_README_LENGTH)}\n\n[README truncated]`;
+    }
+
+    const uriVersion = readme.version || version ? `@${readme.version || version}` : '';
+    return {
+      role: 'user',
+      content: {
+        type: 'resource',
+        resource: {
+          uri: `package://${result.data!.package_manager}/${readme.package_name || target.package_name}${uriVersion}/README.md`,
+          mimeType: 'text/markdown',
+          text: content
+        }
+      }
+    };
+  }
+
+  private async fetchInfo(target: PackageTarget): Promise<any> {
+    const result = await this.smartPackageInfoTool.execute({
+      ...this.toolTarget(target),
+      include_dependencies: true
+    });
+
+    const info = result.data?.package_data;
+    if (!result.success || !info) {
+      return this.textMessage(`Package information for ${target.label} could not be fetched: ${result.errors?.[0]?.message || 'no data available'}`);
+    }
+
+    return {
+      role: 'user',
+      content: {
+        type: 'resource',
+        resource: {
+          uri: `package://${result.data!.package_manager}/${info.package_name || target.package_name}/info`,
+          mimeType: 'application/json',
+          text: JSON.stringify(info, null, 2)
+        }
+      }
+    };
+  }
+
+  private textMessage(text: string): any {
+    return {
+      role: 'user',
+      content: { type: 'text', text }
+    };
+  }
+}
@@ -0,0 +1,59 @@
+export class PromptProvider {
+  static getPrompts() {
+    return [
+      {
+        name: 'compare_packages',
+        description: 'Compare several packages side by side using their fetched package information and READMEs',
+        arguments: [
+          {
+            name: 'packages',
+            description: 'Comma-separated packages, e.g. "axios, got" or "npm:axios, pkg:pypi/httpx"',
+            required: true
+          },
+          {
+            name: 'criteria',
+            description: 'Optional aspects to focus on, e.g. "bundle size, TypeScript support"',
+            required: false
+          }
+        ]
+      },
+      {
+        name: 'migration_guide',
+        description: 'Summarize what changes when upgrading a package from one version to another, based on the READMEs of both versions',
+        arguments: [
+          {
+            name: 'package_name',
+            description: 'Package to migrate, optionally prefixed with its manager, e.g. "npm:express"',
+            required: true
+          },
+          {
+            name: 'from_version',
+            description: 'Version currently in use',
+            required: true
+          },
+          {
+            name: 'to_version',
+            description: 'Version to migrate to',
+            required: true
+          }
+        ]
+      },
+      {
+        name: 'evaluate_dependency',
+        description: 'Evaluate whether a package is a good dependency to adopt, based on its package information and README',
+        arguments: [
+          {
+            name: 'package_name',
+            description: 'Package to evaluate, optionally prefixed with its manager, e.g. "pip:requests"',
+            required: true
+          },
+          {
+            name: 'use_case',
+            description: 'Optional description of what the package would be used for',
+            required: false
+          }
+        ]
+      }
+    ];
+  }
+}
@@ -0,0 +1,163 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+import { PackageUrl } from '../utils/purl.js';
+import { Validators } from '../utils/validators.js';
+import { PackageManager, PackageResourceUri } from '../types/index.js';
+
+import { SmartPackageReadmeTool } from '../tools/smart-package-readme.js';
+import { SmartPackageInfoTool } from '../tools/smart-package-info.js';
+
+const URI_SCHEME = 'package://';
+
+// Resources are addressed as package://{manager}/{package}[@{version}]/{README.md|info}.
+// The manager segment accepts a package manager or purl type, or "auto" to
+// detect it from the package name.
+export class ResourceHandler {
+  constructor(
+    private smartPackageReadmeTool: SmartPackageReadmeTool,
+    private smartPackageInfoTool: SmartPackageInfoTool
+  ) {}
+
+  static getResourceTemplates() {
+    return [
+      {
+        uriTemplate: 'package://{manager}/{package}/README.md',
+        name: 'Package README',
+        description: 'Latest README of a package. Use "auto" as manager to detect it from the package name',
+        mimeType: 'text/markdown'
+      },
+      {
+        uriTemplate: 'package://{manager}/{package}@{version}/README.md',
+        name: 'Package README for a version',
+        description: 'README of a specific package version',
+        mimeType: 'text/markdown'
+      },
+      {
+        uriTemplate: 'package://{manager}/{package}/info',
+        name: 'Package information',
+        description: 'Package metadata such as latest version, license, repository and dependencies',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'package://{manager}/{package}@{version}/info',
+        name: 'Package information for a version',
+        description: 'Package metadata for a specific version',
+        mimeType: 'application/json'
+      }
+    ];
+  }
+
+  static parseUri(uri: string): PackageResourceUri {
+    if (typeof uri !== 'string' || !uri.startsWith(URI_SCHEME)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+    }
+
+    const segments = uri.slice(URI_SCHEME.length).split('/');
+    const document = segments.pop();
+    const kind = document === 'README.md' ? 'readme' : document === 'info' ? 'info' : null;
+    if (!kind || segments.length < 2) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid package resource URI: ${uri}`);
+    }
+
+    const managerSegment = decodeURIComponent(segments[0]).toLowerCase();
+    let manager: PackageManager | undefined;
+    if (managerSegment !== 'auto') {
+      const resolved = (Object.values(PackageManager) as string[]).includes(managerSegment)
+        ? managerSegment as PackageManager
+        : PackageUrl.toManager(managerSegment);
+      if (!resolved) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown package manager in resource URI: ${segments[0]}`);
+      }
+      manager = resolved;
+    }
+
+    // Scoped names such as @types/node keep their leading "@"
+    let packageName = segments.slice(1).map(decodeURIComponent).join('/');
+    let version: string | undefined;
+    const atIndex = packageName.lastIndexOf('@');
+    if (atIndex > 0) {
+      version = packageName.slice(atIndex + 1) || undefined;
+      packageName = packageName.slice(0, atIndex);
+    }
+
+    if (!packageName) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing package name in resource URI: ${uri}`);
+    }
+
+    const resource: PackageResourceUri = { manager, package_name: packageName, version, kind };
+    const errors = ResourceHandler.validateResource(resource);
+    if (errors.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid package resource URI ${uri}: ${errors.join(', ')}`);
+    }
+
+    return resource;
+  }
+
+  // Decoded segments reach downstream servers, so they get the same checks
+  // as tool arguments. With a manager the package is checked as the purl it
+  // is read through, which also splits Maven coordinates
+  private static validateResource(resource: PackageResourceUri): string[] {
+    if (resource.manager) {
+      const purl = PackageUrl.fromPackage(resource.manager, resource.package_name, resource.version);
+      return Validators.validatePurl(purl ?? '').errors;
+    }
+
+    return [
+      ...Validators.validatePackageName(resource.package_name).errors,
+      ...Validators.validateVersion(resource.version).errors
+    ];
+  }
+
+  async readResource(uri: string): Promise<any> {
+    const resource = ResourceHandler.parseUri(uri);
+    logger.debug('Reading package resource', { uri, resource });
+
+    // An explicit manager is passed on as a purl so detection is skipped
+    const target = resource.manager
+      ? { purl: PackageUrl.fromPackage(resource.manager, resource.package_name, resource.version) || undefined }
+      : { package_name: resource.package_name };
+
+    if (resource.kind === 'readme') {
+      const result = await this.smartPackageReadmeTool.execute({
+        ...target,
+        version: resource.version,
+        include_examples: true
+      });
+
+      const readme = result.data?.readme_data;
+      if (!result.success || typeof readme?.readme_content !== 'string') {
+        throw this.createReadError(uri, result.errors);
+      }
+
+      return {
+        contents: [{
+          uri,
+          mimeType: 'text/markdown',
+          text: readme.readme_content
+        }]
+      };
+    }
+
+    const result = await this.smartPackageInfoTool.execute({
+      ...target,
+      include_dependencies: true
+    });
+
+    if (!result.success || !result.data) {
+      throw this.createReadError(uri, result.errors);
+    }
+
+    return {
+      contents: [{
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(result.data.package_data, null, 2)
+      }]
+    };
+  }
+
+  private createReadError(uri: string, errors?: { message: string }[]): McpError {
+    const reason = errors && errors.length > 0 ? errors[0].message : 'No content available';
+    return new McpError(ErrorCode.InternalError, `Failed to read resource ${uri}: ${reason}`);
+  }
+}
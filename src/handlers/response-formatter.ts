@@ -0,0 +1,254 @@
+import { ResponseFormat } from '../types/index.js';
+
+export interface FormattedToolResult {
+  content: Array<{ type: 'text'; text: string }>;
+  structuredContent: Record<string, any>;
+  isError?: boolean;
+}
+
+// Turns an orchestration result into an MCP tool result. The full result is
+// always returned as structuredContent; the format only controls the text
+// content, where READMEs are rendered as their own markdown. Failed
+// orchestrations are flagged with isError so clients can tell them apart.
+export class ResponseFormatter {
+  static format(toolName: string, result: any, format: ResponseFormat): FormattedToolResult {
+    // Round-trip through JSON so structuredContent matches what clients receive
+    const structuredContent = JSON.parse(JSON.stringify(result ?? {}));
+    const content: Array<{ type: 'text'; text: string }> = [];
+
+    if (format === 'json' || format === 'both') {
+      content.push({ type: 'text', text: JSON.stringify(structuredContent) });
+    }
+
+    if (format === 'markdown' || format === 'both') {
+      content.push({ type: 'text', text: this.toMarkdown(toolName, structuredContent) });
+    }
+
+    return structuredContent.success === false
+      ? { content, structuredContent, isError: true }
+      : { content, structuredContent };
+  }
+
+  static toMarkdown(toolName: string, result: any): string {
+    const sections: string[] = [];
+
+    if (result.data) {
+      switch (toolName) {
+        case 'smart_package_readme':
+          sections.push(this.renderReadme(result.data));
+          break;
+        case 'smart_package_info':
+          sections.push(this.renderPackageInfo(result.data.package_data));
+          break;
+        case 'smart_package_search':
+          sections.push(this.renderSearch(result.data));
+          break;
+        case 'smart_package_info_batch':
+          sections.push(this.renderBatch(result.data));
+          break;
+        case 'resolve_dependency_tree':
+          sections.push(this.renderDependencyTree(result.data));
+          break;
+        case 'find_equivalent_packages':
+          sections.push(this.renderEquivalents(result.data));
+          break;
+        case 'list_supported_managers':
+          sections.push(this.renderManagers(result.data));
+          break;
+        default:
+          sections.push(this.renderJson(result.data));
+      }
+    }
+
+    if (Array.isArray(result.errors) && result.errors.length > 0) {
+      sections.push(result.errors
+        .map((error: any) => `> **${error.error_type || 'ERROR'}**${error.manager ? ` (${error.manager})` : ''}: ${error.message}`)
+        .join('\n'));
+    }
+
+    return sections.join('\n\n') || (result.success ? 'No content.' : 'Request failed.');
+  }
+
+  private static renderReadme(data: any): string {
+    const readme = data.readme_data || {};
+    const omitted = Array.isArray(readme.omitted_sections) ? readme.omitted_sections : [];
+    const sections: string[] = [];
+
+    if (typeof readme.readme_content === 'string' && readme.readme_content.trim()) {
+      sections.push(readme.readme_content);
+    } else if (omitted.length === 0) {
+      return this.renderPackageInfo(readme);
+    }
+
+    if (omitted.length > 0) {
+      sections.push([
+        '---',
+        '',
+        '**Omitted sections:**',
+        '',
+        ...omitted.map((entry: any) => `${'  '.repeat(Math.max(0, entry.level - 1))}- ${entry.title}`)
+      ].join('\n'));
+    }
+
+    return sections.join('\n\n');
+  }
+
+  private static renderPackageInfo(info: any): string {
+    if (!info) return '';
+
+    const version = info.latest_version || info.version;
+    const lines = [`# ${info.package_name}${version ? ` ${version}` : ''}`];
+    if (info.description) {
+      lines.push('', info.description);
+    }
+
+    const facts: Array<[string, any]> = [
+      ['Package manager', info.package_manager],
+      ['License', info.license],
+      ['Author', info.author],
+      ['Homepage', info.homepage],
+      ['Repository', info.repository],
+      ['Downloads', info.downloads],
+      ['Keywords', Array.isArray(info.keywords) ? info.keywords.join(', ') : undefined],
+      ['purl', info.purl]
+    ];
+    const present = facts.filter(([, value]) => value !== undefined && value !== '');
+    if (present.length > 0) {
+      lines.push('', ...present.map(([label, value]) => `- **${label}:** ${value}`));
+    }
+
+    for (const [title, dependencies] of [['Dependencies', info.dependencies], ['Development dependencies', info.dev_dependencies]]) {
+      const entries = Object.entries(dependencies || {});
+      if (entries.length > 0) {
+        lines.push('', `## ${title}`, '', ...entries.map(([name, range]) => `- ${name} ${range}`));
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private static renderSearch(data: any): string {
+    const lines = ['# Search results'];
+
+    for (const result of data.results || []) {
+      lines.push('', `## ${result.manager}`);
+      if (!result.success) {
+        lines.push('', `Failed: ${result.error || 'Unknown error'}`);
+        continue;
+      }
+
+      const packages = Array.isArray(result.data?.packages) ? result.data.packages : [];
+      if (packages.length === 0) {
+        lines.push('', this.renderJson(result.data));
+        continue;
+      }
+
+      lines.push('', ...packages.map((pkg: any) => {
+        const version = pkg.version || pkg.latest_version;
+        const description = pkg.description ? ` - ${pkg.description}` : '';
+        return `- **${pkg.name || pkg.package_name}**${version ? ` ${version}` : ''}${description}`;
+      }));
+    }
+
+    if (Array.isArray(data.fallback_suggestions) && data.fallback_suggestions.length > 0) {
+      lines.push('', '## Suggestions', '', ...data.fallback_suggestions.map((suggestion: string) => `- ${suggestion}`));
+    }
+
+    return lines.join('\n');
+  }
+
+  private static renderBatch(data: any): string {
+    const lines = [
+      '# Package information',
+      '',
+      `${data.summary?.succeeded ?? 0} of ${data.summary?.total ?? 0} packages found.`,
+      '',
+      '| Package | Manager | Version | Description |',
+      '|---------|---------|---------|-------------|'
+    ];
+
+    for (const item of data.results || []) {
+      const info = item.data || {};
+      const detail = item.success
+        ? info.description || ''
+        : `Failed: ${item.errors?.[0]?.message || 'Unknown error'}`;
+      lines.push(`| ${item.package_name} | ${item.manager || '-'} | ${info.latest_version || '-'} | ${this.escapeCell(detail)} |`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private static renderDependencyTree(data: any): string {
+    const lines = [`# Dependency tree (${data.package_manager})`, ''];
+
+    const walk = (node: any, indent: string) => {
+      const flags = ['duplicate', 'cycle', 'truncated'].filter(flag => node[flag]);
+      const suffix = flags.length > 0 ? ` _(${flags.join(', ')})_` : '';
+      const error = node.error ? ` - ${node.error}` : '';
+      lines.push(`${indent}- ${node.name}${node.version ? `@${node.version}` : ''}${suffix}${error}`);
+      for (const child of node.dependencies || []) {
+        walk(child, `${indent}  `);
+      }
+    };
+    if (data.root) {
+      walk(data.root, '');
+    }
+
+    lines.push('', `${data.total_packages ?? 0} packages, resolved to depth ${data.max_depth}${data.truncated ? ' (truncated)' : ''}.`);
+    if (Array.isArray(data.cycles) && data.cycles.length > 0) {
+      lines.push('', '## Cycles', '', ...data.cycles.map((cycle: string[]) => `- ${cycle.join(' → ')}`));
+    }
+
+    return lines.join('\n');
+  }
+
+  private static renderEquivalents(data: any): string {
+    const source = data.source || {};
+    const lines = [`# Equivalents of ${source.package_name} (${source.manager})`];
+
+    if (!Array.isArray(data.equivalents) || data.equivalents.length === 0) {
+      lines.push('', 'No equivalent packages found.');
+      return lines.join('\n');
+    }
+
+    for (const match of data.equivalents) {
+      lines.push('', `## ${match.package_name} (${match.manager}) - score ${match.score}`);
+      if (match.description) {
+        lines.push('', match.description);
+      }
+      const evidence = Array.isArray(match.evidence) ? match.evidence : [];
+      if (evidence.length > 0) {
+        lines.push('', ...evidence.map((item: any) => `- ${item.description}`));
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private static renderManagers(data: any): string {
+    const lines = [
+      '# Supported package managers',
+      '',
+      '| Manager | Name | Server | Circuit | Restarts | Last failure |',
+      '|---------|------|--------|---------|----------|--------------|'
+    ];
+
+    for (const manager of data.managers || []) {
+      const status = manager.mcp_server_config?.connection_status || (manager.mcp_server_available ? 'connected' : 'disconnected');
+      const supervision = manager.supervision || {};
+      const lastFailure = supervision.last_failure_reason ? this.escapeCell(supervision.last_failure_reason) : '-';
+      const circuit = manager.circuit_breaker?.state || 'closed';
+      lines.push(`| ${manager.manager} | ${manager.name} | ${status} | ${circuit} | ${supervision.restart_count ?? 0} | ${lastFailure} |`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private static renderJson(value: any): string {
+    return '```json\n' + JSON.stringify(value, null, 2) + '\n```';
+  }
+
+  private static escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  }
+}
@@ -1,3 +1,124 @@
+const RESPONSE_FORMAT_PROPERTY = {
+  type: 'string',
+  enum: ['json', 'markdown', 'both'],
+  description: 'Format of the text content: "markdown" (default) renders READMEs as raw markdown, "json" returns the serialized result, "both" returns both. The full result is always available as structuredContent'
+};
+
+const FRESH_PROPERTY = {
+  type: 'boolean',
+  description: 'When true, skips cached detection results and downstream responses (default: false). The fresh results are cached'
+};
+
+const MANIFEST_PROPERTY = {
+  type: 'object',
+  description: 'Optional project manifest (package.json, composer.json, pyproject.toml, requirements.txt, Cargo.toml or pom.xml) used to confirm which ecosystem declares the package',
+  properties: {
+    filename: {
+      type: 'string',
+      description: 'Manifest file name, e.g. "pyproject.toml"'
+    },
+    content: {
+      type: 'string',
+      description: 'Raw manifest file contents'
+    }
+  },
+  required: ['filename', 'content']
+};
+
+const CACHE_STATUS_SCHEMA = { type: 'string', enum: ['hit', 'stale', 'miss', 'bypass'] };
+
+const PACKAGE_DATA_SCHEMA = {
+  type: 'object',
+  properties: {
+    package_manager: { type: 'string' },
+    package_name: { type: 'string' },
+    // Some registries send null for missing optional values instead of omitting them
+    version: { type: ['string', 'null'] },
+    latest_version: { type: ['string', 'null'] },
+    purl: { type: 'string' },
+    readme_content: { type: ['string', 'null'] },
+    matched_sections: { type: 'array', items: { type: 'string' } },
+    omitted_sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          level: { type: 'number' }
+        }
+      }
+    },
+    usage_examples: { type: 'array', items: { type: 'object' } },
+    description: { type: ['string', 'null'] },
+    homepage: { type: ['string', 'null'] },
+    // Registries disagree on the shape of these fields, so they are left open.
+    // Dependencies, for one, come as a name to version map or as a list.
+    repository: {},
+    license: {},
+    author: {},
+    keywords: {},
+    dependencies: {},
+    dev_dependencies: {}
+  }
+};
+
+const DETECTED_MANAGERS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      manager: { type: 'string' },
+      confidence: { type: 'number' },
+      available: { type: 'boolean' }
+    }
+  }
+};
+
+// Every tool returns the same orchestration envelope around its own data
+function orchestrationOutputSchema(dataSchema: Record<string, any>) {
+  return {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      data: dataSchema,
+      errors: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            manager: { type: 'string' },
+            error_type: { type: 'string' },
+            message: { type: 'string' },
+            details: {}
+          },
+          required: ['error_type', 'message']
+        }
+      },
+      metadata: {
+        type: 'object',
+        properties: {
+          execution_time: { type: 'number' },
+          managers_attempted: { type: 'array', items: { type: 'string' } },
+          managers_succeeded: { type: 'array', items: { type: 'string' } },
+          detection_confidence: { type: 'number' },
+          version_source: { type: 'string', enum: ['request', 'lockfile', 'latest'] },
+          cache: {
+            type: 'object',
+            properties: {
+              detection: CACHE_STATUS_SCHEMA,
+              responses: { type: 'object', additionalProperties: CACHE_STATUS_SCHEMA }
+            }
+          },
+          served_from: { type: 'string', enum: ['cache', 'mirror'] },
+          age_ms: { type: 'number' }
+        },
+        required: ['execution_time', 'managers_attempted', 'managers_succeeded', 'detection_confidence']
+      }
+    },
+    required: ['success', 'metadata']
+  };
+}
+
 export class SchemaProvider {
   static getToolSchemas() {
     return [
@@ -9,7 +130,11 @@ export class SchemaProvider {
           properties: {
             package_name: {
               type: 'string',
-              description: 'Name of the package to search for'
+              description: 'Name of the package to search for (required unless purl is given)'
+            },
+            purl: {
+              type: 'string',
+              description: 'Package URL such as "pkg:npm/%40scope/name@1.2.3" or "pkg:pypi/requests". Used in place of package_name; its type selects the package manager directly'
             },
             context_hints: {
               type: 'array',
@@ -21,13 +146,36 @@ export class SchemaProvider {
               items: { type: 'string' },
               description: 'Optional list of preferred package managers to try first'
             },
+            manifest: MANIFEST_PROPERTY,
             limit: {
               type: 'number',
               description: 'Maximum number of results to return (default: 10)'
-            }
-          },
-          required: ['package_name']
-        }
+            },
+            fresh: FRESH_PROPERTY,
+            response_format: RESPONSE_FORMAT_PROPERTY
+          }
+        },
+        outputSchema: orchestrationOutputSchema({
+          type: 'object',
+          properties: {
+            detected_managers: DETECTED_MANAGERS_SCHEMA,
+            results: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  manager: { type: 'string' },
+                  success: { type: 'boolean' },
+                  data: {},
+                  error: { type: 'string' },
+                  response_time: { type: 'number' }
+                }
+              }
+            },
+            confidence_score: { type: 'number' },
+            fallback_suggestions: { type: 'array', items: { type: 'string' } }
+          }
+        })
       },
       {
         name: 'smart_package_readme',
@@ -37,7 +185,11 @@ export class SchemaProvider {
           properties: {
             package_name: {
               type: 'string',
-              description: 'Name of the package to get README for'
+              description: 'Name of the package to get README for (required unless purl is given)'
+            },
+            purl: {
+              type: 'string',
+              description: 'Package URL such as "pkg:npm/%40scope/name@1.2.3" or "pkg:pypi/requests". Used in place of package_name; its type selects the package manager directly'
             },
             version: {
               type: 'string',
@@ -53,13 +205,44 @@ export class SchemaProvider {
               items: { type: 'string' },
               description: 'Optional list of preferred package managers to try first'
             },
+            manifest: MANIFEST_PROPERTY,
+            lockfile: {
+              type: 'object',
+              description: 'Optional project lockfile (package-lock.json, yarn.lock, pnpm-lock.yaml, Cargo.lock, poetry.lock, Gemfile.lock, composer.lock, Podfile.lock or Package.resolved). When no version is given, the README for the locked version is returned',
+              properties: {
+                filename: {
+                  type: 'string',
+                  description: 'Lockfile name, e.g. "package-lock.json"'
+                },
+                content: {
+                  type: 'string',
+                  description: 'Raw lockfile contents'
+                }
+              },
+              required: ['filename', 'content']
+            },
+            sections: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional README sections to return, e.g. ["Installation", "Usage"]. Titles are matched loosely; the headings left out are listed in omitted_sections'
+            },
             include_examples: {
               type: 'boolean',
-              description: 'Whether to include usage examples in the response'
-            }
-          },
-          required: ['package_name']
-        }
+              description: 'When true, fenced code blocks are extracted into usage_examples; when false, they are removed from the README content'
+            },
+            fresh: FRESH_PROPERTY,
+            response_format: RESPONSE_FORMAT_PROPERTY
+          }
+        },
+        outputSchema: orchestrationOutputSchema({
+          type: 'object',
+          properties: {
+            package_manager: { type: 'string' },
+            confidence_score: { type: 'number' },
+            readme_data: PACKAGE_DATA_SCHEMA,
+            alternative_results: { type: 'array', items: { type: 'object' } }
+          }
+        })
       },
       {
         name: 'smart_package_info',
@@ -69,7 +252,11 @@ export class SchemaProvider {
           properties: {
             package_name: {
               type: 'string',
-              description: 'Name of the package to get information for'
+              description: 'Name of the package to get information for (required unless purl is given)'
+            },
+            purl: {
+              type: 'string',
+              description: 'Package URL such as "pkg:npm/%40scope/name@1.2.3" or "pkg:pypi/requests". Used in place of package_name; its type selects the package manager directly'
             },
             context_hints: {
               type: 'array',
@@ -81,22 +268,279 @@ export class SchemaProvider {
               items: { type: 'string' },
               description: 'Optional list of preferred package managers to try first'
             },
+            manifest: MANIFEST_PROPERTY,
             include_dependencies: {
               type: 'boolean',
               description: 'Whether to include dependency information in the response'
-            }
+            },
+            fresh: FRESH_PROPERTY,
+            response_format: RESPONSE_FORMAT_PROPERTY
+          }
+        },
+        outputSchema: orchestrationOutputSchema({
+          type: 'object',
+          properties: {
+            package_manager: { type: 'string' },
+            confidence_score: { type: 'number' },
+            package_data: PACKAGE_DATA_SCHEMA,
+            alternative_results: { type: 'array', items: { type: 'object' } }
+          }
+        })
+      },
+      {
+        name: 'smart_package_info_batch',
+        description: 'Retrieves package information for many packages in one call, grouping them per package manager and returning a result for each item',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            packages: {
+              type: 'array',
+              description: 'Packages to look up; each needs a package_name or purl',
+              items: {
+                type: 'object',
+                properties: {
+                  package_name: {
+                    type: 'string',
+                    description: 'Name of the package'
+                  },
+                  purl: {
+                    type: 'string',
+                    description: 'Package URL used in place of package_name'
+                  },
+                  version: {
+                    type: 'string',
+                    description: 'Optional specific version'
+                  },
+                  manager: {
+                    type: 'string',
+                    description: 'Optional package manager; skips detection for this item'
+                  }
+                }
+              }
+            },
+            context_hints: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional context hints applied to items without a manager or purl'
+            },
+            manifest: {
+              ...MANIFEST_PROPERTY,
+              description: 'Optional project manifest used to detect the ecosystem of items without a manager or purl'
+            },
+            include_dependencies: {
+              type: 'boolean',
+              description: 'Whether to include dependency information in each result'
+            },
+            fresh: FRESH_PROPERTY,
+            response_format: RESPONSE_FORMAT_PROPERTY
           },
-          required: ['package_name']
-        }
+          required: ['packages']
+        },
+        outputSchema: orchestrationOutputSchema({
+          type: 'object',
+          properties: {
+            results: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  index: { type: 'number' },
+                  package_name: { type: 'string' },
+                  manager: { type: 'string' },
+                  success: { type: 'boolean' },
+                  data: PACKAGE_DATA_SCHEMA,
+                  errors: { type: 'array', items: { type: 'object' } },
+                  metadata: { type: 'object' }
+                }
+              }
+            },
+            summary: {
+              type: 'object',
+              properties: {
+                total: { type: 'number' },
+                succeeded: { type: 'number' },
+                failed: { type: 'number' },
+                by_manager: { type: 'object' }
+              }
+            }
+          }
+        })
+      },
+      {
+        name: 'resolve_dependency_tree',
+        description: 'Resolves the transitive dependency tree of a package, returning a nested tree and a flat list with depth and path to the root',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            package_name: {
+              type: 'string',
+              description: 'Name of the root package (required unless purl is given)'
+            },
+            purl: {
+              type: 'string',
+              description: 'Package URL used in place of package_name'
+            },
+            version: {
+              type: 'string',
+              description: 'Optional version of the root package (default: latest)'
+            },
+            manager: {
+              type: 'string',
+              description: 'Optional package manager; skips detection'
+            },
+            context_hints: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional context hints to help with package manager detection'
+            },
+            manifest: {
+              ...MANIFEST_PROPERTY,
+              description: 'Optional project manifest used to confirm which ecosystem declares the package'
+            },
+            max_depth: {
+              type: 'number',
+              description: 'Maximum depth to resolve (default: 3, max: 10)'
+            },
+            include_dev_dependencies: {
+              type: 'boolean',
+              description: 'Whether to include development dependencies of the root package'
+            },
+            response_format: RESPONSE_FORMAT_PROPERTY
+          }
+        },
+        outputSchema: orchestrationOutputSchema({
+          type: 'object',
+          properties: {
+            package_manager: { type: 'string' },
+            root: { type: 'object' },
+            packages: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  version: { type: 'string' },
+                  requested: { type: 'string' },
+                  depth: { type: 'number' },
+                  path: { type: 'array', items: { type: 'string' } }
+                }
+              }
+            },
+            cycles: { type: 'array', items: { type: 'array', items: { type: 'string' } } },
+            total_packages: { type: 'number' },
+            max_depth: { type: 'number' },
+            truncated: { type: 'boolean' }
+          }
+        })
+      },
+      {
+        name: 'find_equivalent_packages',
+        description: 'Finds functionally equivalent packages in other ecosystems using descriptions, keywords and shared repository URLs',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            package_name: {
+              type: 'string',
+              description: 'Name of the source package (required unless purl is given)'
+            },
+            purl: {
+              type: 'string',
+              description: 'Package URL used in place of package_name'
+            },
+            manager: {
+              type: 'string',
+              description: 'Optional package manager of the source package; skips detection'
+            },
+            target_managers: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional package managers to search (default: all other available managers)'
+            },
+            context_hints: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Optional context hints to help detect the source package manager'
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of equivalents to return'
+            },
+            response_format: RESPONSE_FORMAT_PROPERTY
+          }
+        },
+        outputSchema: orchestrationOutputSchema({
+          type: 'object',
+          properties: {
+            source: { type: 'object' },
+            equivalents: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  manager: { type: 'string' },
+                  package_name: { type: 'string' },
+                  score: { type: 'number' },
+                  description: { type: 'string' },
+                  repository: { type: 'string' },
+                  purl: { type: 'string' },
+                  evidence: { type: 'array', items: { type: 'object' } }
+                }
+              }
+            },
+            searched_managers: { type: 'array', items: { type: 'string' } }
+          }
+        })
       },
       {
         name: 'list_supported_managers',
         description: 'Lists all supported package managers and their current connection status',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            response_format: RESPONSE_FORMAT_PROPERTY
+          },
           required: []
-        }
+        },
+        outputSchema: orchestrationOutputSchema({
+          type: 'object',
+          properties: {
+            managers: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  manager: { type: 'string' },
+                  name: { type: 'string' },
+                  mcp_server_available: { type: 'boolean' },
+                  supervision: {
+                    type: 'object',
+                    properties: {
+                      restart_count: { type: 'number' },
+                      consecutive_failures: { type: 'number' },
+                      last_failure_reason: { type: 'string' },
+                      last_failure_at: { type: 'string' },
+                      last_restart_at: { type: 'string' },
+                      next_restart_at: { type: 'string' }
+                    }
+                  },
+                  circuit_breaker: {
+                    type: 'object',
+                    properties: {
+                      state: { type: 'string', enum: ['closed', 'open', 'half_open'] },
+                      calls: { type: 'number' },
+                      failure_rate: { type: 'number' },
+                      slow_call_rate: { type: 'number' },
+                      opened_at: { type: 'string' },
+                      next_probe_at: { type: 'string' },
+                      last_failure: { type: 'string' }
+                    }
+                  }
+                }
+              }
+            },
+            total_count: { type: 'number' }
+          }
+        })
       }
     ];
   }
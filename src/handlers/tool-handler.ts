@@ -5,23 +5,34 @@ import {
   SmartPackageSearchParams,
   SmartPackageReadmeParams,
   SmartPackageInfoParams,
+  SmartPackageInfoBatchParams,
+  ResolveDependencyTreeParams,
+  FindEquivalentPackagesParams,
   OrchestrationErrorType 
 } from '../types/index.js';
 
 import { SmartPackageSearchTool } from '../tools/smart-package-search.js';
 import { SmartPackageReadmeTool } from '../tools/smart-package-readme.js';
 import { SmartPackageInfoTool } from '../tools/smart-package-info.js';
+import { SmartPackageInfoBatchTool } from '../tools/smart-package-info-batch.js';
+import { ResolveDependencyTreeTool } from '../tools/resolve-dependency-tree.js';
+import { FindEquivalentPackagesTool } from '../tools/find-equivalent-packages.js';
 import { ListSupportedManagersTool } from '../tools/list-supported-managers.js';
+import { PassthroughTools } from '../tools/passthrough-tools.js';
 
 export class ToolHandler {
   constructor(
     private smartPackageSearchTool: SmartPackageSearchTool,
     private smartPackageReadmeTool: SmartPackageReadmeTool,
     private smartPackageInfoTool: SmartPackageInfoTool,
-    private listSupportedManagersTool: ListSupportedManagersTool
+    private smartPackageInfoBatchTool: SmartPackageInfoBatchTool,
+    private resolveDependencyTreeTool: ResolveDependencyTreeTool,
+    private findEquivalentPackagesTool: FindEquivalentPackagesTool,
+    private listSupportedManagersTool: ListSupportedManagersTool,
+    private passthroughTools: PassthroughTools
   ) {}
 
-  async handleToolCall(name: string, args: any): Promise<any> {
+  async handleToolCall(name: string, args: any, signal?: AbortSignal): Promise<any> {
     try {
       logger.logOrchestrationStart(name, args);
       const startTime = Date.now();
@@ -30,15 +41,27 @@ export class ToolHandler {
       
       switch (name) {
         case 'smart_package_search':
-          result = await this.handleSmartPackageSearch(args);
+          result = await this.handleSmartPackageSearch(args, signal);
           break;
         
         case 'smart_package_readme':
-          result = await this.handleSmartPackageReadme(args);
+          result = await this.handleSmartPackageReadme(args, signal);
           break;
         
         case 'smart_package_info':
-          result = await this.handleSmartPackageInfo(args);
+          result = await this.handleSmartPackageInfo(args, signal);
+          break;
+        
+        case 'smart_package_info_batch':
+          result = await this.handleSmartPackageInfoBatch(args, signal);
+          break;
+        
+        case 'resolve_dependency_tree':
+          result = await this.handleResolveDependencyTree(args, signal);
+          break;
+        
+        case 'find_equivalent_packages':
+          result = await this.handleFindEquivalentPackages(args);
           break;
         
         case 'list_supported_managers':
@@ -46,6 +69,10 @@ export class ToolHandler {
           break;
         
         default:
+          if (this.passthroughTools.isPassthroughTool(name)) {
+            result = await this.passthroughTools.execute(name, args, signal);
+            break;
+          }
           throw new McpError(
             ErrorCode.MethodNotFound,
             `Unknown tool: ${name}`
@@ -57,7 +84,8 @@ export class ToolHandler {
         name, 
         result.success, 
         result.metadata?.managers_attempted || [], 
-        executionTime
+        executionTime,
+        result.metadata?.managers_succeeded || []
       );
 
       return result;
@@ -68,26 +96,58 @@ export class ToolHandler {
     }
   }
 
-  private async handleSmartPackageSearch(args: SmartPackageSearchParams): Promise<any> {
+  private async handleSmartPackageSearch(args: SmartPackageSearchParams, signal?: AbortSignal): Promise<any> {
     const validation = Validators.validateSmartPackageSearchParams(args);
     if (!validation.valid) {
       return this.createValidationErrorResponse(validation.errors);
     }
 
-    return await this.smartPackageSearchTool.execute(validation.validatedParams!);
+    return await this.smartPackageSearchTool.execute(validation.validatedParams!, signal);
   }
 
-  private async handleSmartPackageReadme(args: SmartPackageReadmeParams): Promise<any> {
-    return await this.smartPackageReadmeTool.execute(args);
+  private async handleSmartPackageReadme(args: SmartPackageReadmeParams, signal?: AbortSignal): Promise<any> {
+    const validation = Validators.validateSmartPackageReadmeParams(args);
+    if (!validation.valid) {
+      return this.createValidationErrorResponse(validation.errors);
+    }
+
+    return await this.smartPackageReadmeTool.execute(validation.validatedParams!, signal);
   }
 
-  private async handleSmartPackageInfo(args: SmartPackageInfoParams): Promise<any> {
+  private async handleSmartPackageInfo(args: SmartPackageInfoParams, signal?: AbortSignal): Promise<any> {
     const validation = Validators.validateSmartPackageInfoParams(args);
     if (!validation.valid) {
       return this.createValidationErrorResponse(validation.errors);
     }
 
-    return await this.smartPackageInfoTool.execute(validation.validatedParams!);
+    return await this.smartPackageInfoTool.execute(validation.validatedParams!, signal);
+  }
+
+  private async handleSmartPackageInfoBatch(args: SmartPackageInfoBatchParams, signal?: AbortSignal): Promise<any> {
+    const validation = Validators.validateSmartPackageInfoBatchParams(args);
+    if (!validation.valid) {
+      return this.createValidationErrorResponse(validation.errors);
+    }
+
+    return await this.smartPackageInfoBatchTool.execute(validation.validatedParams!, signal);
+  }
+
+  private async handleResolveDependencyTree(args: ResolveDependencyTreeParams, signal?: AbortSignal): Promise<any> {
+    const validation = Validators.validateResolveDependencyTreeParams(args);
+    if (!validation.valid) {
+      return this.createValidationErrorResponse(validation.errors);
+    }
+
+    return await this.resolveDependencyTreeTool.execute(validation.validatedParams!, signal);
+  }
+
+  private async handleFindEquivalentPackages(args: FindEquivalentPackagesParams): Promise<any> {
+    const validation = Validators.validateFindEquivalentPackagesParams(args);
+    if (!validation.valid) {
+      return this.createValidationErrorResponse(validation.errors);
+    }
+
+    return await this.findEquivalentPackagesTool.execute(validation.validatedParams!);
   }
 
   private async handleListSupportedManagers(): Promise<any> {
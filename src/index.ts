@@ -1,7 +1,10 @@
 #!/usr/bin/env node
 
+import { parseArgs } from 'util';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { ToolOrchestrationMCPServer } from './server.js';
+import { OrchestratorHttpServer } from './core/http-server.js';
+import { settingsLoader, TransportSettings } from './config/settings-loader.js';
 import { logger } from './utils/logger.js';
 
 // Handle uncaught exceptions and unhandled rejections
@@ -27,8 +30,17 @@ process.on('SIGTERM', async () => {
 });
 
 let server: ToolOrchestrationMCPServer | null = null;
+let httpServer: OrchestratorHttpServer | null = null;
 
 async function shutdown(): Promise<void> {
+  if (httpServer) {
+    try {
+      await httpServer.stop();
+    } catch (error) {
+      logger.error('Error stopping HTTP server', error);
+    }
+  }
+
   if (server) {
     try {
       await server.cleanup();
@@ -40,14 +52,55 @@ async function shutdown(): Promise<void> {
   process.exit(0);
 }
 
+// --transport, --host and --port override transport_settings
+function resolveTransportSettings(): TransportSettings {
+  const { values } = parseArgs({
+    options: {
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' }
+    },
+    strict: false
+  });
+
+  const settings = { ...settingsLoader.getSettings().transport_settings };
+  if (typeof values.transport === 'string') {
+    if (values.transport !== 'stdio' && values.transport !== 'http') {
+      throw new Error(`Unknown transport: ${values.transport}`);
+    }
+    settings.type = values.transport;
+  }
+  if (typeof values.host === 'string') {
+    settings.host = values.host;
+  }
+  if (typeof values.port === 'string') {
+    const port = Number(values.port);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      throw new Error(`Invalid port: ${values.port}`);
+    }
+    settings.port = port;
+  }
+  return settings;
+}
+
 async function main(): Promise<void> {
   try {
     logger.info('Starting Package README Core MCP Server...');
 
+    const transportSettings = resolveTransportSettings();
+
     // Create and initialize server
     server = new ToolOrchestrationMCPServer();
     await server.initialize();
 
+    if (transportSettings.type === 'http') {
+      // One shared orchestrator for every HTTP client
+      httpServer = new OrchestratorHttpServer(server, transportSettings);
+      const address = await httpServer.start();
+      logger.info(`Package README Core MCP Server is listening on http://${address.address}:${address.port}/mcp`);
+      return;
+    }
+
     // Create transport
     const transport = new StdioServerTransport();
 
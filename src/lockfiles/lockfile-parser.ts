@@ -0,0 +1,340 @@
+import { PackageManager, ParsedLockfile, ProjectFile, LockedPackage } from '../types/index.js';
+import { TomlParser, TomlTable, TomlValue } from '../utils/toml-parser.js';
+import { logger } from '../utils/logger.js';
+
+type LockfileFormat =
+  | 'package-lock.json'
+  | 'yarn.lock'
+  | 'pnpm-lock.yaml'
+  | 'cargo.lock'
+  | 'poetry.lock'
+  | 'gemfile.lock'
+  | 'composer.lock'
+  | 'podfile.lock'
+  | 'package.resolved';
+
+const LOCKFILE_MANAGERS: Record<LockfileFormat, PackageManager> = {
+  'package-lock.json': PackageManager.NPM,
+  'yarn.lock': PackageManager.NPM,
+  'pnpm-lock.yaml': PackageManager.NPM,
+  'cargo.lock': PackageManager.CARGO,
+  'poetry.lock': PackageManager.PIP,
+  'gemfile.lock': PackageManager.GEM,
+  'composer.lock': PackageManager.COMPOSER,
+  'podfile.lock': PackageManager.COCOAPODS,
+  'package.resolved': PackageManager.SWIFT
+};
+
+// Packages are returned in preference order: entries installed at the top
+// level of the project come before nested or transitive copies.
+export class LockfileParser {
+  static parse(lockfile: ProjectFile | undefined): ParsedLockfile | null {
+    if (!lockfile || typeof lockfile.filename !== 'string' || typeof lockfile.content !== 'string') {
+      return null;
+    }
+
+    const filename = this.extractFileName(lockfile.filename);
+    const format = this.detectFormat(filename);
+    if (!format) {
+      return null;
+    }
+
+    try {
+      return {
+        manager: LOCKFILE_MANAGERS[format],
+        filename,
+        packages: this.parsePackages(format, lockfile.content.replace(/\r\n/g, '\n'))
+      };
+    } catch (error) {
+      logger.debug('Failed to parse lockfile', { filename, error: String(error) });
+      return null;
+    }
+  }
+
+  static detectFormat(filename: string): LockfileFormat | null {
+    const lowerName = filename.toLowerCase();
+    return lowerName in LOCKFILE_MANAGERS ? lowerName as LockfileFormat : null;
+  }
+
+  static getSupportedLockfiles(): string[] {
+    return [
+      'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'Cargo.lock', 'poetry.lock',
+      'Gemfile.lock', 'composer.lock', 'Podfile.lock', 'Package.resolved'
+    ];
+  }
+
+  private static parsePackages(format: LockfileFormat, content: string): LockedPackage[] {
+    switch (format) {
+      case 'package-lock.json':
+        return this.parsePackageLock(content);
+      case 'yarn.lock':
+        return this.parseYarnLock(content);
+      case 'pnpm-lock.yaml':
+        return this.parsePnpmLock(content);
+      case 'cargo.lock':
+      case 'poetry.lock':
+        return this.parseTomlPackages(content);
+      case 'gemfile.lock':
+        return this.parseGemfileLock(content);
+      case 'composer.lock':
+        return this.parseComposerLock(content);
+      case 'podfile.lock':
+        return this.parsePodfileLock(content);
+      case 'package.resolved':
+        return this.parsePackageResolved(content);
+    }
+  }
+
+  private static parsePackageLock(content: string): LockedPackage[] {
+    const data = JSON.parse(content);
+    const topLevel: LockedPackage[] = [];
+    const nested: LockedPackage[] = [];
+
+    // lockfileVersion 2 and 3
+    if (data.packages && typeof data.packages === 'object') {
+      for (const [path, entry] of Object.entries<any>(data.packages)) {
+        const marker = path.lastIndexOf('node_modules/');
+        if (marker === -1 || !entry?.version) continue;
+
+        const name = entry.name || path.slice(marker + 'node_modules/'.length);
+        const target = path.indexOf('node_modules/') === marker ? topLevel : nested;
+        target.push({ name, version: entry.version });
+      }
+
+      return [...topLevel, ...nested];
+    }
+
+    // lockfileVersion 1
+    const walk = (dependencies: Record<string, any>, target: LockedPackage[]) => {
+      for (const [name, entry] of Object.entries(dependencies || {})) {
+        if (entry?.version) {
+          target.push({ name, version: entry.version });
+        }
+        if (entry?.dependencies) {
+          walk(entry.dependencies, nested);
+        }
+      }
+    };
+    walk(data.dependencies, topLevel);
+
+    return [...topLevel, ...nested];
+  }
+
+  // Handles both the classic v1 format and the YAML-based Berry format
+  private static parseYarnLock(content: string): LockedPackage[] {
+    const packages: LockedPackage[] = [];
+    let currentNames: string[] = [];
+
+    for (const line of content.split('\n')) {
+      if (!line.trim() || line.trim().startsWith('#')) continue;
+
+      if (!/^\s/.test(line) && line.trimEnd().endsWith(':')) {
+        currentNames = line
+          .trimEnd()
+          .slice(0, -1)
+          .split(',')
+          .map(spec => this.nameFromSpecifier(spec.trim().replace(/^"|"$/g, '')))
+          .filter((name): name is string => !!name && name !== '__metadata');
+        continue;
+      }
+
+      const versionMatch = /^\s+version:?\s+"?([^"\s]+)"?\s*$/.exec(line);
+      if (versionMatch && currentNames.length > 0) {
+        for (const name of new Set(currentNames)) {
+          packages.push({ name, version: versionMatch[1] });
+        }
+        currentNames = [];
+      }
+    }
+
+    return packages;
+  }
+
+  private static parsePnpmLock(content: string): LockedPackage[] {
+    const direct: LockedPackage[] = [];
+    const resolved: LockedPackage[] = [];
+    const lines = content.split('\n');
+
+    let section: string | null = null;
+    let inRootImporter = false;
+    let dependencyBlockIndent = -1;
+    let pendingName: { name: string; indent: number } | null = null;
+
+    for (const line of lines) {
+      if (!line.trim() || line.trim().startsWith('#')) continue;
+
+      const indent = line.length - line.trimStart().length;
+      const text = line.trim();
+
+      if (indent === 0) {
+        section = text.replace(/:.*$/, '');
+        inRootImporter = false;
+        dependencyBlockIndent = -1;
+        pendingName = null;
+        // pnpm v5 and v6 list direct dependencies at the top level
+        if (/^(dependencies|devDependencies|optionalDependencies):$/.test(text)) {
+          dependencyBlockIndent = 0;
+        }
+        continue;
+      }
+
+      if (section === 'packages' || section === 'snapshots') {
+        if (indent === 2 && text.endsWith(':')) {
+          const locked = this.parsePnpmPackageKey(text.slice(0, -1));
+          if (locked) resolved.push(locked);
+        }
+        continue;
+      }
+
+      if (section === 'importers' && indent === 2) {
+        inRootImporter = text === '.:' || text === "'.':";
+        dependencyBlockIndent = -1;
+        continue;
+      }
+
+      if (section === 'importers' && inRootImporter && indent === 4) {
+        dependencyBlockIndent = /^(dependencies|devDependencies|optionalDependencies):$/.test(text) ? 4 : -1;
+        continue;
+      }
+
+      if (dependencyBlockIndent < 0 || indent <= dependencyBlockIndent) continue;
+
+      const entry = /^'?([^':]+(?::[^':]+)*)'?:\s*(.*)$/.exec(text);
+      if (!entry) continue;
+
+      if (indent === dependencyBlockIndent + 2) {
+        // v5: "name: 1.2.3" ; v6+: "name:" followed by specifier/version
+        if (entry[2]) {
+          direct.push({ name: entry[1], version: this.stripPnpmPeerSuffix(entry[2]) });
+          pendingName = null;
+        } else {
+          pendingName = { name: entry[1], indent };
+        }
+      } else if (pendingName && entry[1] === 'version' && entry[2]) {
+        direct.push({ name: pendingName.name, version: this.stripPnpmPeerSuffix(entry[2]) });
+        pendingName = null;
+      }
+    }
+
+    return [...direct.filter(pkg => /^\d/.test(pkg.version)), ...resolved];
+  }
+
+  private static parsePnpmPackageKey(rawKey: string): LockedPackage | null {
+    const key = rawKey.replace(/^['"]|['"]$/g, '').replace(/^\//, '').replace(/\(.*$/, '');
+
+    // v5: name/version_peer
+    const legacy = /^(@[^/]+\/[^/@]+|[^/@]+)\/(\d[^/_]*)/.exec(key);
+    if (legacy) {
+      return { name: legacy[1], version: legacy[2] };
+    }
+
+    // v6 and v9: name@version
+    const atIndex = key.lastIndexOf('@');
+    return atIndex > 0 ? { name: key.slice(0, atIndex), version: key.slice(atIndex + 1) } : null;
+  }
+
+  private static stripPnpmPeerSuffix(version: string): string {
+    return version.replace(/^['"]|['"]$/g, '').replace(/[(_].*$/, '');
+  }
+
+  // Cargo.lock and poetry.lock share the [[package]] name/version layout
+  private static parseTomlPackages(content: string): LockedPackage[] {
+    const data = TomlParser.parse(content);
+    const packages = Array.isArray(data.package) ? data.package : [];
+
+    return packages
+      .filter(this.isLockedPackage)
+      .map(entry => ({ name: entry.name, version: entry.version }));
+  }
+
+  private static isLockedPackage(entry: TomlValue): entry is TomlTable & LockedPackage {
+    return typeof entry === 'object' && !Array.isArray(entry)
+      && typeof entry.name === 'string' && typeof entry.version === 'string';
+  }
+
+  private static parseGemfileLock(content: string): LockedPackage[] {
+    const packages: LockedPackage[] = [];
+    let inSpecs = false;
+
+    for (const line of content.split('\n')) {
+      if (/^\S/.test(line)) {
+        inSpecs = false;
+        continue;
+      }
+
+      if (/^ {2}specs:\s*$/.test(line)) {
+        inSpecs = true;
+        continue;
+      }
+
+      // Resolved gems sit at four spaces; their own requirements at six
+      const match = inSpecs ? /^ {4}([^\s(]+) \(([^)]+)\)\s*$/.exec(line) : null;
+      if (match) {
+        packages.push({ name: match[1], version: match[2].replace(/-(x86|x64|arm|aarch|universal|java|mingw|mswin).*$/, '') });
+      }
+    }
+
+    return packages;
+  }
+
+  private static parseComposerLock(content: string): LockedPackage[] {
+    const data = JSON.parse(content);
+    const entries = [...(data.packages || []), ...(data['packages-dev'] || [])];
+
+    return entries
+      .filter((entry: any) => typeof entry?.name === 'string' && typeof entry?.version === 'string')
+      .map((entry: any) => ({ name: entry.name, version: entry.version.replace(/^v(?=\d)/, '') }));
+  }
+
+  private static parsePodfileLock(content: string): LockedPackage[] {
+    const packages: LockedPackage[] = [];
+    let inPods = false;
+
+    for (const line of content.split('\n')) {
+      if (/^\S/.test(line)) {
+        inPods = line.trim() === 'PODS:';
+        continue;
+      }
+
+      const match = inPods ? /^ {2}- "?([^\s"(]+) \(([^)]+)\)/.exec(line) : null;
+      if (match) {
+        // Subspecs such as "Firebase/Core" resolve to their root pod
+        const name = match[1].split('/')[0];
+        if (!packages.some(pkg => pkg.name === name)) {
+          packages.push({ name, version: match[2] });
+        }
+      }
+    }
+
+    return packages;
+  }
+
+  private static parsePackageResolved(content: string): LockedPackage[] {
+    const data = JSON.parse(content);
+    // Version 1 nests pins under "object"; versions 2 and 3 keep them at the top level
+    const pins: any[] = data.object?.pins || data.pins || [];
+
+    return pins
+      .filter(pin => typeof pin?.state?.version === 'string')
+      .map(pin => ({
+        name: pin.identity || pin.package || this.nameFromRepositoryUrl(pin.location || pin.repositoryURL),
+        version: pin.state.version
+      }))
+      .filter(pkg => !!pkg.name);
+  }
+
+  private static nameFromSpecifier(specifier: string): string | null {
+    const atIndex = specifier.indexOf('@', 1);
+    return atIndex > 0 ? specifier.slice(0, atIndex) : null;
+  }
+
+  private static nameFromRepositoryUrl(url: string | undefined): string {
+    if (!url) return '';
+    return url.replace(/\.git$/, '').split('/').pop() || '';
+  }
+
+  private static extractFileName(filePath: string): string {
+    const parts = filePath.split(/[/\\]/);
+    return parts[parts.length - 1];
+  }
+}
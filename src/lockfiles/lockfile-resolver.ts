@@ -0,0 +1,34 @@
+import { LockfileResolution, ProjectFile } from '../types/index.js';
+import { ManifestParser } from '../detection/manifest-parser.js';
+import { settingsLoader } from '../config/settings-loader.js';
+import { LockfileParser } from './lockfile-parser.js';
+
+export class LockfileResolver {
+  static resolve(lockfile: ProjectFile | undefined, packageName: string): LockfileResolution | null {
+    if (!lockfile || typeof lockfile.content !== 'string' || typeof packageName !== 'string') {
+      return null;
+    }
+
+    const settings = settingsLoader.getSettings();
+    if (lockfile.content.length > settings.validation_rules.max_lockfile_length) {
+      return null;
+    }
+
+    const parsed = LockfileParser.parse(lockfile);
+    if (!parsed) {
+      return null;
+    }
+
+    const target = ManifestParser.normalizeName(parsed.manager, packageName);
+    const locked = parsed.packages.find(
+      pkg => ManifestParser.normalizeName(parsed.manager, pkg.name) === target
+    );
+
+    return locked ? {
+      manager: parsed.manager,
+      package_name: locked.name,
+      version: locked.version,
+      lockfile: parsed.filename
+    } : null;
+  }
+}
@@ -2,7 +2,10 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { 
   CallToolRequestSchema,
   ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
   ListToolsRequestSchema,
   ErrorCode,
   McpError
@@ -11,25 +14,42 @@ import {
 import { DependencyInitializer, Dependencies } from './core/dependency-initializer.js';
 import { ToolHandler } from './handlers/tool-handler.js';
 import { SchemaProvider } from './handlers/schema-provider.js';
+import { ResourceHandler } from './handlers/resource-handler.js';
+import { PromptProvider } from './handlers/prompt-provider.js';
+import { PromptHandler } from './handlers/prompt-handler.js';
+import { ResponseFormatter } from './handlers/response-formatter.js';
 import { HealthChecker, HealthStatus } from './core/health-checker.js';
+import { ConfigReloader } from './core/config-reloader.js';
 import { logger } from './utils/logger.js';
+import { Validators } from './utils/validators.js';
+import { ProgressReporter } from './utils/progress-reporter.js';
 import { cacheManager } from './utils/cache.js';
+import { settingsLoader } from './config/settings-loader.js';
 
 export class ToolOrchestrationMCPServer {
   private server: Server;
   private dependencies!: Dependencies;
   private toolHandler!: ToolHandler;
+  private resourceHandler!: ResourceHandler;
+  private promptHandler!: PromptHandler;
   private healthChecker!: HealthChecker;
+  private configReloader?: ConfigReloader;
+  private sessionServers: Set<Server> = new Set();
 
   constructor() {
-    this.server = new Server(
+    this.server = ToolOrchestrationMCPServer.createServer();
+  }
+
+  private static createServer(): Server {
+    return new Server(
       {
         name: 'package-readme-core-mcp-server',
         version: '1.0.0'
       },
       {
         capabilities: {
-          tools: {},
+          // Pass-through tools come and go as downstream servers connect
+          tools: { listChanged: true },
           prompts: {},
           resources: {}
         }
@@ -37,48 +57,118 @@ export class ToolOrchestrationMCPServer {
     );
   }
 
-  private setupHandlers(): void {
-    this.setupListToolsHandler();
-    this.setupPromptsHandler();
-    this.setupResourcesHandler();
-    this.setupCallToolHandler();
+  // Each HTTP session needs its own Server bound to its transport. Session
+  // servers share the dependencies, so downstream connections and caches
+  // are shared by every client.
+  createSessionServer(): Server {
+    if (!this.dependencies) {
+      throw new Error('Server must be initialized before creating sessions');
+    }
+
+    const server = ToolOrchestrationMCPServer.createServer();
+    this.setupHandlers(server);
+    this.sessionServers.add(server);
+    server.onclose = () => {
+      this.sessionServers.delete(server);
+    };
+    return server;
+  }
+
+  private setupHandlers(server: Server): void {
+    this.setupListToolsHandler(server);
+    this.setupPromptsHandler(server);
+    this.setupResourcesHandler(server);
+    this.setupCallToolHandler(server);
   }
 
-  private setupListToolsHandler(): void {
-    (this.server as any).setRequestHandler(ListToolsRequestSchema, async () => {
-      return { tools: SchemaProvider.getToolSchemas() };
+  private setupListToolsHandler(server: Server): void {
+    (server as any).setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: [
+          ...SchemaProvider.getToolSchemas(),
+          ...this.dependencies.passthroughTools.getToolSchemas()
+        ]
+      };
     });
   }
 
-  private setupPromptsHandler(): void {
-    (this.server as any).setRequestHandler(ListPromptsRequestSchema, async () => {
-      return { prompts: [] };
+  // Servers list their tools when they connect, which for lazy servers is
+  // after clients fetched the tool list
+  private setupToolListNotifications(): void {
+    this.dependencies.clientManager.onToolsDiscovered(() => {
+      if (settingsLoader.getSettings().passthrough_settings.enabled) {
+        this.notifyToolListChanged();
+      }
     });
   }
 
-  private setupResourcesHandler(): void {
-    (this.server as any).setRequestHandler(ListResourcesRequestSchema, async () => {
+  private notifyToolListChanged(): void {
+    for (const server of [this.server, ...this.sessionServers]) {
+      // Only servers with a connected client have someone to tell
+      if (!server.transport) {
+        continue;
+      }
+      server.sendToolListChanged().catch(error => {
+        logger.debug('Failed to send tool list change', { error: String(error) });
+      });
+    }
+  }
+
+  private setupPromptsHandler(server: Server): void {
+    (server as any).setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: PromptProvider.getPrompts() };
+    });
+
+    (server as any).setRequestHandler(GetPromptRequestSchema, async (request: any) => {
+      return await this.promptHandler.getPrompt(request.params.name, request.params.arguments);
+    });
+  }
+
+  private setupResourcesHandler(server: Server): void {
+    (server as any).setRequestHandler(ListResourcesRequestSchema, async () => {
       return { resources: [] };
     });
+
+    (server as any).setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: ResourceHandler.getResourceTemplates() };
+    });
+
+    (server as any).setRequestHandler(ReadResourceRequestSchema, async (request: any) => {
+      return await this.resourceHandler.readResource(request.params.uri);
+    });
   }
 
-  private setupCallToolHandler(): void {
-    (this.server as any).setRequestHandler(CallToolRequestSchema, async (request: any, _extra: any) => {
+  private setupCallToolHandler(server: Server): void {
+    (server as any).setRequestHandler(CallToolRequestSchema, async (request: any, extra: any) => {
       const { name, arguments: args } = request.params;
 
+      // Pass-through tools receive their arguments untouched, including a
+      // response_format the downstream tool may define itself
+      let toolArgs = args || {};
+      let response_format: unknown;
+      if (!this.dependencies.passthroughTools.isPassthroughTool(name)) {
+        ({ response_format, ...toolArgs } = toolArgs);
+      }
+
+      const format = Validators.validateResponseFormat(response_format);
+      if (!format.valid) {
+        throw new McpError(ErrorCode.InvalidParams, format.errors.join(', '));
+      }
+
+      const progress = ProgressReporter.fromRequest(request.params._meta, extra.sendNotification);
+
       try {
-        const result = await this.toolHandler.handleToolCall(name, args);
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify(result, null, 2)
-          }]
-        };
+        // The signal aborts when the client cancels the request. Progress is
+        // reported from the orchestration hooks logged during the call
+        const result = await logger.runWithHooks(progress, () => this.toolHandler.handleToolCall(name, toolArgs, extra?.signal));
+        return ResponseFormatter.format(name, result, format.sanitized!);
       } catch (error) {
         throw new McpError(
           ErrorCode.InternalError,
           `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
         );
+      } finally {
+        progress?.close();
       }
     });
   }
@@ -95,15 +185,42 @@ export class ToolOrchestrationMCPServer {
         this.dependencies.smartPackageSearchTool,
         this.dependencies.smartPackageReadmeTool,
         this.dependencies.smartPackageInfoTool,
-        this.dependencies.listSupportedManagersTool
+        this.dependencies.smartPackageInfoBatchTool,
+        this.dependencies.resolveDependencyTreeTool,
+        this.dependencies.findEquivalentPackagesTool,
+        this.dependencies.listSupportedManagersTool,
+        this.dependencies.passthroughTools
+      );
+      
+      this.resourceHandler = new ResourceHandler(
+        this.dependencies.smartPackageReadmeTool,
+        this.dependencies.smartPackageInfoTool
+      );
+      
+      this.promptHandler = new PromptHandler(
+        this.dependencies.smartPackageReadmeTool,
+        this.dependencies.smartPackageInfoTool
       );
       
       this.healthChecker = new HealthChecker(
         this.dependencies.managerRegistry,
-        this.dependencies.clientManager
+        this.dependencies.clientManager,
+        this.dependencies.toolProxy
       );
       
-      this.setupHandlers();
+      this.setupHandlers(this.server);
+      this.setupToolListNotifications();
+
+      if (settingsLoader.getSettings().reload_settings.watch) {
+        this.configReloader = new ConfigReloader(
+          this.dependencies.managerRegistry,
+          this.dependencies.clientManager,
+          this.dependencies.serverSupervisor
+        );
+        // A reload can add or remove servers or change pass-through settings
+        this.configReloader.onReloaded(() => this.notifyToolListChanged());
+        this.configReloader.start();
+      }
       
       logger.info('Package README Core MCP Server initialized successfully');
     } catch (error) {
@@ -116,6 +233,11 @@ export class ToolOrchestrationMCPServer {
     try {
       logger.info('Cleaning up Package README Core MCP Server...');
       
+      this.configReloader?.stop();
+
+      // Stop restarts before the intentional disconnects below
+      this.dependencies?.serverSupervisor?.stop();
+      
       if (this.dependencies?.clientManager) {
         await this.dependencies.clientManager.disconnectAll();
       }
@@ -0,0 +1,415 @@
+import {
+  FindEquivalentPackagesParams,
+  FindEquivalentPackagesResponse,
+  EquivalentPackage,
+  EquivalenceEvidence,
+  PackageManager,
+  OrchestrationResponse,
+  OrchestrationErrorType
+} from '../types/index.js';
+import { PatternDetector } from '../detection/pattern-detector.js';
+import { ContextAnalyzer } from '../detection/context-analyzer.js';
+import { ConfidenceCalculator } from '../detection/confidence-calculator.js';
+import { ManagerRegistry } from '../detection/manager-registry.js';
+import { ToolProxy } from '../clients/tool-proxy.js';
+import { SimilarityCalculator } from '../utils/similarity.js';
+import { PackageUrl } from '../utils/purl.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { settingsLoader } from '../config/settings-loader.js';
+
+interface PackageProfile {
+  name: string;
+  description?: string;
+  repository?: string;
+  keywords: string[];
+  descriptionTokens: string[];
+  keywordTokens: string[];
+}
+
+// Candidates are looked up in full only when they rank this high in their
+// ecosystem, to keep the number of downstream calls bounded
+const CANDIDATES_TO_ENRICH = 3;
+const MIN_EQUIVALENCE_SCORE = 0.15;
+
+export class FindEquivalentPackagesTool {
+  constructor(
+    private patternDetector: PatternDetector,
+    private contextAnalyzer: ContextAnalyzer,
+    private confidenceCalculator: ConfidenceCalculator,
+    private managerRegistry: ManagerRegistry,
+    private toolProxy: ToolProxy
+  ) {}
+
+  async execute(params: FindEquivalentPackagesParams): Promise<OrchestrationResponse<FindEquivalentPackagesResponse>> {
+    const startTime = Date.now();
+    const settings = settingsLoader.getSettings();
+    const managers_attempted: PackageManager[] = [];
+    const managers_succeeded: PackageManager[] = [];
+    const errors: any[] = [];
+
+    try {
+      // Step 1: Resolve the source package and its manager
+      const purlResolution = PackageUrl.resolveParam(params.purl, startTime);
+      if ('errorResponse' in purlResolution) {
+        return purlResolution.errorResponse;
+      }
+      const purlTarget = purlResolution.target;
+      const packageName = purlTarget?.package_name ?? params.package_name ?? '';
+
+      let sourceManager = purlTarget?.manager || params.manager;
+      let confidence = 1.0;
+      if (!sourceManager) {
+        const detectedManagers = this.confidenceCalculator.calculateOverallConfidence(
+          this.patternDetector.detectByPackageName(packageName),
+          this.contextAnalyzer.analyzeContextHints(params.context_hints)
+        );
+
+        if (detectedManagers.length === 0) {
+          return this.createErrorResponse(
+            OrchestrationErrorType.DETECTION_FAILED,
+            'Could not detect appropriate package manager',
+            { package_name: packageName, context_hints: params.context_hints },
+            startTime
+          );
+        }
+
+        sourceManager = detectedManagers[0].manager;
+        confidence = detectedManagers[0].confidence;
+      }
+
+      if (!this.managerRegistry.isManagerAvailable(sourceManager, 'get_package_info')) {
+        return this.createErrorResponse(
+          OrchestrationErrorType.MCP_SERVER_UNAVAILABLE,
+          `No MCP server available for ${sourceManager}`,
+          { manager: sourceManager },
+          startTime,
+          confidence
+        );
+      }
+
+      // Step 2: Fetch the source package to learn what it does
+      managers_attempted.push(sourceManager);
+      const sourceResult = await this.toolProxy.executeToolSingle(sourceManager, 'get_package_info', {
+        package_name: packageName,
+        include_dependencies: false
+      });
+
+      if (!sourceResult.success) {
+        return {
+          success: false,
+          errors: [{
+            manager: sourceManager,
+            error_type: OrchestrationErrorType.ALL_MANAGERS_FAILED,
+            message: sourceResult.error || 'Unknown error',
+            details: { package_name: packageName }
+          }],
+          metadata: {
+            execution_time: Date.now() - startTime,
+            managers_attempted,
+            managers_succeeded,
+            detection_confidence: confidence
+          }
+        };
+      }
+      managers_succeeded.push(sourceManager);
+
+      // Step 3: Pick the ecosystems to search
+      const requestedTargets = params.target_managers && params.target_managers.length > 0
+        ? params.target_managers
+        : Object.values(PackageManager);
+      const targetManagers = requestedTargets
+        .filter(manager => manager !== sourceManager && this.managerRegistry.isManagerAvailable(manager, 'search_packages'))
+        .slice(0, params.target_managers?.length ? undefined : settings.execution_settings.max_managers_attempted);
+      managers_attempted.push(...targetManagers);
+
+      const ecosystemTerms = this.getEcosystemTerms([sourceManager, ...targetManagers]);
+      const source = this.buildProfile(packageName, sourceResult.data, ecosystemTerms);
+
+      // Step 4: Search each ecosystem by the source's key terms and score candidates
+      const queries = this.buildQueries(source);
+      const perManager = await mapWithConcurrency(
+        targetManagers,
+        settings.execution_settings.batch_concurrency,
+        async manager => {
+          const equivalents = await this.findInManager(manager, source, queries, ecosystemTerms, errors);
+          if (equivalents !== null) {
+            managers_succeeded.push(manager);
+          }
+          return equivalents || [];
+        }
+      );
+
+      // Step 5: Rank across ecosystems
+      const limit = params.limit || settings.validation_rules.default_search_limit;
+      const equivalents = perManager
+        .flat()
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+
+      const response: FindEquivalentPackagesResponse = {
+        source: {
+          manager: sourceManager,
+          package_name: packageName,
+          description: source.description,
+          keywords: source.keywords,
+          repository: source.repository
+        },
+        equivalents,
+        searched_managers: targetManagers
+      };
+
+      return {
+        success: true,
+        data: response,
+        errors: errors.length > 0 ? errors : undefined,
+        metadata: {
+          execution_time: Date.now() - startTime,
+          managers_attempted,
+          managers_succeeded,
+          detection_confidence: confidence
+        }
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          error_type: OrchestrationErrorType.ALL_MANAGERS_FAILED,
+          message: error instanceof Error ? error.message : 'Unknown error occurred',
+          details: { error: String(error) }
+        }],
+        metadata: {
+          execution_time: Date.now() - startTime,
+          managers_attempted,
+          managers_succeeded,
+          detection_confidence: 0
+        }
+      };
+    }
+  }
+
+  private async findInManager(
+    manager: PackageManager,
+    source: PackageProfile,
+    queries: string[],
+    ecosystemTerms: ReadonlySet<string>,
+    errors: any[]
+  ): Promise<EquivalentPackage[] | null> {
+    const candidates = new Map<string, PackageProfile>();
+    let searched = false;
+
+    for (const query of queries) {
+      const result = await this.toolProxy.executeToolSingle(manager, 'search_packages', {
+        package_name: query,
+        limit: 10
+      });
+
+      if (!result.success) {
+        errors.push({
+          manager,
+          error_type: OrchestrationErrorType.MCP_SERVER_UNAVAILABLE,
+          message: result.error || 'Unknown error',
+          details: { query }
+        });
+        continue;
+      }
+
+      searched = true;
+      for (const pkg of this.extractPackages(result.data)) {
+        if (typeof pkg?.name === 'string' && !candidates.has(pkg.name)) {
+          candidates.set(pkg.name, this.buildProfile(pkg.name, pkg, ecosystemTerms));
+        }
+      }
+    }
+
+    if (!searched) {
+      return null;
+    }
+
+    // Look up the most promising candidates in full for repository and keywords
+    const ranked = Array.from(candidates.values())
+      .map(candidate => ({ candidate, score: this.scoreCandidate(source, candidate).score }))
+      .sort((a, b) => b.score - a.score);
+
+    const enriched = await Promise.all(ranked.slice(0, CANDIDATES_TO_ENRICH).map(async ({ candidate }) => {
+      const info = await this.toolProxy.executeToolSingle(manager, 'get_package_info', {
+        package_name: candidate.name,
+        include_dependencies: false
+      });
+      if (!info.success) {
+        return candidate;
+      }
+
+      return this.buildProfile(candidate.name, {
+        description: candidate.description,
+        keywords: candidate.keywords,
+        repository: candidate.repository,
+        ...info.data
+      }, ecosystemTerms);
+    }));
+
+    return [...enriched, ...ranked.slice(CANDIDATES_TO_ENRICH).map(entry => entry.candidate)]
+      .map(candidate => {
+        const { score, evidence } = this.scoreCandidate(source, candidate);
+        return {
+          manager,
+          package_name: candidate.name,
+          score,
+          description: candidate.description,
+          repository: candidate.repository,
+          purl: PackageUrl.fromPackage(manager, candidate.name) || undefined,
+          evidence
+        };
+      })
+      .filter(equivalent => equivalent.score >= MIN_EQUIVALENCE_SCORE);
+  }
+
+  private scoreCandidate(
+    source: PackageProfile,
+    candidate: PackageProfile
+  ): { score: number; evidence: EquivalenceEvidence[] } {
+    const evidence: EquivalenceEvidence[] = [];
+
+    // The same repository published to another registry is the same project
+    if (source.repository && source.repository === candidate.repository) {
+      evidence.push({
+        type: 'repository',
+        description: `Shares repository ${candidate.repository}`,
+        score: 1.0
+      });
+    }
+
+    const descriptionScore = SimilarityCalculator.jaccardSimilarity(source.descriptionTokens, candidate.descriptionTokens);
+    if (descriptionScore > 0) {
+      const shared = SimilarityCalculator.sharedTokens(source.descriptionTokens, candidate.descriptionTokens);
+      evidence.push({
+        type: 'description',
+        description: `Description terms in common: ${shared.join(', ')}`,
+        score: this.round(descriptionScore)
+      });
+    }
+
+    const keywordScore = SimilarityCalculator.jaccardSimilarity(source.keywordTokens, candidate.keywordTokens);
+    if (keywordScore > 0) {
+      const shared = SimilarityCalculator.sharedTokens(source.keywordTokens, candidate.keywordTokens);
+      evidence.push({
+        type: 'keywords',
+        description: `Keywords in common: ${shared.join(', ')}`,
+        score: this.round(keywordScore)
+      });
+    }
+
+    // Keywords on one side often show up in the description on the other
+    const topicScore = SimilarityCalculator.jaccardSimilarity(
+      [...source.keywordTokens, ...source.descriptionTokens],
+      [...candidate.keywordTokens, ...candidate.descriptionTokens]
+    );
+
+    const nameScore = SimilarityCalculator.calculateSimilarityScore(source.name.toLowerCase(), candidate.name.toLowerCase());
+    if (nameScore >= 0.8) {
+      evidence.push({
+        type: 'name',
+        description: `Name is similar to ${source.name}`,
+        score: this.round(nameScore)
+      });
+    }
+
+    if (evidence.some(item => item.type === 'repository')) {
+      return { score: 1.0, evidence };
+    }
+
+    const score = descriptionScore * 0.35 + keywordScore * 0.25 + topicScore * 0.25 +
+      (nameScore >= 0.8 ? nameScore * 0.15 : 0);
+    return { score: this.round(Math.min(score, 1)), evidence };
+  }
+
+  // Candidates always come from another ecosystem, so words tied to one
+  // ecosystem (its language, frameworks and tooling, as listed in the
+  // registry's context keywords) never match and would only lower the score
+  private getEcosystemTerms(managers: PackageManager[]): Set<string> {
+    const terms = new Set<string>();
+    for (const manager of managers) {
+      for (const keyword of this.managerRegistry.getManager(manager)?.context_keywords || []) {
+        SimilarityCalculator.tokenize(keyword).forEach(term => terms.add(term));
+      }
+    }
+    return terms;
+  }
+
+  private buildProfile(name: string, data: any, ecosystemTerms: ReadonlySet<string>): PackageProfile {
+    const description = typeof data?.description === 'string' ? data.description : undefined;
+    const keywords = Array.isArray(data?.keywords)
+      ? data.keywords.filter((keyword: any) => typeof keyword === 'string')
+      : [];
+
+    return {
+      name,
+      description,
+      repository: this.normalizeRepositoryUrl(data?.repository),
+      keywords,
+      descriptionTokens: SimilarityCalculator.tokenize(description, ecosystemTerms),
+      keywordTokens: SimilarityCalculator.tokenize(keywords.join(' '), ecosystemTerms)
+    };
+  }
+
+  // Search by keywords first, then by the most telling description terms
+  private buildQueries(source: PackageProfile): string[] {
+    const queries = [
+      source.keywordTokens.slice(0, 3).join(' '),
+      source.descriptionTokens.slice(0, 3).join(' ')
+    ].filter(query => query.length > 0);
+
+    const unique = Array.from(new Set(queries));
+    return unique.length > 0 ? unique : [source.name];
+  }
+
+  private extractPackages(data: any): any[] {
+    if (Array.isArray(data)) return data;
+    if (Array.isArray(data?.packages)) return data.packages;
+    if (Array.isArray(data?.results)) return data.results;
+    return [];
+  }
+
+  private normalizeRepositoryUrl(repository: any): string | undefined {
+    const url = typeof repository === 'string' ? repository : repository?.url;
+    if (typeof url !== 'string' || url.length === 0) {
+      return undefined;
+    }
+
+    return url
+      .toLowerCase()
+      .replace(/^git\+/, '')
+      .replace(/^[a-z]+:\/\//, '')
+      .replace(/^git@([^:]+):/, '$1/')
+      .replace(/^www\./, '')
+      .replace(/\.git$/, '')
+      .replace(/\/+$/, '');
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private createErrorResponse(
+    errorType: OrchestrationErrorType,
+    message: string,
+    details: any,
+    startTime: number,
+    confidence: number = 0
+  ): OrchestrationResponse<FindEquivalentPackagesResponse> {
+    return {
+      success: false,
+      errors: [{
+        error_type: errorType,
+        message,
+        details
+      }],
+      metadata: {
+        execution_time: Date.now() - startTime,
+        managers_attempted: [],
+        managers_succeeded: [],
+        detection_confidence: confidence
+      }
+    };
+  }
+}
@@ -1,11 +1,15 @@
 import { SupportedManagersResponse, OrchestrationResponse } from '../types/index.js';
 import { ManagerRegistry } from '../detection/manager-registry.js';
 import { MCPClientManager } from '../clients/mcp-client-manager.js';
+import { ServerSupervisor } from '../clients/server-supervisor.js';
+import { ToolProxy } from '../clients/tool-proxy.js';
 
 export class ListSupportedManagersTool {
   constructor(
     private managerRegistry: ManagerRegistry,
-    private clientManager: MCPClientManager
+    private clientManager: MCPClientManager,
+    private serverSupervisor?: ServerSupervisor,
+    private toolProxy?: ToolProxy
   ) {}
 
   async execute(): Promise<OrchestrationResponse<SupportedManagersResponse>> {
@@ -14,6 +18,7 @@ export class ListSupportedManagersTool {
     try {
       // Get all registered managers
       const allManagers = this.managerRegistry.getAllManagers();
+      const circuitBreakers = this.toolProxy?.getCircuitBreakerSnapshots() || {};
       
       // Update real-time connection status
       const managersWithStatus = await Promise.all(
@@ -23,12 +28,21 @@ export class ListSupportedManagersTool {
             ? await this.getAvailableTools(manager.manager)
             : [];
 
+          const supervision = this.serverSupervisor?.getStatus(manager.manager);
+
           return {
             ...manager,
             mcp_server_available: isConnected,
+            supervision,
+            // Breakers are created on a manager's first call
+            circuit_breaker: circuitBreakers[manager.manager],
             mcp_server_config: manager.mcp_server_config ? {
               ...manager.mcp_server_config,
-              connection_status: isConnected ? 'connected' as const : 'disconnected' as const,
+              // Schemas stay out of the listing; tools holds the names
+              discovered_tools: undefined,
+              connection_status: isConnected
+                ? 'connected' as const
+                : supervision?.last_failure_reason ? 'error' as const : 'disconnected' as const,
               tools: availableTools
             } : undefined
           };
@@ -303,6 +317,11 @@ export class ListSupportedManagersTool {
   }
 
   private async getAvailableTools(manager: any): Promise<string[]> {
+    const discovered = this.clientManager.getDiscoveredTools(manager);
+    if (discovered) {
+      return discovered.map(tool => tool.name);
+    }
+
     try {
       const client = this.clientManager.clients.get(manager);
       if (!client) {
@@ -0,0 +1,131 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ManagerRegistry } from '../detection/manager-registry.js';
+import { ToolProxy } from '../clients/tool-proxy.js';
+import { settingsLoader } from '../config/settings-loader.js';
+import {
+  PackageManager,
+  DiscoveredTool,
+  OrchestrationResponse,
+  OrchestrationErrorType
+} from '../types/index.js';
+
+export interface PassthroughToolSchema {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+interface ResolvedTool {
+  manager: PackageManager;
+  tool: DiscoveredTool;
+}
+
+// Re-exports the tools downstream servers discovered on connect as
+// <manager>__<tool>, with their original input schemas. Calls go straight
+// to that manager's server through the tool proxy, so circuit breaking,
+// caching and request coalescing still apply.
+export class PassthroughTools {
+  static readonly SEPARATOR = '__';
+
+  constructor(
+    private managerRegistry: ManagerRegistry,
+    private toolProxy: ToolProxy
+  ) {}
+
+  static createName(manager: PackageManager, toolName: string): string {
+    return `${manager}${PassthroughTools.SEPARATOR}${toolName}`;
+  }
+
+  static parseName(name: string): { manager: PackageManager; toolName: string } | undefined {
+    const index = name.indexOf(PassthroughTools.SEPARATOR);
+    if (index <= 0) {
+      return undefined;
+    }
+
+    const manager = name.slice(0, index) as PackageManager;
+    const toolName = name.slice(index + PassthroughTools.SEPARATOR.length);
+    if (!Object.values(PackageManager).includes(manager) || !toolName) {
+      return undefined;
+    }
+    return { manager, toolName };
+  }
+
+  // Only servers that have connected have discovered tools, so the tools of
+  // a lazy server are listed once it has started
+  getToolSchemas(): PassthroughToolSchema[] {
+    if (!settingsLoader.getSettings().passthrough_settings.enabled) {
+      return [];
+    }
+
+    return this.managerRegistry.getAvailableManagers().flatMap(info =>
+      (this.managerRegistry.getDiscoveredTools(info.manager) || [])
+        .filter(tool => !this.isExcluded(tool.name))
+        .map(tool => ({
+          name: PassthroughTools.createName(info.manager, tool.name),
+          description: `[${info.name}] ${tool.description || tool.name}`,
+          inputSchema: tool.input_schema
+        }))
+    );
+  }
+
+  isPassthroughTool(name: string): boolean {
+    return this.resolve(name) !== undefined;
+  }
+
+  async execute(
+    name: string,
+    args: any,
+    signal?: AbortSignal
+  ): Promise<OrchestrationResponse<any>> {
+    const resolved = this.resolve(name);
+    if (!resolved) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    const startTime = Date.now();
+    const { manager, tool } = resolved;
+    const result = await this.toolProxy.executeToolSingle(manager, tool.name, args || {}, undefined, { signal });
+
+    const metadata = {
+      execution_time: Date.now() - startTime,
+      managers_attempted: [manager],
+      managers_succeeded: result.success ? [manager] : [],
+      detection_confidence: 1.0,
+      cache: result.cache ? { responses: { [manager]: result.cache } } : undefined,
+      ...ToolProxy.describeServedFrom([result])
+    };
+
+    if (!result.success) {
+      return {
+        success: false,
+        errors: [{
+          manager,
+          error_type: result.error_type || OrchestrationErrorType.MCP_SERVER_UNAVAILABLE,
+          message: result.error || 'Unknown error',
+          details: { tool: tool.name }
+        }],
+        metadata
+      };
+    }
+
+    return { success: true, data: result.data, metadata };
+  }
+
+  private resolve(name: string): ResolvedTool | undefined {
+    if (!settingsLoader.getSettings().passthrough_settings.enabled) {
+      return undefined;
+    }
+
+    const parsed = PassthroughTools.parseName(name);
+    if (!parsed || this.isExcluded(parsed.toolName)) {
+      return undefined;
+    }
+
+    const tool = this.managerRegistry.getDiscoveredTools(parsed.manager)?.find(tool => tool.name === parsed.toolName);
+    return tool ? { manager: parsed.manager, tool } : undefined;
+  }
+
+  private isExcluded(toolName: string): boolean {
+    return settingsLoader.getSettings().passthrough_settings.exclude_tools.includes(toolName);
+  }
+}
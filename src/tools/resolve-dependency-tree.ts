@@ -0,0 +1,312 @@
+import {
+  ResolveDependencyTreeParams,
+  DependencyTreeResponse,
+  DependencyTreeNode,
+  FlatDependency,
+  PackageManager,
+  OrchestrationResponse,
+  OrchestrationErrorType
+} from '../types/index.js';
+import { PatternDetector } from '../detection/pattern-detector.js';
+import { ContextAnalyzer } from '../detection/context-analyzer.js';
+import { ConfidenceCalculator } from '../detection/confidence-calculator.js';
+import { ManagerRegistry } from '../detection/manager-registry.js';
+import { ToolProxy } from '../clients/tool-proxy.js';
+import { PackageUrl } from '../utils/purl.js';
+import { ToolResultParser } from '../utils/tool-result.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { logger } from '../utils/logger.js';
+import { settingsLoader } from '../config/settings-loader.js';
+
+interface PendingNode {
+  node: DependencyTreeNode;
+  path: string[];
+}
+
+interface PackageInfoLookup {
+  version?: string;
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  error?: string;
+}
+
+export class ResolveDependencyTreeTool {
+  constructor(
+    private patternDetector: PatternDetector,
+    private contextAnalyzer: ContextAnalyzer,
+    private confidenceCalculator: ConfidenceCalculator,
+    private managerRegistry: ManagerRegistry,
+    private toolProxy: ToolProxy
+  ) {}
+
+  async execute(params: ResolveDependencyTreeParams, signal?: AbortSignal): Promise<OrchestrationResponse<DependencyTreeResponse>> {
+    const startTime = Date.now();
+    const settings = settingsLoader.getSettings();
+    const managers_attempted: PackageManager[] = [];
+
+    try {
+      // Step 1: Resolve the root package and its manager
+      const purlResolution = PackageUrl.resolveParam(params.purl, startTime);
+      if ('errorResponse' in purlResolution) {
+        return purlResolution.errorResponse;
+      }
+      const purlTarget = purlResolution.target;
+      const packageName = purlTarget?.package_name ?? params.package_name ?? '';
+      const version = params.version || purlTarget?.version;
+
+      let manager = purlTarget?.manager || params.manager;
+      let confidence = 1.0;
+      if (!manager) {
+        const detectedManagers = this.confidenceCalculator.calculateOverallConfidence(
+          this.patternDetector.detectByPackageName(packageName),
+          this.contextAnalyzer.analyzeContextHints(params.context_hints),
+          [],
+          this.contextAnalyzer.analyzeManifest(params.manifest, packageName)
+        );
+
+        if (detectedManagers.length === 0) {
+          return this.createErrorResponse(
+            OrchestrationErrorType.DETECTION_FAILED,
+            'Could not detect appropriate package manager',
+            { package_name: packageName, context_hints: params.context_hints },
+            startTime
+          );
+        }
+
+        manager = detectedManagers[0].manager;
+        confidence = detectedManagers[0].confidence;
+      }
+
+      if (!this.managerRegistry.isManagerAvailable(manager, 'get_package_info')) {
+        return this.createErrorResponse(
+          OrchestrationErrorType.MCP_SERVER_UNAVAILABLE,
+          `No MCP server available for ${manager}`,
+          { manager },
+          startTime,
+          confidence
+        );
+      }
+      managers_attempted.push(manager);
+      logger.logDetection(packageName, [{ manager, confidence }], confidence);
+
+      // Step 2: Walk the tree breadth-first so every package is recorded at
+      // its shallowest depth with the shortest path to the root
+      const maxDepth = params.max_depth ?? settings.execution_settings.default_tree_depth;
+      const maxNodes = settings.execution_settings.max_tree_nodes;
+      const lookups = new Map<string, Promise<PackageInfoLookup>>();
+      const lookup = (name: string, requestedVersion?: string) => {
+        const key = `${name}@${requestedVersion || ''}`;
+        if (!lookups.has(key)) {
+          lookups.set(key, this.fetchPackageInfo(manager!, name, requestedVersion, signal));
+        }
+        return lookups.get(key)!;
+      };
+
+      const root: DependencyTreeNode = { name: packageName, version, depth: 0, dependencies: [] };
+      const packages: FlatDependency[] = [{ name: packageName, version, depth: 0, path: [packageName] }];
+      const flatByName = new Map<string, FlatDependency>([[packageName, packages[0]]]);
+      // Expanded packages and the names of their dependencies
+      const nodeByName = new Map<string, DependencyTreeNode>();
+      const graph = new Map<string, string[]>();
+      let truncated = false;
+      let level: PendingNode[] = [{ node: root, path: [packageName] }];
+
+      // A cancelled walk stops expanding; the client no longer waits for it
+      while (level.length > 0 && !signal?.aborted) {
+        const infos = await mapWithConcurrency(
+          level,
+          settings.execution_settings.batch_concurrency,
+          pending => lookup(pending.node.name, pending.node.depth === 0 ? version : undefined)
+        );
+
+        if (level[0].node === root && infos[0].error) {
+          return this.createErrorResponse(
+            OrchestrationErrorType.ALL_MANAGERS_FAILED,
+            infos[0].error,
+            { package_name: packageName, manager },
+            startTime,
+            confidence,
+            managers_attempted
+          );
+        }
+
+        const nextLevel: PendingNode[] = [];
+        level.forEach((pending, index) => {
+          const info = infos[index];
+          const { node, path } = pending;
+
+          if (info.error) {
+            node.error = info.error;
+            return;
+          }
+
+          node.version = node.version || info.version;
+          flatByName.get(node.name)!.version = node.version;
+
+          // Development dependencies only matter for the root project
+          const dependencies = node.depth === 0 && params.include_dev_dependencies
+            ? { ...info.dependencies, ...info.devDependencies }
+            : info.dependencies;
+          nodeByName.set(node.name, node);
+          graph.set(node.name, Object.keys(dependencies));
+
+          for (const [name, requested] of Object.entries(dependencies)) {
+            const child: DependencyTreeNode = { name, requested, depth: node.depth + 1, dependencies: [] };
+            node.dependencies.push(child);
+
+            if (path.includes(name)) {
+              child.cycle = true;
+              continue;
+            }
+
+            const existing = flatByName.get(name);
+            if (existing) {
+              child.version = existing.version;
+              child.duplicate = true;
+              continue;
+            }
+
+            const flat: FlatDependency = { name, requested, depth: child.depth, path: [...path, name] };
+            flatByName.set(name, flat);
+            packages.push(flat);
+
+            if (child.depth >= maxDepth || packages.length >= maxNodes) {
+              child.truncated = true;
+              truncated = true;
+              continue;
+            }
+
+            nextLevel.push({ node: child, path: flat.path });
+          }
+        });
+
+        level = nextLevel;
+      }
+
+      const cycles = ResolveDependencyTreeTool.findCycles(packageName, graph);
+      for (const cycle of cycles) {
+        const [from, to] = cycle.slice(-2);
+        const child = nodeByName.get(from)?.dependencies.find(dependency => dependency.name === to);
+        if (child) {
+          child.cycle = true;
+        }
+      }
+
+      const response: DependencyTreeResponse = {
+        package_manager: manager,
+        root,
+        packages,
+        cycles,
+        total_packages: packages.length,
+        max_depth: maxDepth,
+        truncated
+      };
+
+      return {
+        success: true,
+        data: response,
+        metadata: {
+          execution_time: Date.now() - startTime,
+          managers_attempted,
+          managers_succeeded: [manager],
+          detection_confidence: confidence
+        }
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          error_type: OrchestrationErrorType.ALL_MANAGERS_FAILED,
+          message: error instanceof Error ? error.message : 'Unknown error occurred',
+          details: { error: String(error) }
+        }],
+        metadata: {
+          execution_time: Date.now() - startTime,
+          managers_attempted,
+          managers_succeeded: [],
+          detection_confidence: 0
+        }
+      };
+    }
+  }
+
+  // Depth-first search over the resolved graph: a dependency that is still on
+  // the stack closes a cycle. The breadth-first walk does not expand a package
+  // twice, so a cycle between packages it reached through different branches
+  // is only visible here.
+  private static findCycles(root: string, graph: Map<string, string[]>): string[][] {
+    const cycles: string[][] = [];
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const finished = new Set<string>();
+
+    const visit = (name: string) => {
+      stack.push(name);
+      onStack.add(name);
+      for (const dependency of graph.get(name) || []) {
+        if (onStack.has(dependency)) {
+          cycles.push([...stack, dependency]);
+        } else if (!finished.has(dependency)) {
+          visit(dependency);
+        }
+      }
+      stack.pop();
+      onStack.delete(name);
+      finished.add(name);
+    };
+
+    visit(root);
+    return cycles;
+  }
+
+  // ToolProxy caches the info of shared subtrees, so they are cheap to
+  // request again across trees
+  private async fetchPackageInfo(
+    manager: PackageManager,
+    packageName: string,
+    version?: string,
+    signal?: AbortSignal
+  ): Promise<PackageInfoLookup> {
+    const result = await this.toolProxy.executeToolSingle(
+      manager,
+      'get_package_info',
+      { package_name: packageName, version, include_dependencies: true },
+      undefined,
+      { signal }
+    );
+    if (!result.success) {
+      return { dependencies: {}, devDependencies: {}, error: result.error || 'Unknown error' };
+    }
+
+    return {
+      version: result.data?.latest_version || result.data?.version,
+      dependencies: ToolResultParser.extractDependencies(result.data, 'dependencies'),
+      devDependencies: ToolResultParser.extractDependencies(result.data, 'dev_dependencies')
+    };
+  }
+
+  private createErrorResponse(
+    errorType: OrchestrationErrorType,
+    message: string,
+    details: any,
+    startTime: number,
+    confidence: number = 0,
+    managersAttempted: PackageManager[] = []
+  ): OrchestrationResponse<DependencyTreeResponse> {
+    return {
+      success: false,
+      errors: [{
+        error_type: errorType,
+        message,
+        details
+      }],
+      metadata: {
+        execution_time: Date.now() - startTime,
+        managers_attempted: managersAttempted,
+        managers_succeeded: [],
+        detection_confidence: confidence
+      }
+    };
+  }
+}
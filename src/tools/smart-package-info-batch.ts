@@ -0,0 +1,316 @@
+import {
+  SmartPackageInfoBatchParams,
+  SmartPackageInfoBatchResponse,
+  BatchPackageSpec,
+  BatchPackageInfoResult,
+  PackageManager,
+  OrchestrationResponse,
+  OrchestrationError,
+  OrchestrationErrorType,
+  CacheStatus
+} from '../types/index.js';
+import { PatternDetector } from '../detection/pattern-detector.js';
+import { ContextAnalyzer } from '../detection/context-analyzer.js';
+import { ConfidenceCalculator } from '../detection/confidence-calculator.js';
+import { ManagerRegistry } from '../detection/manager-registry.js';
+import { logger } from '../utils/logger.js';
+import { ToolProxy, ToolCallContext } from '../clients/tool-proxy.js';
+import { Validators } from '../utils/validators.js';
+import { PackageUrl } from '../utils/purl.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { detectionCache } from '../utils/cache.js';
+import { settingsLoader } from '../config/settings-loader.js';
+
+interface ResolvedBatchItem {
+  index: number;
+  package_name: string;
+  version?: string;
+  manager?: PackageManager;
+  confidence: number;
+  detection_cache?: CacheStatus;
+  error?: OrchestrationError;
+}
+
+export class SmartPackageInfoBatchTool {
+  constructor(
+    private patternDetector: PatternDetector,
+    private contextAnalyzer: ContextAnalyzer,
+    private confidenceCalculator: ConfidenceCalculator,
+    private managerRegistry: ManagerRegistry,
+    private toolProxy: ToolProxy
+  ) {}
+
+  async execute(params: SmartPackageInfoBatchParams, signal?: AbortSignal): Promise<OrchestrationResponse<SmartPackageInfoBatchResponse>> {
+    const startTime = Date.now();
+    const settings = settingsLoader.getSettings();
+
+    try {
+      // Step 1: Resolve a package manager for every item
+      const items = params.packages.map((spec, index) => this.resolveItem(spec, index, params));
+      const results: BatchPackageInfoResult[] = new Array(items.length);
+
+      // Step 2: Group resolvable items per package manager
+      const groups = new Map<PackageManager, ResolvedBatchItem[]>();
+      for (const item of items) {
+        if (item.error || !item.manager) {
+          results[item.index] = this.createFailedItem(item, item.error!, startTime);
+          continue;
+        }
+
+        const group = groups.get(item.manager) || [];
+        group.push(item);
+        groups.set(item.manager, group);
+      }
+      for (const item of items.filter(item => item.manager && !item.error)) {
+        logger.logDetection(item.package_name, [{ manager: item.manager }], item.confidence);
+      }
+
+      // Step 3: Run each group with bounded concurrency so one registry is
+      // never flooded, while different registries proceed side by side
+      await Promise.all(Array.from(groups.entries()).map(([manager, groupItems]) =>
+        mapWithConcurrency(groupItems, settings.execution_settings.batch_concurrency, async item => {
+          results[item.index] = await this.fetchItem(manager, item, params.include_dependencies, { signal, fresh: params.fresh });
+        })
+      ));
+
+      // Step 4: Summarize
+      const response: SmartPackageInfoBatchResponse = {
+        results,
+        summary: this.summarize(results)
+      };
+
+      const managersAttempted = Array.from(groups.keys());
+      const managersSucceeded = managersAttempted.filter(manager =>
+        results.some(result => result.manager === manager && result.success)
+      );
+      const resolvedItems = items.filter(item => item.manager && !item.error);
+
+      return {
+        success: response.summary.succeeded > 0,
+        data: response,
+        metadata: {
+          execution_time: Date.now() - startTime,
+          managers_attempted: managersAttempted,
+          managers_succeeded: managersSucceeded,
+          detection_confidence: resolvedItems.length > 0
+            ? resolvedItems.reduce((sum, item) => sum + item.confidence, 0) / resolvedItems.length
+            : 0
+        }
+      };
+
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{
+          error_type: OrchestrationErrorType.ALL_MANAGERS_FAILED,
+          message: error instanceof Error ? error.message : 'Unknown error occurred',
+          details: { error: String(error) }
+        }],
+        metadata: {
+          execution_time: Date.now() - startTime,
+          managers_attempted: [],
+          managers_succeeded: [],
+          detection_confidence: 0
+        }
+      };
+    }
+  }
+
+  private resolveItem(
+    spec: BatchPackageSpec,
+    index: number,
+    params: SmartPackageInfoBatchParams
+  ): ResolvedBatchItem {
+    const validationErrors = [
+      ...Validators.validatePackageTarget(spec || {}).errors,
+      ...Validators.validateVersion(spec?.version).errors
+    ];
+    if (validationErrors.length > 0) {
+      return {
+        index,
+        package_name: spec?.package_name || spec?.purl || '',
+        confidence: 0,
+        error: {
+          error_type: OrchestrationErrorType.VALIDATION_ERROR,
+          message: 'Input validation failed',
+          details: { validation_errors: validationErrors }
+        }
+      };
+    }
+
+    let packageName = spec.package_name!;
+    let version = spec.version;
+    let manager: PackageManager | undefined;
+    let confidence = 1.0;
+    let detectionStatus: CacheStatus | undefined;
+
+    if (spec.purl) {
+      const target = PackageUrl.resolve(spec.purl);
+      packageName = target.package_name;
+      version = version || target.version;
+      manager = target.manager;
+    } else if (spec.manager) {
+      if (!Object.values(PackageManager).includes(spec.manager)) {
+        return {
+          index,
+          package_name: packageName,
+          confidence: 0,
+          error: {
+            error_type: OrchestrationErrorType.VALIDATION_ERROR,
+            message: `Unknown package manager: ${spec.manager}`,
+            details: { manager: spec.manager }
+          }
+        };
+      }
+      manager = spec.manager;
+    } else {
+      const detection = detectionCache.detect(
+        packageName,
+        params.context_hints || [],
+        { manifest: params.manifest },
+        params.fresh,
+        () => this.confidenceCalculator.calculateOverallConfidence(
+          this.patternDetector.detectByPackageName(packageName),
+          this.contextAnalyzer.analyzeContextHints(params.context_hints),
+          [],
+          this.contextAnalyzer.analyzeManifest(params.manifest, packageName)
+        )
+      );
+      const detectedManagers = detection.detections;
+      detectionStatus = detection.cache;
+
+      if (detectedManagers.length === 0) {
+        return {
+          index,
+          package_name: packageName,
+          version,
+          confidence: 0,
+          error: {
+            error_type: OrchestrationErrorType.DETECTION_FAILED,
+            message: 'Could not detect appropriate package manager',
+            details: { package_name: packageName }
+          }
+        };
+      }
+
+      // Like smart_package_info, skip detected managers that cannot answer
+      const selected = detectedManagers.find(d => this.managerRegistry.isManagerAvailable(d.manager, 'get_package_info'))
+        || detectedManagers[0];
+      manager = selected.manager;
+      confidence = selected.confidence;
+    }
+
+    if (!this.managerRegistry.isManagerAvailable(manager, 'get_package_info')) {
+      return {
+        index,
+        package_name: packageName,
+        version,
+        manager,
+        confidence,
+        error: {
+          manager,
+          error_type: OrchestrationErrorType.MCP_SERVER_UNAVAILABLE,
+          message: `No MCP server available for ${manager}`
+        }
+      };
+    }
+
+    return { index, package_name: packageName, version, manager, confidence, detection_cache: detectionStatus };
+  }
+
+  private async fetchItem(
+    manager: PackageManager,
+    item: ResolvedBatchItem,
+    includeDependencies: boolean | undefined,
+    context: ToolCallContext
+  ): Promise<BatchPackageInfoResult> {
+    const result = await this.toolProxy.executeToolSingle(manager, 'get_package_info', {
+      package_name: item.package_name,
+      version: item.version,
+      include_dependencies: includeDependencies
+    }, undefined, context);
+
+    const metadata = {
+      execution_time: result.response_time,
+      managers_attempted: [manager],
+      managers_succeeded: result.success ? [manager] : [],
+      detection_confidence: item.confidence,
+      cache: {
+        detection: item.detection_cache,
+        responses: result.cache ? { [manager]: result.cache } : {}
+      },
+      ...ToolProxy.describeServedFrom([result])
+    };
+
+    if (!result.success) {
+      return {
+        index: item.index,
+        package_name: item.package_name,
+        manager,
+        success: false,
+        errors: [{
+          manager,
+          error_type: result.error_type || OrchestrationErrorType.MCP_SERVER_UNAVAILABLE,
+          message: result.error || 'Unknown error',
+          details: result
+        }],
+        metadata
+      };
+    }
+
+    return {
+      index: item.index,
+      package_name: item.package_name,
+      manager,
+      success: true,
+      data: {
+        package_manager: manager,
+        package_name: item.package_name,
+        ...result.data,
+        purl: PackageUrl.fromPackage(manager, item.package_name, item.version) || undefined
+      },
+      metadata
+    };
+  }
+
+  private createFailedItem(
+    item: ResolvedBatchItem,
+    error: OrchestrationError,
+    startTime: number
+  ): BatchPackageInfoResult {
+    return {
+      index: item.index,
+      package_name: item.package_name,
+      manager: item.manager,
+      success: false,
+      errors: [error],
+      metadata: {
+        execution_time: Date.now() - startTime,
+        managers_attempted: [],
+        managers_succeeded: [],
+        detection_confidence: item.confidence
+      }
+    };
+  }
+
+  private summarize(results: BatchPackageInfoResult[]): SmartPackageInfoBatchResponse['summary'] {
+    const byManager: SmartPackageInfoBatchResponse['summary']['by_manager'] = {};
+
+    for (const result of results) {
+      if (!result.manager) continue;
+
+      const entry = byManager[result.manager] || { total: 0, succeeded: 0 };
+      entry.total++;
+      if (result.success) entry.succeeded++;
+      byManager[result.manager] = entry;
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+    return {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      by_manager: byManager
+    };
+  }
+}
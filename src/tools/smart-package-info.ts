@@ -1,9 +1,13 @@
-import { SmartPackageInfoParams, SmartPackageInfoResponse, PackageManager, OrchestrationResponse, OrchestrationErrorType, AlternativePackageResult } from '../types/index.js';
+import { SmartPackageInfoParams, SmartPackageInfoResponse, PackageManager, OrchestrationResponse, OrchestrationErrorType, AlternativePackageResult, DetectedManager, CacheMetadata } from '../types/index.js';
 import { PatternDetector } from '../detection/pattern-detector.js';
 import { ContextAnalyzer } from '../detection/context-analyzer.js';
 import { ConfidenceCalculator } from '../detection/confidence-calculator.js';
 import { ManagerRegistry } from '../detection/manager-registry.js';
+import { logger } from '../utils/logger.js';
 import { ToolProxy } from '../clients/tool-proxy.js';
+import { PARALLEL_EXECUTION_STRATEGY } from '../config/patterns.js';
+import { PackageUrl } from '../utils/purl.js';
+import { detectionCache } from '../utils/cache.js';
 
 export class SmartPackageInfoTool {
   constructor(
@@ -14,21 +18,30 @@ export class SmartPackageInfoTool {
     private toolProxy: ToolProxy
   ) {}
 
-  async execute(params: SmartPackageInfoParams): Promise<OrchestrationResponse<SmartPackageInfoResponse>> {
+  async execute(params: SmartPackageInfoParams, signal?: AbortSignal): Promise<OrchestrationResponse<SmartPackageInfoResponse>> {
     const startTime = Date.now();
     const managers_attempted: PackageManager[] = [];
     const managers_succeeded: PackageManager[] = [];
     const errors: any[] = [];
+    const cacheMetadata: CacheMetadata = {};
 
     try {
+      // Resolve an explicit purl into its manager and package name
+      const purlResolution = PackageUrl.resolveParam(params.purl, startTime);
+      if ('errorResponse' in purlResolution) {
+        return purlResolution.errorResponse;
+      }
+      const purlTarget = purlResolution.target;
+      const packageName = purlTarget?.package_name ?? params.package_name ?? '';
+
       // Validate input
-      if (!this.patternDetector.validatePackageName(params.package_name)) {
+      if (!purlTarget && !this.patternDetector.validatePackageName(packageName)) {
         return {
           success: false,
           errors: [{
             error_type: OrchestrationErrorType.INVALID_PACKAGE_NAME,
-            message: `Invalid package name: ${params.package_name}`,
-            details: { package_name: params.package_name }
+            message: `Invalid package name: ${packageName}`,
+            details: { package_name: packageName }
           }],
           metadata: {
             execution_time: Date.now() - startTime,
@@ -39,16 +52,34 @@ export class SmartPackageInfoTool {
         };
       }
 
-      // Step 1: Detect package managers
-      const patternDetections = this.patternDetector.detectByPackageName(params.package_name);
-      const contextDetections = this.contextAnalyzer.analyzeContextHints(params.context_hints);
-
-      // Step 2: Calculate confidence and determine execution strategy
-      const detectedManagers = this.confidenceCalculator.calculateOverallConfidence(
-        patternDetections,
-        contextDetections,
-        params.preferred_managers
-      );
+      // Step 1: Detect package managers. A purl names its type explicitly,
+      // so pattern and context detection are skipped.
+      let detectedManagers: DetectedManager[];
+      if (purlTarget) {
+        detectedManagers = this.contextAnalyzer.analyzePurl(purlTarget);
+      } else {
+        const detection = detectionCache.detect(
+          packageName,
+          params.context_hints || [],
+          { manifest: params.manifest, preferred_managers: params.preferred_managers },
+          params.fresh,
+          () => {
+            const patternDetections = this.patternDetector.detectByPackageName(packageName);
+            const contextDetections = this.contextAnalyzer.analyzeContextHints(params.context_hints);
+            const manifestDetections = this.contextAnalyzer.analyzeManifest(params.manifest, packageName);
+
+            // Step 2: Calculate confidence and determine execution strategy
+            return this.confidenceCalculator.calculateOverallConfidence(
+              patternDetections,
+              contextDetections,
+              params.preferred_managers,
+              manifestDetections
+            );
+          }
+        );
+        detectedManagers = detection.detections;
+        cacheMetadata.detection = detection.cache;
+      }
 
       if (detectedManagers.length === 0) {
         return {
@@ -56,7 +87,7 @@ export class SmartPackageInfoTool {
           errors: [{
             error_type: OrchestrationErrorType.DETECTION_FAILED,
             message: 'Could not detect appropriate package manager',
-            details: { package_name: params.package_name, context_hints: params.context_hints }
+            details: { package_name: packageName, context_hints: params.context_hints }
           }],
           metadata: {
             execution_time: Date.now() - startTime,
@@ -69,7 +100,7 @@ export class SmartPackageInfoTool {
 
       // Update availability status
       detectedManagers.forEach(detection => {
-        detection.available = this.managerRegistry.isManagerAvailable(detection.manager);
+        detection.available = this.managerRegistry.isManagerAvailable(detection.manager, 'get_package_info');
       });
 
       // Filter to only available managers
@@ -95,25 +126,43 @@ export class SmartPackageInfoTool {
       // Step 3: Determine execution strategy
       const executionStrategy = this.confidenceCalculator.shouldUseParallelExecution(availableDetections);
       managers_attempted.push(...executionStrategy.managers);
+      logger.logDetection(
+        packageName,
+        availableDetections.filter(d => executionStrategy.managers.includes(d.manager)),
+        availableDetections[0].confidence
+      );
 
       // Step 4: Execute tool calls
       const infoParams = {
-        package_name: params.package_name,
+        package_name: packageName,
+        version: purlTarget?.version,
         include_dependencies: params.include_dependencies
       };
 
       let toolResults;
-      if (executionStrategy.useParallel) {
+      if (executionStrategy.useParallel && PARALLEL_EXECUTION_STRATEGY.early_return_on_first_success) {
+        toolResults = await this.toolProxy.executeToolWithEarlyReturn(
+          executionStrategy.managers,
+          'get_package_info',
+          infoParams,
+          PARALLEL_EXECUTION_STRATEGY.early_return_timeout,
+          { confidences: new Map(availableDetections.map(d => [d.manager, d.confidence])), signal, fresh: params.fresh }
+        );
+      } else if (executionStrategy.useParallel) {
         toolResults = await this.toolProxy.executeToolParallel(
           executionStrategy.managers,
           'get_package_info',
-          infoParams
+          infoParams,
+          undefined,
+          { signal, fresh: params.fresh }
         );
       } else {
         const singleResult = await this.toolProxy.executeToolSingle(
           executionStrategy.managers[0],
           'get_package_info',
-          infoParams
+          infoParams,
+          undefined,
+          { signal, fresh: params.fresh }
         );
         toolResults = [singleResult];
       }
@@ -121,13 +170,14 @@ export class SmartPackageInfoTool {
       // Step 5: Process results
       const results = Array.isArray(toolResults) ? toolResults : [toolResults];
       const successfulResults = results.filter(r => r.success);
+      cacheMetadata.responses = Object.fromEntries(results.filter(r => r.cache).map(r => [r.manager, r.cache]));
       managers_succeeded.push(...successfulResults.map(r => r.manager));
 
       // Collect errors from failed results
       const failedResults = results.filter(r => !r.success);
       errors.push(...failedResults.map(r => ({
         manager: r.manager,
-        error_type: OrchestrationErrorType.MCP_SERVER_UNAVAILABLE,
+        error_type: r.error_type || OrchestrationErrorType.MCP_SERVER_UNAVAILABLE,
         message: r.error || 'Unknown error',
         details: r
       })));
@@ -139,13 +189,14 @@ export class SmartPackageInfoTool {
           errors: errors.length > 0 ? errors : [{
             error_type: OrchestrationErrorType.ALL_MANAGERS_FAILED,
             message: 'All package manager lookups failed',
-            details: { package_name: params.package_name }
+            details: { package_name: packageName }
           }],
           metadata: {
             execution_time: Date.now() - startTime,
             managers_attempted,
             managers_succeeded,
-            detection_confidence: Math.max(...detectedManagers.map(d => d.confidence))
+            detection_confidence: Math.max(...detectedManagers.map(d => d.confidence)),
+            cache: cacheMetadata
           }
         };
       }
@@ -157,7 +208,7 @@ export class SmartPackageInfoTool {
       // Generate alternative results
       const alternativeResults = this.generateAlternativeResults(
         successfulResults.filter(r => r.manager !== bestResult.manager),
-        params.package_name
+        packageName
       );
 
       const response: SmartPackageInfoResponse = {
@@ -165,8 +216,9 @@ export class SmartPackageInfoTool {
         confidence_score: bestManagerDetection?.confidence || 0,
         package_data: {
           package_manager: bestResult.manager,
-          package_name: params.package_name,
-          ...bestResult.data
+          package_name: packageName,
+          ...bestResult.data,
+          purl: PackageUrl.fromPackage(bestResult.manager, packageName, purlTarget?.version) || undefined
         },
         alternative_results: alternativeResults.length > 0 ? alternativeResults : undefined
       };
@@ -179,7 +231,9 @@ export class SmartPackageInfoTool {
           execution_time: Date.now() - startTime,
           managers_attempted,
           managers_succeeded,
-          detection_confidence: bestManagerDetection?.confidence || 0
+          detection_confidence: bestManagerDetection?.confidence || 0,
+          cache: cacheMetadata,
+          ...ToolProxy.describeServedFrom([bestResult])
         }
       };
 
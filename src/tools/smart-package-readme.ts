@@ -1,10 +1,16 @@
-import { SmartPackageReadmeParams, SmartPackageReadmeResponse, PackageManager, OrchestrationResponse, OrchestrationErrorType, AlternativePackageResult } from '../types/index.js';
+import { SmartPackageReadmeParams, SmartPackageReadmeResponse, PackageReadmeResponse, PackageManager, OrchestrationResponse, OrchestrationErrorType, AlternativePackageResult, VersionSource, DetectedManager, CacheMetadata } from '../types/index.js';
 import { PatternDetector } from '../detection/pattern-detector.js';
 import { ContextAnalyzer } from '../detection/context-analyzer.js';
 import { ConfidenceCalculator } from '../detection/confidence-calculator.js';
 import { ManagerRegistry } from '../detection/manager-registry.js';
+import { logger } from '../utils/logger.js';
 import { ToolProxy } from '../clients/tool-proxy.js';
+import { PARALLEL_EXECUTION_STRATEGY } from '../config/patterns.js';
+import { PackageUrl } from '../utils/purl.js';
+import { detectionCache } from '../utils/cache.js';
+import { LockfileResolver } from '../lockfiles/lockfile-resolver.js';
 import { SimilarityCalculator } from '../utils/similarity.js';
+import { ReadmeParser } from '../utils/readme-parser.js';
 
 export class SmartPackageReadmeTool {
   constructor(
@@ -15,21 +21,30 @@ export class SmartPackageReadmeTool {
     private toolProxy: ToolProxy
   ) {}
 
-  async execute(params: SmartPackageReadmeParams): Promise<OrchestrationResponse<SmartPackageReadmeResponse>> {
+  async execute(params: SmartPackageReadmeParams, signal?: AbortSignal): Promise<OrchestrationResponse<SmartPackageReadmeResponse>> {
     const startTime = Date.now();
     const managers_attempted: PackageManager[] = [];
     const managers_succeeded: PackageManager[] = [];
     const errors: any[] = [];
+    const cacheMetadata: CacheMetadata = {};
 
     try {
+      // Resolve an explicit purl into its manager and package name
+      const purlResolution = PackageUrl.resolveParam(params.purl, startTime);
+      if ('errorResponse' in purlResolution) {
+        return purlResolution.errorResponse;
+      }
+      const purlTarget = purlResolution.target;
+      const packageName = purlTarget?.package_name ?? params.package_name ?? '';
+
       // Validate input
-      if (!this.patternDetector.validatePackageName(params.package_name)) {
+      if (!purlTarget && !this.patternDetector.validatePackageName(packageName)) {
         return {
           success: false,
           errors: [{
             error_type: OrchestrationErrorType.INVALID_PACKAGE_NAME,
-            message: `Invalid package name: ${params.package_name}`,
-            details: { package_name: params.package_name }
+            message: `Invalid package name: ${packageName}`,
+            details: { package_name: packageName }
           }],
           metadata: {
             execution_time: Date.now() - startTime,
@@ -40,16 +55,39 @@ export class SmartPackageReadmeTool {
         };
       }
 
-      // Step 1: Detect package managers
-      const patternDetections = this.patternDetector.detectByPackageName(params.package_name);
-      const contextDetections = this.contextAnalyzer.analyzeContextHints(params.context_hints);
+      const lockfileResolution = LockfileResolver.resolve(params.lockfile, packageName);
 
-      // Step 2: Calculate confidence and determine execution strategy
-      const detectedManagers = this.confidenceCalculator.calculateOverallConfidence(
-        patternDetections,
-        contextDetections,
-        params.preferred_managers
-      );
+      // Step 1: Detect package managers. A purl names its type explicitly,
+      // so pattern and context detection are skipped.
+      let detectedManagers: DetectedManager[];
+      if (purlTarget) {
+        detectedManagers = this.contextAnalyzer.analyzePurl(purlTarget);
+      } else {
+        const detection = detectionCache.detect(
+          packageName,
+          params.context_hints || [],
+          { manifest: params.manifest, lockfile: lockfileResolution, preferred_managers: params.preferred_managers },
+          params.fresh,
+          () => {
+            const patternDetections = this.patternDetector.detectByPackageName(packageName);
+            const contextDetections = this.contextAnalyzer.analyzeContextHints(params.context_hints);
+            const manifestDetections = [
+              ...this.contextAnalyzer.analyzeManifest(params.manifest, packageName),
+              ...this.contextAnalyzer.analyzeLockfile(lockfileResolution)
+            ];
+
+            // Step 2: Calculate confidence and determine execution strategy
+            return this.confidenceCalculator.calculateOverallConfidence(
+              patternDetections,
+              contextDetections,
+              params.preferred_managers,
+              manifestDetections
+            );
+          }
+        );
+        detectedManagers = detection.detections;
+        cacheMetadata.detection = detection.cache;
+      }
 
       if (detectedManagers.length === 0) {
         return {
@@ -57,7 +95,7 @@ export class SmartPackageReadmeTool {
           errors: [{
             error_type: OrchestrationErrorType.DETECTION_FAILED,
             message: 'Could not detect appropriate package manager',
-            details: { package_name: params.package_name, context_hints: params.context_hints }
+            details: { package_name: packageName, context_hints: params.context_hints }
           }],
           metadata: {
             execution_time: Date.now() - startTime,
@@ -70,7 +108,7 @@ export class SmartPackageReadmeTool {
 
       // Update availability status
       detectedManagers.forEach(detection => {
-        detection.available = this.managerRegistry.isManagerAvailable(detection.manager);
+        detection.available = this.managerRegistry.isManagerAvailable(detection.manager, 'get_package_readme');
       });
 
       // Filter to only available managers
@@ -96,58 +134,92 @@ export class SmartPackageReadmeTool {
       // Step 3: Determine execution strategy
       const executionStrategy = this.confidenceCalculator.shouldUseParallelExecution(availableDetections);
       managers_attempted.push(...executionStrategy.managers);
+      logger.logDetection(
+        packageName,
+        availableDetections.filter(d => executionStrategy.managers.includes(d.manager)),
+        availableDetections[0].confidence
+      );
 
-      // Step 4: Execute tool calls
+      // Step 4: Resolve the version to fetch. A locked version only applies
+      // when the lockfile's ecosystem is the single manager being queried.
+      let version = params.version || purlTarget?.version;
+      let versionSource: VersionSource = version ? 'request' : 'latest';
+      if (
+        !version &&
+        lockfileResolution &&
+        !executionStrategy.useParallel &&
+        executionStrategy.managers[0] === lockfileResolution.manager
+      ) {
+        version = lockfileResolution.version;
+        versionSource = 'lockfile';
+      }
+
+      // Step 5: Execute tool calls
       const readmeParams = {
-        package_name: params.package_name,
-        version: params.version,
+        package_name: packageName,
+        version,
         include_examples: params.include_examples
       };
 
       let toolResults;
-      if (executionStrategy.useParallel) {
+      if (executionStrategy.useParallel && PARALLEL_EXECUTION_STRATEGY.early_return_on_first_success) {
+        toolResults = await this.toolProxy.executeToolWithEarlyReturn(
+          executionStrategy.managers,
+          'get_package_readme',
+          readmeParams,
+          PARALLEL_EXECUTION_STRATEGY.early_return_timeout,
+          { confidences: new Map(availableDetections.map(d => [d.manager, d.confidence])), signal, fresh: params.fresh }
+        );
+      } else if (executionStrategy.useParallel) {
         toolResults = await this.toolProxy.executeToolParallel(
           executionStrategy.managers,
           'get_package_readme',
-          readmeParams
+          readmeParams,
+          undefined,
+          { signal, fresh: params.fresh }
         );
       } else {
         const singleResult = await this.toolProxy.executeToolSingle(
           executionStrategy.managers[0],
           'get_package_readme',
-          readmeParams
+          readmeParams,
+          undefined,
+          { signal, fresh: params.fresh }
         );
         toolResults = [singleResult];
       }
 
-      // Step 5: Process results
+      // Step 6: Process results
       const results = Array.isArray(toolResults) ? toolResults : [toolResults];
       const successfulResults = results.filter(r => r.success);
+      cacheMetadata.responses = Object.fromEntries(results.filter(r => r.cache).map(r => [r.manager, r.cache]));
       managers_succeeded.push(...successfulResults.map(r => r.manager));
 
       // Collect errors from failed results
       const failedResults = results.filter(r => !r.success);
       errors.push(...failedResults.map(r => ({
         manager: r.manager,
-        error_type: OrchestrationErrorType.MCP_SERVER_UNAVAILABLE,
+        error_type: r.error_type || OrchestrationErrorType.MCP_SERVER_UNAVAILABLE,
         message: r.error || 'Unknown error',
         details: r
       })));
 
-      // Step 6: Select best result
+      // Step 7: Select best result
       if (successfulResults.length === 0) {
         return {
           success: false,
           errors: errors.length > 0 ? errors : [{
             error_type: OrchestrationErrorType.ALL_MANAGERS_FAILED,
             message: 'All package manager lookups failed',
-            details: { package_name: params.package_name }
+            details: { package_name: packageName }
           }],
           metadata: {
             execution_time: Date.now() - startTime,
             managers_attempted,
             managers_succeeded,
-            detection_confidence: Math.max(...detectedManagers.map(d => d.confidence))
+            detection_confidence: Math.max(...detectedManagers.map(d => d.confidence)),
+            version_source: versionSource,
+            cache: cacheMetadata
           }
         };
       }
@@ -159,18 +231,19 @@ export class SmartPackageReadmeTool {
       // Generate alternative results
       const alternativeResults = this.generateAlternativeResults(
         successfulResults.filter(r => r.manager !== bestResult.manager),
-        params.package_name
+        packageName
       );
 
       const response: SmartPackageReadmeResponse = {
         package_manager: bestResult.manager,
         confidence_score: bestManagerDetection?.confidence || 0,
-        readme_data: {
+        readme_data: this.shapeReadme({
           package_manager: bestResult.manager,
-          package_name: params.package_name,
-          version: params.version,
-          ...bestResult.data
-        },
+          package_name: packageName,
+          version,
+          ...bestResult.data,
+          purl: PackageUrl.fromPackage(bestResult.manager, packageName, version) || undefined
+        }, params),
         alternative_results: alternativeResults.length > 0 ? alternativeResults : undefined
       };
 
@@ -182,7 +255,10 @@ export class SmartPackageReadmeTool {
           execution_time: Date.now() - startTime,
           managers_attempted,
           managers_succeeded,
-          detection_confidence: bestManagerDetection?.confidence || 0
+          detection_confidence: bestManagerDetection?.confidence || 0,
+          version_source: versionSource,
+          cache: cacheMetadata,
+          ...ToolProxy.describeServedFrom([bestResult])
         }
       };
 
@@ -204,6 +280,31 @@ export class SmartPackageReadmeTool {
     }
   }
 
+  // Extracts code examples from the full README, then narrows the content
+  // down to the requested sections
+  private shapeReadme(readme: PackageReadmeResponse, params: SmartPackageReadmeParams): PackageReadmeResponse {
+    if (typeof readme.readme_content !== 'string') {
+      return readme;
+    }
+
+    const shaped = { ...readme };
+    if (params.include_examples === true) {
+      shaped.usage_examples = ReadmeParser.extractCodeBlocks(readme.readme_content);
+    } else if (params.include_examples === false) {
+      shaped.readme_content = ReadmeParser.stripCodeBlocks(readme.readme_content);
+      delete shaped.usage_examples;
+    }
+
+    if (Array.isArray(params.sections) && params.sections.length > 0) {
+      const selection = ReadmeParser.selectSections(shaped.readme_content!, params.sections);
+      shaped.readme_content = selection.content;
+      shaped.matched_sections = selection.matched_sections;
+      shaped.omitted_sections = selection.omitted_sections;
+    }
+
+    return shaped;
+  }
+
   private selectBestResult(successfulResults: any[], detectedManagers: any[]): any {
     // Sort by manager confidence (highest first)
     const sortedResults = successfulResults.sort((a, b) => {
@@ -1,9 +1,12 @@
-import { SmartPackageSearchParams, SmartPackageSearchResponse, PackageManager, OrchestrationResponse, OrchestrationErrorType } from '../types/index.js';
+import { SmartPackageSearchParams, SmartPackageSearchResponse, PackageManager, OrchestrationResponse, OrchestrationErrorType, DetectedManager, CacheMetadata } from '../types/index.js';
 import { PatternDetector } from '../detection/pattern-detector.js';
 import { ContextAnalyzer } from '../detection/context-analyzer.js';
 import { ConfidenceCalculator } from '../detection/confidence-calculator.js';
 import { ManagerRegistry } from '../detection/manager-registry.js';
+import { logger } from '../utils/logger.js';
 import { ToolProxy } from '../clients/tool-proxy.js';
+import { PackageUrl } from '../utils/purl.js';
+import { detectionCache } from '../utils/cache.js';
 
 export class SmartPackageSearchTool {
   constructor(
@@ -14,21 +17,30 @@ export class SmartPackageSearchTool {
     private toolProxy: ToolProxy
   ) {}
 
-  async execute(params: SmartPackageSearchParams): Promise<OrchestrationResponse<SmartPackageSearchResponse>> {
+  async execute(params: SmartPackageSearchParams, signal?: AbortSignal): Promise<OrchestrationResponse<SmartPackageSearchResponse>> {
     const startTime = Date.now();
     const managers_attempted: PackageManager[] = [];
     const managers_succeeded: PackageManager[] = [];
     const errors: any[] = [];
+    const cacheMetadata: CacheMetadata = {};
 
     try {
+      // Resolve an explicit purl into its manager and package name
+      const purlResolution = PackageUrl.resolveParam(params.purl, startTime);
+      if ('errorResponse' in purlResolution) {
+        return purlResolution.errorResponse;
+      }
+      const purlTarget = purlResolution.target;
+      const packageName = purlTarget?.package_name ?? params.package_name ?? '';
+
       // Validate input
-      if (!this.patternDetector.validatePackageName(params.package_name)) {
+      if (!purlTarget && !this.patternDetector.validatePackageName(packageName)) {
         return {
           success: false,
           errors: [{
             error_type: OrchestrationErrorType.INVALID_PACKAGE_NAME,
-            message: `Invalid package name: ${params.package_name}`,
-            details: { package_name: params.package_name }
+            message: `Invalid package name: ${packageName}`,
+            details: { package_name: packageName }
           }],
           metadata: {
             execution_time: Date.now() - startTime,
@@ -39,16 +51,34 @@ export class SmartPackageSearchTool {
         };
       }
 
-      // Step 1: Detect package managers
-      const patternDetections = this.patternDetector.detectByPackageName(params.package_name);
-      const contextDetections = this.contextAnalyzer.analyzeContextHints(params.context_hints);
-
-      // Step 2: Calculate confidence and determine execution strategy
-      const detectedManagers = this.confidenceCalculator.calculateOverallConfidence(
-        patternDetections,
-        contextDetections,
-        params.preferred_managers
-      );
+      // Step 1: Detect package managers. A purl names its type explicitly,
+      // so pattern and context detection are skipped.
+      let detectedManagers: DetectedManager[];
+      if (purlTarget) {
+        detectedManagers = this.contextAnalyzer.analyzePurl(purlTarget);
+      } else {
+        const detection = detectionCache.detect(
+          packageName,
+          params.context_hints || [],
+          { manifest: params.manifest, preferred_managers: params.preferred_managers },
+          params.fresh,
+          () => {
+            const patternDetections = this.patternDetector.detectByPackageName(packageName);
+            const contextDetections = this.contextAnalyzer.analyzeContextHints(params.context_hints);
+            const manifestDetections = this.contextAnalyzer.analyzeManifest(params.manifest, packageName);
+
+            // Step 2: Calculate confidence and determine execution strategy
+            return this.confidenceCalculator.calculateOverallConfidence(
+              patternDetections,
+              contextDetections,
+              params.preferred_managers,
+              manifestDetections
+            );
+          }
+        );
+        detectedManagers = detection.detections;
+        cacheMetadata.detection = detection.cache;
+      }
 
       if (detectedManagers.length === 0) {
         return {
@@ -56,7 +86,7 @@ export class SmartPackageSearchTool {
           errors: [{
             error_type: OrchestrationErrorType.DETECTION_FAILED,
             message: 'Could not detect appropriate package manager',
-            details: { package_name: params.package_name, context_hints: params.context_hints }
+            details: { package_name: packageName, context_hints: params.context_hints }
           }],
           metadata: {
             execution_time: Date.now() - startTime,
@@ -69,7 +99,7 @@ export class SmartPackageSearchTool {
 
       // Update availability status
       detectedManagers.forEach(detection => {
-        detection.available = this.managerRegistry.isManagerAvailable(detection.manager);
+        detection.available = this.managerRegistry.isManagerAvailable(detection.manager, 'search_packages');
       });
 
       // Filter to only available managers
@@ -95,25 +125,35 @@ export class SmartPackageSearchTool {
       // Step 3: Determine execution strategy
       const executionStrategy = this.confidenceCalculator.shouldUseParallelExecution(availableDetections);
       managers_attempted.push(...executionStrategy.managers);
+      logger.logDetection(
+        packageName,
+        availableDetections.filter(d => executionStrategy.managers.includes(d.manager)),
+        availableDetections[0].confidence
+      );
 
       // Step 4: Execute tool calls
       const searchParams = {
-        package_name: params.package_name,
+        package_name: packageName,
         limit: params.limit || 10
       };
 
       let toolResults;
+      // Search combines the results of every manager, so it never returns early
       if (executionStrategy.useParallel) {
         toolResults = await this.toolProxy.executeToolParallel(
           executionStrategy.managers,
           'search_packages',
-          searchParams
+          searchParams,
+          undefined,
+          { signal, fresh: params.fresh }
         );
       } else {
         const singleResult = await this.toolProxy.executeToolSingle(
           executionStrategy.managers[0],
           'search_packages',
-          searchParams
+          searchParams,
+          undefined,
+          { signal, fresh: params.fresh }
         );
         toolResults = [singleResult];
       }
@@ -121,13 +161,14 @@ export class SmartPackageSearchTool {
       // Step 5: Process results
       const results = Array.isArray(toolResults) ? toolResults : [toolResults];
       const successfulResults = results.filter(r => r.success);
+      cacheMetadata.responses = Object.fromEntries(results.filter(r => r.cache).map(r => [r.manager, r.cache]));
       managers_succeeded.push(...successfulResults.map(r => r.manager));
 
       // Collect errors from failed results
       const failedResults = results.filter(r => !r.success);
       errors.push(...failedResults.map(r => ({
         manager: r.manager,
-        error_type: OrchestrationErrorType.MCP_SERVER_UNAVAILABLE,
+        error_type: r.error_type || OrchestrationErrorType.MCP_SERVER_UNAVAILABLE,
         message: r.error || 'Unknown error',
         details: r
       })));
@@ -141,7 +182,7 @@ export class SmartPackageSearchTool {
         detected_managers: detectedManagers,
         results: results,
         confidence_score: aggregateConfidence,
-        fallback_suggestions: this.generateFallbackSuggestions(params.package_name, detectedManagers)
+        fallback_suggestions: this.generateFallbackSuggestions(packageName, detectedManagers)
       };
 
       return {
@@ -152,7 +193,9 @@ export class SmartPackageSearchTool {
           execution_time: Date.now() - startTime,
           managers_attempted: managers_attempted,
           managers_succeeded: managers_succeeded,
-          detection_confidence: Math.max(...detectedManagers.map(d => d.confidence))
+          detection_confidence: Math.max(...detectedManagers.map(d => d.confidence)),
+          cache: cacheMetadata,
+          ...ToolProxy.describeServedFrom(successfulResults)
         }
       };
 
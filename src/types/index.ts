@@ -17,7 +17,7 @@ export enum PackageManager {
 }
 
 export interface DetectionReason {
-  type: 'package_name_pattern' | 'context_hint' | 'file_pattern' | 'dependency_pattern';
+  type: 'package_name_pattern' | 'context_hint' | 'file_pattern' | 'dependency_pattern' | 'purl';
   description: string;
   weight: number;
 }
@@ -34,7 +34,36 @@ export interface PackageManagerResult {
   success: boolean;
   data?: any;
   error?: string;
+  error_type?: OrchestrationErrorType;
   response_time: number;
+  cache?: CacheStatus;
+  served_from?: ServedFrom;
+  age_ms?: number;
+}
+
+// hit: served from cache; stale: served from cache past its TTL while it is
+// refreshed in the background; miss: fetched and cached; bypass: fetched
+// because the request asked for fresh data
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'bypass';
+
+// Where an offline response came from instead of a downstream server
+export type ServedFrom = 'cache' | 'mirror';
+
+export interface CacheMetadata {
+  detection?: CacheStatus;
+  responses?: Partial<Record<PackageManager, CacheStatus>>;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  calls: number;
+  failure_rate: number;
+  slow_call_rate: number;
+  opened_at?: string;
+  next_probe_at?: string;
+  last_failure?: string;
 }
 
 export interface AlternativePackageResult {
@@ -44,16 +73,46 @@ export interface AlternativePackageResult {
   brief_info?: string;
 }
 
+export type ConnectionMode = 'eager' | 'lazy';
+
+// stdio starts the server as a child process; sse and streamable-http
+// connect to a server that is already running at url
+export type DownstreamTransport = 'stdio' | 'sse' | 'streamable-http';
+
 export interface MCPServerConfig {
   server_id: string;
-  command: string;
-  args: string[];
+  transport?: DownstreamTransport;
+  command?: string;
+  args?: string[];
   env?: Record<string, string>;
+  url?: string;
+  // Values may reference environment variables as ${NAME}
+  headers?: Record<string, string>;
   connection_status: 'connected' | 'disconnected' | 'error';
+  connection_mode?: ConnectionMode;
+  idle_timeout_ms?: number;
   tools: string[];
+  // What the server listed on its last connect; takes precedence over tools
+  discovered_tools?: DiscoveredTool[];
   health_check_interval?: number;
 }
 
+// A tool as listed by a downstream server's tools/list
+export interface DiscoveredTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, unknown>;
+}
+
+export interface ServerSupervisionStatus {
+  restart_count: number;
+  consecutive_failures: number;
+  last_failure_reason?: string;
+  last_failure_at?: string;
+  last_restart_at?: string;
+  next_restart_at?: string;
+}
+
 export interface PackageManagerInfo {
   manager: PackageManager;
   name: string;
@@ -62,15 +121,98 @@ export interface PackageManagerInfo {
   package_name_patterns: RegExp[];
   mcp_server_available: boolean;
   mcp_server_config?: MCPServerConfig;
+  supervision?: ServerSupervisionStatus;
+  circuit_breaker?: CircuitBreakerSnapshot;
   context_keywords: string[];
   priority: number;
 }
 
-export interface SmartPackageSearchParams {
+export interface ProjectFile {
+  filename: string;
+  content: string;
+}
+
+export interface ParsedManifest {
+  manager: PackageManager;
+  filename: string;
+  dependencies: Record<string, string>;
+}
+
+export interface LockedPackage {
+  name: string;
+  version: string;
+}
+
+export interface ParsedLockfile {
+  manager: PackageManager;
+  filename: string;
+  packages: LockedPackage[];
+}
+
+export interface LockfileResolution {
+  manager: PackageManager;
   package_name: string;
+  version: string;
+  lockfile: string;
+}
+
+export interface ReadmeSection {
+  title: string;
+  level: number;
+  content: string;
+  children: ReadmeSection[];
+}
+
+export interface ParsedReadme {
+  preamble: string;
+  sections: ReadmeSection[];
+}
+
+export interface ReadmeTocEntry {
+  title: string;
+  level: number;
+}
+
+export interface ReadmeSelection {
+  content: string;
+  matched_sections: string[];
+  omitted_sections: ReadmeTocEntry[];
+}
+
+export interface ReadmeCodeExample {
+  title?: string;
+  language?: string;
+  code: string;
+}
+
+export type VersionSource = 'request' | 'lockfile' | 'latest';
+
+export type ResponseFormat = 'json' | 'markdown' | 'both';
+
+export interface PackageUrlComponents {
+  type: string;
+  namespace?: string;
+  name: string;
+  version?: string;
+  qualifiers?: Record<string, string>;
+  subpath?: string;
+}
+
+export interface PurlTarget {
+  manager: PackageManager;
+  package_name: string;
+  version?: string;
+  purl: string;
+}
+
+export interface SmartPackageSearchParams {
+  package_name?: string;
+  purl?: string;
   context_hints?: string[];
   preferred_managers?: PackageManager[];
+  manifest?: ProjectFile;
   limit?: number;
+  fresh?: boolean;
 }
 
 export interface SmartPackageSearchResponse {
@@ -81,18 +223,27 @@ export interface SmartPackageSearchResponse {
 }
 
 export interface SmartPackageReadmeParams {
-  package_name: string;
+  package_name?: string;
+  purl?: string;
   version?: string;
   context_hints?: string[];
   preferred_managers?: PackageManager[];
+  manifest?: ProjectFile;
+  lockfile?: ProjectFile;
+  sections?: string[];
   include_examples?: boolean;
+  fresh?: boolean;
 }
 
 export interface PackageReadmeResponse {
   package_manager: PackageManager;
   package_name: string;
   version?: string;
+  purl?: string;
   readme_content?: string;
+  matched_sections?: string[];
+  omitted_sections?: ReadmeTocEntry[];
+  usage_examples?: ReadmeCodeExample[];
   description?: string;
   homepage?: string;
   repository?: string;
@@ -110,16 +261,20 @@ export interface SmartPackageReadmeResponse {
 }
 
 export interface SmartPackageInfoParams {
-  package_name: string;
+  package_name?: string;
+  purl?: string;
   context_hints?: string[];
   preferred_managers?: PackageManager[];
+  manifest?: ProjectFile;
   include_dependencies?: boolean;
+  fresh?: boolean;
 }
 
 export interface PackageInfoResponse {
   package_manager: PackageManager;
   package_name: string;
   latest_version?: string;
+  purl?: string;
   description?: string;
   homepage?: string;
   repository?: string;
@@ -139,6 +294,124 @@ export interface SmartPackageInfoResponse {
   alternative_results?: AlternativePackageResult[];
 }
 
+export interface BatchPackageSpec {
+  package_name?: string;
+  purl?: string;
+  version?: string;
+  manager?: PackageManager;
+}
+
+export interface SmartPackageInfoBatchParams {
+  packages: BatchPackageSpec[];
+  context_hints?: string[];
+  manifest?: ProjectFile;
+  include_dependencies?: boolean;
+  fresh?: boolean;
+}
+
+export interface BatchPackageInfoResult extends OrchestrationResponse<PackageInfoResponse> {
+  index: number;
+  package_name: string;
+  manager?: PackageManager;
+}
+
+export interface SmartPackageInfoBatchResponse {
+  results: BatchPackageInfoResult[];
+  summary: {
+    total: number;
+    succeeded: number;
+    failed: number;
+    by_manager: Partial<Record<PackageManager, { total: number; succeeded: number }>>;
+  };
+}
+
+export interface ResolveDependencyTreeParams {
+  package_name?: string;
+  purl?: string;
+  version?: string;
+  manager?: PackageManager;
+  context_hints?: string[];
+  manifest?: ProjectFile;
+  max_depth?: number;
+  include_dev_dependencies?: boolean;
+}
+
+export interface DependencyTreeNode {
+  name: string;
+  version?: string;
+  requested?: string;
+  depth: number;
+  dependencies: DependencyTreeNode[];
+  duplicate?: boolean;
+  cycle?: boolean;
+  truncated?: boolean;
+  error?: string;
+}
+
+export interface FlatDependency {
+  name: string;
+  version?: string;
+  requested?: string;
+  depth: number;
+  path: string[];
+}
+
+export interface DependencyTreeResponse {
+  package_manager: PackageManager;
+  root: DependencyTreeNode;
+  packages: FlatDependency[];
+  cycles: string[][];
+  total_packages: number;
+  max_depth: number;
+  truncated: boolean;
+}
+
+export interface FindEquivalentPackagesParams {
+  package_name?: string;
+  purl?: string;
+  manager?: PackageManager;
+  target_managers?: PackageManager[];
+  context_hints?: string[];
+  limit?: number;
+}
+
+export interface EquivalenceEvidence {
+  type: 'repository' | 'description' | 'keywords' | 'name';
+  description: string;
+  score: number;
+}
+
+export interface EquivalentPackage {
+  manager: PackageManager;
+  package_name: string;
+  score: number;
+  description?: string;
+  repository?: string;
+  purl?: string;
+  evidence: EquivalenceEvidence[];
+}
+
+export interface FindEquivalentPackagesResponse {
+  source: {
+    manager: PackageManager;
+    package_name: string;
+    description?: string;
+    keywords: string[];
+    repository?: string;
+  };
+  equivalents: EquivalentPackage[];
+  searched_managers: PackageManager[];
+}
+
+export type PackageResourceKind = 'readme' | 'info';
+
+export interface PackageResourceUri {
+  manager?: PackageManager;
+  package_name: string;
+  version?: string;
+  kind: PackageResourceKind;
+}
+
 export interface SupportedManagersResponse {
   managers: PackageManagerInfo[];
   total_count: number;
@@ -151,7 +424,9 @@ export enum OrchestrationErrorType {
   TIMEOUT = 'TIMEOUT',
   INVALID_PACKAGE_NAME = 'INVALID_PACKAGE_NAME',
   CONNECTION_ERROR = 'CONNECTION_ERROR',
-  VALIDATION_ERROR = 'VALIDATION_ERROR'
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  OFFLINE_CACHE_MISS = 'OFFLINE_CACHE_MISS',
+  TOOL_NOT_SUPPORTED = 'TOOL_NOT_SUPPORTED'
 }
 
 export interface OrchestrationError {
@@ -170,6 +445,10 @@ export interface OrchestrationResponse<T> {
     managers_attempted: PackageManager[];
     managers_succeeded: PackageManager[];
     detection_confidence: number;
+    version_source?: VersionSource;
+    cache?: CacheMetadata;
+    served_from?: ServedFrom;
+    age_ms?: number;
   };
 }
 
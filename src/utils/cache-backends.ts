@@ -0,0 +1,503 @@
+import { createHash } from 'crypto';
+import {
+  closeSync,
+  existsSync,
+  fstatSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  rmSync,
+  statSync,
+  utimesSync,
+  writeFileSync,
+  writeSync
+} from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { logger } from './logger.js';
+
+export interface PersistedEntry<T = any> {
+  value: T;
+  expires_at: number;
+}
+
+export interface CacheBackendStats {
+  backend: string;
+  entries: number;
+  size_bytes: number;
+}
+
+// Second tier behind MemoryCache. Backends are synchronous so MemoryCache
+// keeps its synchronous API; they bound their own size and drop expired
+// entries on read.
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): PersistedEntry | undefined;
+  set(key: string, entry: PersistedEntry): void;
+  delete(key: string): boolean;
+  keys(): string[];
+  clear(): void;
+  getStats(): CacheBackendStats;
+  close(): void;
+}
+
+export interface CachePersistenceSettings {
+  backend: 'memory' | 'filesystem' | 'single-file';
+  path?: string;
+  max_size_bytes: number;
+}
+
+interface FileIndexEntry {
+  size: number;
+  last_used: number;
+}
+
+interface StoredFile {
+  key: string;
+  value: any;
+  expires_at: number;
+}
+
+// One file per entry, named after the SHA-256 of its key. Files are written
+// to a temporary name and renamed into place, so readers never see a partial
+// entry. Least recently used files are removed once max_size_bytes is passed.
+export class FileSystemCacheBackend implements CacheBackend {
+  readonly name = 'filesystem';
+  private index = new Map<string, FileIndexEntry>();
+  private totalSize = 0;
+  private tempCounter = 0;
+
+  constructor(private directory: string, private maxSizeBytes: number) {
+    mkdirSync(directory, { recursive: true });
+    this.loadIndex();
+  }
+
+  get(key: string): PersistedEntry | undefined {
+    const hash = this.hashKey(key);
+    if (!this.index.has(hash) && !this.indexFile(hash)) {
+      return undefined;
+    }
+
+    const stored = this.readFile(hash);
+    if (!stored || stored.key !== key) {
+      return undefined;
+    }
+
+    if (Date.now() > stored.expires_at) {
+      this.removeFile(hash);
+      return undefined;
+    }
+
+    this.touch(hash);
+    return { value: stored.value, expires_at: stored.expires_at };
+  }
+
+  set(key: string, entry: PersistedEntry): void {
+    const hash = this.hashKey(key);
+    const stored: StoredFile = { key, value: entry.value, expires_at: entry.expires_at };
+    const content = JSON.stringify(stored);
+    const size = Buffer.byteLength(content);
+
+    if (size > this.maxSizeBytes) {
+      logger.debug('Cache entry larger than the cache size limit was not persisted', { key, size });
+      return;
+    }
+
+    const filePath = this.filePath(hash);
+    const tempPath = `${filePath}.${process.pid}.${this.tempCounter++}.tmp`;
+    writeFileSync(tempPath, content);
+    renameSync(tempPath, filePath);
+
+    this.totalSize += size - (this.index.get(hash)?.size ?? 0);
+    this.index.set(hash, { size, last_used: Date.now() });
+    this.evict();
+  }
+
+  delete(key: string): boolean {
+    const hash = this.hashKey(key);
+    if (!this.index.has(hash) && !this.indexFile(hash)) {
+      return false;
+    }
+    this.removeFile(hash);
+    return true;
+  }
+
+  // Reads every entry, since files are named after the hash of their key
+  keys(): string[] {
+    const keys: string[] = [];
+    for (const hash of Array.from(this.index.keys())) {
+      const stored = this.readFile(hash);
+      if (stored) {
+        keys.push(stored.key);
+      }
+    }
+    return keys;
+  }
+
+  clear(): void {
+    for (const hash of Array.from(this.index.keys())) {
+      this.removeFile(hash);
+    }
+  }
+
+  getStats(): CacheBackendStats {
+    return { backend: this.name, entries: this.index.size, size_bytes: this.totalSize };
+  }
+
+  close(): void {
+    // Every write is already on disk
+  }
+
+  private loadIndex(): void {
+    for (const fileName of readdirSync(this.directory)) {
+      const filePath = join(this.directory, fileName);
+
+      if (fileName.endsWith('.tmp')) {
+        // Left behind by a write that was interrupted
+        rmSync(filePath, { force: true });
+        continue;
+      }
+
+      if (!fileName.endsWith('.json')) {
+        continue;
+      }
+
+      const stats = statSync(filePath);
+      this.index.set(fileName.slice(0, -'.json'.length), { size: stats.size, last_used: stats.mtimeMs });
+      this.totalSize += stats.size;
+    }
+
+    this.evict();
+  }
+
+  // Another process sharing the directory may have written the entry since
+  // the index was loaded
+  private indexFile(hash: string): boolean {
+    const filePath = this.filePath(hash);
+    if (!existsSync(filePath)) {
+      return false;
+    }
+
+    const stats = statSync(filePath);
+    this.index.set(hash, { size: stats.size, last_used: stats.mtimeMs });
+    this.totalSize += stats.size;
+    return true;
+  }
+
+  private readFile(hash: string): StoredFile | undefined {
+    try {
+      return JSON.parse(readFileSync(this.filePath(hash), 'utf-8')) as StoredFile;
+    } catch (error) {
+      logger.debug('Dropping unreadable cache file', { hash, error: String(error) });
+      this.removeFile(hash);
+      return undefined;
+    }
+  }
+
+  // The modification time doubles as the last use, so eviction order
+  // survives restarts
+  private touch(hash: string): void {
+    const now = Date.now();
+    this.index.get(hash)!.last_used = now;
+    try {
+      utimesSync(this.filePath(hash), now / 1000, now / 1000);
+    } catch {
+      // Only affects eviction order
+    }
+  }
+
+  private evict(): void {
+    if (this.totalSize <= this.maxSizeBytes) {
+      return;
+    }
+
+    const byLastUse = Array.from(this.index.entries()).sort(([, a], [, b]) => a.last_used - b.last_used);
+    for (const [hash] of byLastUse) {
+      if (this.totalSize <= this.maxSizeBytes) {
+        break;
+      }
+      this.removeFile(hash);
+    }
+  }
+
+  private removeFile(hash: string): void {
+    rmSync(this.filePath(hash), { force: true });
+    this.totalSize -= this.index.get(hash)?.size ?? 0;
+    this.index.delete(hash);
+  }
+
+  private filePath(hash: string): string {
+    return join(this.directory, `${hash}.json`);
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
+
+interface RecordLocation {
+  offset: number;
+  length: number;
+  expires_at: number;
+}
+
+// All entries in one append-only file of JSON lines. Deletes append a
+// tombstone. Only record offsets are kept in memory; values are read from
+// the file on demand. Once less than half of the file is live, it is
+// rewritten to a temporary file and renamed over the original.
+//
+// The offsets are only valid for the process that wrote them, so the file is
+// locked for as long as the backend is open. A second process fails to open
+// it and falls back to memory.
+export class SingleFileCacheBackend implements CacheBackend {
+  readonly name = 'single-file';
+  private records = new Map<string, RecordLocation>();
+  private fd: number;
+  private fileSize = 0;
+  private liveSize = 0;
+  private lockPath: string;
+
+  private static readonly MIN_COMPACTION_SIZE = 1024 * 1024;
+
+  constructor(private filePath: string, private maxSizeBytes: number) {
+    mkdirSync(dirname(filePath), { recursive: true });
+    this.lockPath = `${filePath}.lock`;
+    SingleFileCacheBackend.acquireLock(this.lockPath, filePath);
+
+    try {
+      this.fd = openSync(filePath, 'a+');
+      this.loadRecords();
+    } catch (error) {
+      rmSync(this.lockPath, { force: true });
+      throw error;
+    }
+  }
+
+  get(key: string): PersistedEntry | undefined {
+    const location = this.records.get(key);
+    if (!location) {
+      return undefined;
+    }
+
+    if (Date.now() > location.expires_at) {
+      this.delete(key);
+      return undefined;
+    }
+
+    const record = this.readRecord(location);
+    if (!record || record.k !== key) {
+      this.delete(key);
+      return undefined;
+    }
+
+    // Map order is the eviction order
+    this.records.delete(key);
+    this.records.set(key, location);
+    return { value: record.v, expires_at: location.expires_at };
+  }
+
+  set(key: string, entry: PersistedEntry): void {
+    const line = `${JSON.stringify({ k: key, v: entry.value, e: entry.expires_at })}\n`;
+    const length = Buffer.byteLength(line);
+
+    if (length > this.maxSizeBytes) {
+      logger.debug('Cache entry larger than the cache size limit was not persisted', { key, size: length });
+      return;
+    }
+
+    this.forget(key);
+    const offset = this.append(line);
+    this.records.set(key, { offset, length, expires_at: entry.expires_at });
+    this.liveSize += length;
+
+    while (this.liveSize > this.maxSizeBytes) {
+      const oldestKey = this.records.keys().next().value as string;
+      this.delete(oldestKey);
+    }
+
+    this.compactIfNeeded();
+  }
+
+  delete(key: string): boolean {
+    if (!this.forget(key)) {
+      return false;
+    }
+    this.append(`${JSON.stringify({ k: key, d: 1 })}\n`);
+    this.compactIfNeeded();
+    return true;
+  }
+
+  keys(): string[] {
+    return Array.from(this.records.keys());
+  }
+
+  clear(): void {
+    this.records.clear();
+    this.liveSize = 0;
+    this.rewrite([]);
+  }
+
+  getStats(): CacheBackendStats {
+    return { backend: this.name, entries: this.records.size, size_bytes: this.fileSize };
+  }
+
+  close(): void {
+    closeSync(this.fd);
+    rmSync(this.lockPath, { force: true });
+  }
+
+  // The lock file holds the owner's pid. A lock left behind by a process that
+  // exited without closing the cache is taken over.
+  private static acquireLock(lockPath: string, filePath: string): void {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const fd = openSync(lockPath, 'wx');
+        writeSync(fd, String(process.pid));
+        closeSync(fd);
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const owner = Number(readFileSync(lockPath, 'utf-8'));
+      if (SingleFileCacheBackend.isRunning(owner)) {
+        throw new Error(`${filePath} is in use by process ${owner}`);
+      }
+      rmSync(lockPath, { force: true });
+    }
+
+    throw new Error(`Could not lock ${filePath}`);
+  }
+
+  private static isRunning(pid: number): boolean {
+    if (!Number.isInteger(pid) || pid <= 0) {
+      return false;
+    }
+    try {
+      // Signal 0 only checks that the process exists
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+
+  private loadRecords(): void {
+    const content = readFileSync(this.filePath);
+    const now = Date.now();
+    let offset = 0;
+
+    while (offset < content.length) {
+      const newline = content.indexOf(0x0a, offset);
+      if (newline === -1) {
+        // A torn write at the end of the file; the next compaction drops it
+        break;
+      }
+
+      const length = newline + 1 - offset;
+      try {
+        const record = JSON.parse(content.subarray(offset, newline).toString('utf-8'));
+        this.forget(record.k);
+        if (!record.d && record.e >= now) {
+          this.records.set(record.k, { offset, length, expires_at: record.e });
+          this.liveSize += length;
+        }
+      } catch {
+        // Skip corrupt lines
+      }
+      offset = newline + 1;
+    }
+
+    this.fileSize = content.length;
+    this.compactIfNeeded();
+  }
+
+  private readRecord(location: RecordLocation): { k: string; v: any } | undefined {
+    const buffer = Buffer.alloc(location.length);
+    try {
+      readSync(this.fd, buffer, 0, location.length, location.offset);
+      return JSON.parse(buffer.toString('utf-8'));
+    } catch (error) {
+      logger.debug('Dropping unreadable cache record', { offset: location.offset, error: String(error) });
+      return undefined;
+    }
+  }
+
+  private append(line: string): number {
+    const offset = this.fileSize;
+    writeSync(this.fd, line);
+    this.fileSize += Buffer.byteLength(line);
+    return offset;
+  }
+
+  private forget(key: string): boolean {
+    const location = this.records.get(key);
+    if (!location) {
+      return false;
+    }
+    this.records.delete(key);
+    this.liveSize -= location.length;
+    return true;
+  }
+
+  private compactIfNeeded(): void {
+    if (this.fileSize < SingleFileCacheBackend.MIN_COMPACTION_SIZE || this.liveSize * 2 > this.fileSize) {
+      return;
+    }
+
+    const now = Date.now();
+    const live: { key: string; line: string; expires_at: number }[] = [];
+    for (const [key, location] of this.records.entries()) {
+      if (location.expires_at < now) {
+        continue;
+      }
+      const buffer = Buffer.alloc(location.length);
+      readSync(this.fd, buffer, 0, location.length, location.offset);
+      live.push({ key, line: buffer.toString('utf-8'), expires_at: location.expires_at });
+    }
+
+    this.rewrite(live);
+  }
+
+  private rewrite(live: { key: string; line: string; expires_at: number }[]): void {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, live.map(record => record.line).join(''));
+    closeSync(this.fd);
+    renameSync(tempPath, this.filePath);
+    this.fd = openSync(this.filePath, 'a+');
+
+    this.records.clear();
+    let offset = 0;
+    for (const record of live) {
+      const length = Buffer.byteLength(record.line);
+      this.records.set(record.key, { offset, length, expires_at: record.expires_at });
+      offset += length;
+    }
+    this.fileSize = fstatSync(this.fd).size;
+    this.liveSize = offset;
+  }
+}
+
+export function defaultCacheDirectory(): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
+  return join(cacheHome, 'package-readme-core-mcp-server');
+}
+
+// Returns undefined for the memory backend
+export function createCacheBackend(settings: CachePersistenceSettings): CacheBackend | undefined {
+  switch (settings.backend) {
+    case 'filesystem':
+      return new FileSystemCacheBackend(settings.path || defaultCacheDirectory(), settings.max_size_bytes);
+    case 'single-file':
+      return new SingleFileCacheBackend(settings.path || join(defaultCacheDirectory(), 'cache.jsonl'), settings.max_size_bytes);
+    case 'memory':
+      return undefined;
+    default:
+      throw new Error(`Unknown cache backend: ${settings.backend}`);
+  }
+}
@@ -1,5 +1,7 @@
 import { createHash } from 'crypto';
 import { logger } from './logger.js';
+import { CacheStatus } from '../types/index.js';
+import { CacheBackend, CacheBackendStats } from './cache-backends.js';
 
 export interface CacheEntry<T> {
   value: T;
@@ -14,6 +16,7 @@ export interface CacheStats {
   cache_misses: number;
   hit_rate: number;
   memory_usage: number;
+  persistent?: CacheBackendStats;
 }
 
 export class MemoryCache<T> {
@@ -22,12 +25,20 @@ export class MemoryCache<T> {
   private defaultTtl: number;
   private hits = 0;
   private misses = 0;
+  private backend?: CacheBackend;
 
   constructor(maxSize: number = 1000, defaultTtl: number = 3600000) { // 1 hour default TTL
     this.maxSize = maxSize;
     this.defaultTtl = defaultTtl;
   }
 
+  // Writes go through to the backend, and misses are looked up there, so
+  // entries outlive the process when the backend is persistent
+  setBackend(backend: CacheBackend | undefined): void {
+    this.backend?.close();
+    this.backend = backend;
+  }
+
   private generateKey(...args: any[]): string {
     const combined = JSON.stringify(args);
     return createHash('md5').update(combined).digest('hex');
@@ -66,10 +77,15 @@ export class MemoryCache<T> {
   set(key: string, value: T, ttl?: number): void {
     const actualTtl = ttl || this.defaultTtl;
     
+    this.setInMemory(key, value, actualTtl);
+    this.withBackend('write', backend => backend.set(key, { value, expires_at: Date.now() + actualTtl }));
+  }
+
+  private setInMemory(key: string, value: T, ttl: number): void {
     this.cache.set(key, {
       value,
       timestamp: Date.now(),
-      ttl: actualTtl,
+      ttl,
       hits: 0
     });
 
@@ -77,17 +93,22 @@ export class MemoryCache<T> {
   }
 
   get(key: string): T | undefined {
-    const entry = this.cache.get(key);
-    
-    if (!entry) {
-      this.misses++;
-      return undefined;
-    }
+    let entry = this.cache.get(key);
 
-    if (this.isExpired(entry)) {
+    if (entry && this.isExpired(entry)) {
       this.cache.delete(key);
-      this.misses++;
-      return undefined;
+      entry = undefined;
+    }
+
+    if (!entry) {
+      const persisted = this.withBackend('read', backend => backend.get(key));
+      if (!persisted) {
+        this.misses++;
+        return undefined;
+      }
+
+      this.setInMemory(key, persisted.value, Math.max(1, persisted.expires_at - Date.now()));
+      entry = this.cache.get(key)!;
     }
 
     entry.hits++;
@@ -99,26 +120,55 @@ export class MemoryCache<T> {
 
   has(key: string): boolean {
     const entry = this.cache.get(key);
-    return entry !== undefined && !this.isExpired(entry);
+    if (entry !== undefined && !this.isExpired(entry)) {
+      return true;
+    }
+    return this.withBackend('read', backend => backend.get(key)) !== undefined;
   }
 
   delete(key: string): boolean {
-    return this.cache.delete(key);
+    const deletedFromBackend = this.withBackend('delete', backend => backend.delete(key)) ?? false;
+    return this.cache.delete(key) || deletedFromBackend;
   }
 
   clear(): void {
+    this.clearMemory();
+    this.withBackend('clear', backend => backend.clear());
+  }
+
+  // Leaves persisted entries in place
+  clearMemory(): void {
     this.cache.clear();
     this.hits = 0;
     this.misses = 0;
   }
 
+  close(): void {
+    this.clearMemory();
+    this.setBackend(undefined);
+  }
+
+  // A failing backend degrades the cache to memory only for that call
+  private withBackend<R>(operation: string, fn: (backend: CacheBackend) => R): R | undefined {
+    if (!this.backend) {
+      return undefined;
+    }
+    try {
+      return fn(this.backend);
+    } catch (error) {
+      logger.warn(`Cache backend ${operation} failed`, { backend: this.backend.name, error: String(error) });
+      return undefined;
+    }
+  }
+
   getStats(): CacheStats {
     return {
       total_entries: this.cache.size,
       cache_hits: this.hits,
       cache_misses: this.misses,
       hit_rate: this.hits + this.misses > 0 ? this.hits / (this.hits + this.misses) : 0,
-      memory_usage: this.estimateMemoryUsage()
+      memory_usage: this.estimateMemoryUsage(),
+      persistent: this.withBackend('stats', backend => backend.getStats())
     };
   }
 
@@ -154,20 +204,28 @@ export class MemoryCache<T> {
     return value;
   }
 
-  // Method to invalidate entries by pattern
+  // Method to invalidate entries by pattern. Entries read from the backend
+  // are also held in memory, so every match is deleted from both tiers
   invalidatePattern(pattern: RegExp): number {
-    let deletedCount = 0;
-    const keysToDelete: string[] = [];
+    const keysToDelete = new Set<string>();
 
     for (const key of this.cache.keys()) {
       if (pattern.test(key)) {
-        keysToDelete.push(key);
+        keysToDelete.add(key);
+      }
+    }
+
+    for (const key of this.withBackend('read', backend => backend.keys()) ?? []) {
+      if (pattern.test(key)) {
+        keysToDelete.add(key);
       }
     }
 
+    let deletedCount = 0;
     for (const key of keysToDelete) {
-      this.cache.delete(key);
-      deletedCount++;
+      if (this.delete(key)) {
+        deletedCount++;
+      }
     }
 
     return deletedCount;
@@ -180,14 +238,14 @@ export class DetectionCache extends MemoryCache<any> {
     super(500, 3600000); // 500 entries, 1 hour TTL
   }
 
-  cacheDetectionResult(packageName: string, contextHints: string[], result: any): void {
-    const key = this.createDetectionKey(packageName, contextHints);
+  cacheDetectionResult(packageName: string, contextHints: string[], result: any, context?: any): void {
+    const key = this.createDetectionKey(packageName, contextHints, context);
     this.set(key, result, 3600000); // 1 hour
     logger.debug('Detection result cached', { package_name: packageName, key });
   }
 
-  getDetectionResult(packageName: string, contextHints: string[]): any {
-    const key = this.createDetectionKey(packageName, contextHints);
+  getDetectionResult(packageName: string, contextHints: string[], context?: any): any {
+    const key = this.createDetectionKey(packageName, contextHints, context);
     const result = this.get(key);
     
     if (result) {
@@ -197,43 +255,122 @@ export class DetectionCache extends MemoryCache<any> {
     return result;
   }
 
-  private createDetectionKey(packageName: string, contextHints: string[]): string {
+  // Runs detect unless its result is cached. Callers get their own copies
+  // of the detections, since they mark availability on them. fresh skips
+  // the lookup but still caches the new result.
+  detect<T extends object>(
+    packageName: string,
+    contextHints: string[],
+    context: any,
+    fresh: boolean | undefined,
+    detect: () => T[]
+  ): { detections: T[]; cache: CacheStatus } {
+    const cached: T[] | undefined = fresh ? undefined : this.getDetectionResult(packageName, contextHints, context);
+    if (cached) {
+      return { detections: cached.map(detection => ({ ...detection })), cache: 'hit' };
+    }
+
+    const detections = detect();
+    this.cacheDetectionResult(packageName, contextHints, detections.map(detection => ({ ...detection })), context);
+    return { detections, cache: fresh ? 'bypass' : 'miss' };
+  }
+
+  // Other detection inputs such as a manifest go into context
+  private createDetectionKey(packageName: string, contextHints: string[], context?: any): string {
     const hintsHash = createHash('md5')
-      .update(JSON.stringify(contextHints || []))
+      .update(JSON.stringify(context === undefined ? contextHints || [] : [contextHints || [], context]))
       .digest('hex');
     return `detection:${packageName}:${hintsHash}`;
   }
 }
 
+interface CachedResponse {
+  value: any;
+  cached_at: number;
+  fresh_until: number;
+  stale_until: number;
+}
+
+export interface CachedResponseEntry {
+  value: any;
+  stale: boolean;
+  age_ms: number;
+}
+
 export class ResponseCache extends MemoryCache<any> {
   constructor() {
     super(1000, 1800000); // 1000 entries, 30 minutes TTL
   }
 
-  cacheToolResponse(manager: string, toolName: string, params: any, response: any): void {
-    const key = this.createResponseKey(manager, toolName, params);
-    this.set(key, response, 1800000); // 30 minutes
+  // Entries are served for staleWhileRevalidateMs past their TTL while they
+  // are being refreshed, and kept for retentionMs after that for offline use
+  cacheToolResponse(
+    manager: string,
+    toolName: string,
+    params: any,
+    response: any,
+    ttl: number = 1800000, // 30 minutes
+    staleWhileRevalidateMs: number = 0,
+    retentionMs: number = 0
+  ): void {
+    const key = ResponseCache.createResponseKey(manager, toolName, params);
+    const now = Date.now();
+    const entry: CachedResponse = {
+      value: response,
+      cached_at: now,
+      fresh_until: now + ttl,
+      stale_until: now + ttl + staleWhileRevalidateMs
+    };
+    this.set(key, entry, ttl + staleWhileRevalidateMs + retentionMs);
     logger.debug('Tool response cached', { manager, tool: toolName, key });
   }
 
   getToolResponse(manager: string, toolName: string, params: any): any {
-    const key = this.createResponseKey(manager, toolName, params);
-    const result = this.get(key);
-    
-    if (result) {
-      logger.debug('Tool response cache hit', { manager, tool: toolName, key });
+    const entry = this.getToolResponseEntry(manager, toolName, params);
+    return entry && !entry.stale ? entry.value : undefined;
+  }
+
+  // includeRetained also returns entries past their stale window
+  getToolResponseEntry(manager: string, toolName: string, params: any, includeRetained: boolean = false): CachedResponseEntry | undefined {
+    const key = ResponseCache.createResponseKey(manager, toolName, params);
+    const entry: CachedResponse | undefined = this.get(key);
+    const now = Date.now();
+
+    if (!entry || (!includeRetained && now > entry.stale_until)) {
+      return undefined;
     }
-    
-    return result;
+
+    const stale = now > entry.fresh_until;
+    logger.debug(`Tool response cache ${stale ? 'stale hit' : 'hit'}`, { manager, tool: toolName, key });
+    return { value: entry.value, stale, age_ms: now - entry.cached_at };
   }
 
-  private createResponseKey(manager: string, toolName: string, params: any): string {
+  // Params are normalized first, so key order and undefined values do not
+  // produce different keys for the same call
+  static createResponseKey(manager: string, toolName: string, params: any): string {
     const paramsHash = createHash('md5')
-      .update(JSON.stringify(params))
+      .update(JSON.stringify(ResponseCache.normalizeParams(params)))
       .digest('hex');
     return `response:${manager}:${toolName}:${paramsHash}`;
   }
 
+  private static normalizeParams(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => ResponseCache.normalizeParams(item));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value)
+          .filter(key => value[key] !== undefined)
+          .sort()
+          .map(key => [key, ResponseCache.normalizeParams(value[key])])
+      );
+    }
+
+    return value;
+  }
+
   invalidateManagerCache(manager: string): number {
     const pattern = new RegExp(`^response:${manager}:`);
     const deleted = this.invalidatePattern(pattern);
@@ -335,10 +472,13 @@ export class CacheManager {
     }
   }
 
-  // Graceful shutdown - clear all caches and stop cleanup
+  // Graceful shutdown - stop cleanup and clear the in-memory caches.
+  // Persisted entries are kept for the next start
   shutdown(): void {
     this.stopPeriodicCleanup();
-    this.clearAllCaches();
+    for (const cache of this.caches) {
+      cache.close();
+    }
     logger.info('Cache manager shutdown completed');
   }
 }
@@ -1,3 +1,5 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
 export enum LogLevel {
   ERROR = 0,
   WARN = 1,
@@ -13,6 +15,25 @@ interface LogEntry {
   source?: string;
 }
 
+export interface ToolCallDetails {
+  cache?: string;
+  served_from?: string;
+  error?: string;
+}
+
+// Receives the orchestration hooks logged while it is active, such as the
+// progress reporter of the tool call being handled
+export interface LogHookListener {
+  detectionCompleted(packageName: string, managers: string[]): void;
+  toolCallStarted(manager: string, toolName: string, params: any): void;
+  toolCallCompleted(manager: string, toolName: string, success: boolean, responseTime: number, details: ToolCallDetails): void;
+  orchestrationCompleted(toolName: string, success: boolean, managersSucceeded: string[]): void;
+}
+
+// Shared by every logger, so hooks logged anywhere during a tool call reach
+// that call's listener
+const hookListeners = new AsyncLocalStorage<LogHookListener | undefined>();
+
 export class Logger {
   private level: LogLevel;
   private source: string;
@@ -98,9 +119,26 @@ export class Logger {
       confidence_score: confidence,
       detection_count: detectedManagers.length
     });
+    hookListeners.getStore()?.detectionCompleted(packageName, detectedManagers.map(d => d.manager));
   }
 
-  logToolCall(manager: string, toolName: string, params: any, success: boolean, responseTime: number): void {
+  logToolCallStart(manager: string, toolName: string, params: any): void {
+    this.debug(`Tool call started: ${manager}.${toolName}`, {
+      manager,
+      tool: toolName,
+      params
+    });
+    hookListeners.getStore()?.toolCallStarted(manager, toolName, params);
+  }
+
+  logToolCall(
+    manager: string,
+    toolName: string,
+    params: any,
+    success: boolean,
+    responseTime: number,
+    details: ToolCallDetails = {}
+  ): void {
     const level = success ? LogLevel.INFO : LogLevel.WARN;
     const message = `Tool call ${success ? 'completed' : 'failed'}: ${manager}.${toolName}`;
     
@@ -109,8 +147,10 @@ export class Logger {
       tool: toolName,
       params,
       success,
-      response_time_ms: responseTime
+      response_time_ms: responseTime,
+      ...details
     });
+    hookListeners.getStore()?.toolCallCompleted(manager, toolName, success, responseTime, details);
   }
 
   logOrchestrationStart(toolName: string, params: any): void {
@@ -120,13 +160,21 @@ export class Logger {
     });
   }
 
-  logOrchestrationComplete(toolName: string, success: boolean, managersAttempted: string[], executionTime: number): void {
+  logOrchestrationComplete(
+    toolName: string,
+    success: boolean,
+    managersAttempted: string[],
+    executionTime: number,
+    managersSucceeded: string[] = []
+  ): void {
     this.info(`Orchestration completed: ${toolName}`, {
       tool: toolName,
       success,
       managers_attempted: managersAttempted,
+      managers_succeeded: managersSucceeded,
       execution_time_ms: executionTime
     });
+    hookListeners.getStore()?.orchestrationCompleted(toolName, success, managersSucceeded);
   }
 
   logConnectionEvent(manager: string, event: 'connected' | 'disconnected' | 'failed', details?: any): void {
@@ -181,6 +229,12 @@ export class Logger {
     }
   }
 
+  // Passes the hooks logged while fn runs, including in the async work it
+  // starts, to listener. Without a listener, hooks are only logged.
+  runWithHooks<T>(listener: LogHookListener | undefined, fn: () => T): T {
+    return hookListeners.run(listener, fn);
+  }
+
   // Create child logger with additional context
   child(additionalSource: string): Logger {
     return new Logger(`${this.source}:${additionalSource}`, this.level);
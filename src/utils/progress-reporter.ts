@@ -0,0 +1,101 @@
+import { ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { logger, LogHookListener, ToolCallDetails } from './logger.js';
+
+export type NotificationSender = (notification: ServerNotification) => Promise<void>;
+
+// Sends notifications/progress for one tool call whose client passed a
+// progress token. It listens to the logger's orchestration hooks while the
+// call runs: every detection, downstream call start and end advances
+// progress by one, and the orchestration completing ends it.
+export class ProgressReporter implements LogHookListener {
+  private progress = 0;
+  // Steps announced by detections that have not happened yet
+  private pending = 0;
+  private total?: number;
+  private completed = false;
+  private closed = false;
+
+  constructor(
+    private progressToken: string | number,
+    private sendNotification: NotificationSender
+  ) {}
+
+  // Returns undefined when the client did not ask for progress
+  static fromRequest(meta: { progressToken?: string | number } | undefined, sendNotification: NotificationSender): ProgressReporter | undefined {
+    return meta?.progressToken !== undefined
+      ? new ProgressReporter(meta.progressToken, sendNotification)
+      : undefined;
+  }
+
+  detectionCompleted(packageName: string, managers: string[]): void {
+    this.pending += 2 * managers.length;
+    this.report(`Detected ${Array.from(new Set(managers)).join(', ')} for ${packageName}`);
+  }
+
+  toolCallStarted(manager: string, _toolName: string, params: any): void {
+    this.pending = Math.max(0, this.pending - 1);
+    this.report(params?.package_name ? `Querying ${manager} for ${params.package_name}` : `Querying ${manager}`);
+  }
+
+  toolCallCompleted(manager: string, _toolName: string, success: boolean, responseTime: number, details: ToolCallDetails): void {
+    this.pending = Math.max(0, this.pending - 1);
+
+    if (details.cache === 'hit' || details.cache === 'stale') {
+      this.report(`${manager} answered from cache`);
+      return;
+    }
+
+    if (details.served_from === 'mirror') {
+      this.report(`${manager} answered from the README mirror`);
+      return;
+    }
+
+    this.report(success
+      ? `${manager} succeeded in ${responseTime}ms`
+      : `${manager} failed: ${details.error || 'Unknown error'}`);
+  }
+
+  // Managers that were never queried, e.g. after an early return, are
+  // skipped so the last notification reaches the total
+  orchestrationCompleted(toolName: string, success: boolean, managersSucceeded: string[]): void {
+    this.pending = 0;
+    this.completed = true;
+    this.progress = Math.max(this.progress, (this.total ?? 1) - 1);
+
+    if (managersSucceeded.length === 0) {
+      this.report(success ? `Completed ${toolName}` : `${toolName} failed`);
+    } else {
+      this.report(managersSucceeded.length === 1
+        ? `Selected result from ${managersSucceeded[0]}`
+        : `Combined results from ${managersSucceeded.join(', ')}`);
+    }
+  }
+
+  // Calls that were cancelled or detached may finish after the response
+  // was sent; their progress is dropped
+  close(): void {
+    this.closed = true;
+  }
+
+  private report(message: string): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.progress++;
+    // Until the orchestration completes, one more step is expected for it
+    this.total = Math.max(this.total ?? 0, this.progress + this.pending + (this.completed ? 0 : 1));
+
+    this.sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken: this.progressToken,
+        progress: this.progress,
+        total: this.total,
+        message
+      }
+    }).catch(error => {
+      logger.debug('Failed to send progress notification', { error: String(error) });
+    });
+  }
+}
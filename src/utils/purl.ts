@@ -0,0 +1,222 @@
+import { PackageManager, PackageUrlComponents, PurlTarget, OrchestrationResponse, OrchestrationErrorType } from '../types/index.js';
+
+const PURL_TYPE_TO_MANAGER: Record<string, PackageManager> = {
+  npm: PackageManager.NPM,
+  composer: PackageManager.COMPOSER,
+  pypi: PackageManager.PIP,
+  cargo: PackageManager.CARGO,
+  maven: PackageManager.MAVEN,
+  nuget: PackageManager.NUGET,
+  gem: PackageManager.GEM,
+  cocoapods: PackageManager.COCOAPODS,
+  conan: PackageManager.CONAN,
+  cpan: PackageManager.CPAN,
+  cran: PackageManager.CRAN,
+  docker: PackageManager.DOCKER_HUB,
+  helm: PackageManager.HELM,
+  swift: PackageManager.SWIFT,
+  vcpkg: PackageManager.VCPKG
+};
+
+const MANAGER_TO_PURL_TYPE: Record<PackageManager, string> = Object.fromEntries(
+  Object.entries(PURL_TYPE_TO_MANAGER).map(([type, manager]) => [manager, type])
+) as Record<PackageManager, string>;
+
+// Package URLs as described in https://github.com/package-url/purl-spec
+export class PackageUrl {
+  static parse(purl: string): PackageUrlComponents {
+    if (typeof purl !== 'string' || !/^pkg:/i.test(purl.trim())) {
+      throw new Error('Package URL must start with "pkg:"');
+    }
+
+    let remainder = purl.trim().slice(4).replace(/^\/+/, '');
+
+    let subpath: string | undefined;
+    const hashIndex = remainder.indexOf('#');
+    if (hashIndex !== -1) {
+      subpath = remainder.slice(hashIndex + 1).split('/').filter(Boolean).map(decodeURIComponent).join('/') || undefined;
+      remainder = remainder.slice(0, hashIndex);
+    }
+
+    let qualifiers: Record<string, string> | undefined;
+    const queryIndex = remainder.indexOf('?');
+    if (queryIndex !== -1) {
+      qualifiers = this.parseQualifiers(remainder.slice(queryIndex + 1));
+      remainder = remainder.slice(0, queryIndex);
+    }
+
+    let version: string | undefined;
+    const atIndex = remainder.lastIndexOf('@');
+    if (atIndex > remainder.lastIndexOf('/')) {
+      version = decodeURIComponent(remainder.slice(atIndex + 1)) || undefined;
+      remainder = remainder.slice(0, atIndex);
+    }
+
+    const segments = remainder.replace(/\/+$/, '').split('/').filter(Boolean);
+    if (segments.length < 2) {
+      throw new Error('Package URL must contain a type and a name');
+    }
+
+    const type = segments[0].toLowerCase();
+    if (!/^[a-z.+-][a-z0-9.+-]*$/.test(type)) {
+      throw new Error(`Invalid package URL type: ${segments[0]}`);
+    }
+
+    const name = decodeURIComponent(segments[segments.length - 1]);
+    const namespace = segments.slice(1, -1).map(decodeURIComponent).join('/') || undefined;
+
+    return this.normalize({ type, namespace, name, version, qualifiers, subpath });
+  }
+
+  static format(components: PackageUrlComponents): string {
+    const { type, namespace, name, version, qualifiers, subpath } = this.normalize(components);
+
+    let purl = `pkg:${type}/`;
+    if (namespace) {
+      purl += namespace.split('/').map(segment => this.encode(segment)).join('/') + '/';
+    }
+    purl += this.encode(name);
+
+    if (version) {
+      purl += `@${this.encode(version)}`;
+    }
+
+    const qualifierKeys = Object.keys(qualifiers || {}).filter(key => qualifiers![key]).sort();
+    if (qualifierKeys.length > 0) {
+      purl += '?' + qualifierKeys.map(key => `${key}=${this.encode(qualifiers![key])}`).join('&');
+    }
+
+    if (subpath) {
+      purl += '#' + subpath.split('/').map(segment => this.encode(segment)).join('/');
+    }
+
+    return purl;
+  }
+
+  static toManager(type: string): PackageManager | null {
+    return PURL_TYPE_TO_MANAGER[type.toLowerCase()] || null;
+  }
+
+  static fromManager(manager: PackageManager): string {
+    return MANAGER_TO_PURL_TYPE[manager];
+  }
+
+  static resolve(purl: string): PurlTarget {
+    const components = this.parse(purl);
+    const manager = this.toManager(components.type);
+    if (!manager) {
+      throw new Error(`Unsupported package URL type: ${components.type}`);
+    }
+
+    return {
+      manager,
+      package_name: this.toPackageName(manager, components),
+      version: components.version,
+      purl: this.format(components)
+    };
+  }
+
+  // Resolves the purl argument of a tool call. For an invalid purl it returns
+  // the error response the tool should answer with.
+  static resolveParam(
+    purl: string | undefined,
+    startTime: number
+  ): { target: PurlTarget | null } | { errorResponse: OrchestrationResponse<never> } {
+    if (!purl) {
+      return { target: null };
+    }
+
+    try {
+      return { target: this.resolve(purl) };
+    } catch (error) {
+      return {
+        errorResponse: {
+          success: false,
+          errors: [{
+            error_type: OrchestrationErrorType.INVALID_PACKAGE_NAME,
+            message: `Invalid package URL: ${error instanceof Error ? error.message : String(error)}`,
+            details: { purl }
+          }],
+          metadata: {
+            execution_time: Date.now() - startTime,
+            managers_attempted: [],
+            managers_succeeded: [],
+            detection_confidence: 0
+          }
+        }
+      };
+    }
+  }
+
+  static fromPackage(manager: PackageManager, packageName: string, version?: string): string | null {
+    const type = this.fromManager(manager);
+    if (!type || !packageName) {
+      return null;
+    }
+
+    let namespace: string | undefined;
+    let name = packageName;
+
+    if (manager === PackageManager.MAVEN && packageName.includes(':')) {
+      [namespace, name] = packageName.split(':');
+    } else if (packageName.includes('/')) {
+      const slashIndex = packageName.lastIndexOf('/');
+      namespace = packageName.slice(0, slashIndex);
+      name = packageName.slice(slashIndex + 1);
+    }
+
+    return this.format({ type, namespace, name, version });
+  }
+
+  // Maps purl namespace and name onto the package name each manager's server expects
+  private static toPackageName(manager: PackageManager, components: PackageUrlComponents): string {
+    const { namespace, name } = components;
+
+    switch (manager) {
+      case PackageManager.MAVEN:
+        return namespace ? `${namespace}:${name}` : name;
+      case PackageManager.DOCKER_HUB:
+        // Official images live in the implicit "library" namespace
+        return namespace && namespace !== 'library' ? `${namespace}/${name}` : name;
+      default:
+        return namespace ? `${namespace}/${name}` : name;
+    }
+  }
+
+  private static normalize(components: PackageUrlComponents): PackageUrlComponents {
+    const type = components.type.toLowerCase();
+    let namespace = components.namespace;
+    let name = components.name;
+
+    // Type-specific rules from the purl specification
+    if (type === 'pypi') {
+      name = name.toLowerCase().replace(/_/g, '-');
+    }
+    if (['composer', 'github', 'bitbucket'].includes(type)) {
+      namespace = namespace?.toLowerCase();
+      name = name.toLowerCase();
+    }
+
+    return { ...components, type, namespace, name };
+  }
+
+  private static parseQualifiers(query: string): Record<string, string> | undefined {
+    const qualifiers: Record<string, string> = {};
+
+    for (const pair of query.split('&')) {
+      const equalsIndex = pair.indexOf('=');
+      if (equalsIndex <= 0) continue;
+
+      const value = decodeURIComponent(pair.slice(equalsIndex + 1));
+      if (value) {
+        qualifiers[pair.slice(0, equalsIndex).toLowerCase()] = value;
+      }
+    }
+
+    return Object.keys(qualifiers).length > 0 ? qualifiers : undefined;
+  }
+
+  private static encode(value: string): string {
+    return encodeURIComponent(value).replace(/%3A/gi, ':');
+  }
+}
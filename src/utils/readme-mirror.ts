@@ -0,0 +1,69 @@
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join, resolve, sep } from 'path';
+import { PackageManager } from '../types/index.js';
+
+export interface MirroredReadme {
+  package_name: string;
+  version?: string;
+  readme_content: string;
+  path: string;
+  age_ms: number;
+}
+
+const README_FILE_PATTERN = /^readme(\.(md|markdown|rst|txt))?$/i;
+
+// Local README mirror used in offline mode. READMEs are looked up at
+// <directory>/<manager>/<package_name>/<version>/README.md, then at
+// <directory>/<manager>/<package_name>/README.md. Scoped names such as
+// @types/node simply nest one level deeper.
+export class ReadmeMirror {
+  private root: string;
+
+  constructor(directory: string) {
+    this.root = resolve(directory);
+  }
+
+  find(manager: PackageManager, packageName: string, version?: string): MirroredReadme | undefined {
+    const candidates = version && version !== 'latest'
+      ? [[manager, packageName, version], [manager, packageName]]
+      : [[manager, packageName]];
+
+    for (const segments of candidates) {
+      const directory = this.resolveInside(segments);
+      const filePath = directory && this.findReadmeFile(directory);
+      if (filePath) {
+        return {
+          package_name: packageName,
+          version: segments.length === 3 ? version : undefined,
+          readme_content: readFileSync(filePath, 'utf-8'),
+          path: filePath,
+          age_ms: Math.max(0, Date.now() - statSync(filePath).mtimeMs)
+        };
+      }
+    }
+
+    return undefined;
+  }
+
+  // Package names and versions come from requests, so they must not
+  // point outside the mirror
+  private resolveInside(segments: string[]): string | undefined {
+    if (segments.some(segment => segment.split('/').some(part => part === '..' || part === '.' || part === ''))) {
+      return undefined;
+    }
+
+    const directory = resolve(this.root, ...segments);
+    return directory.startsWith(this.root + sep) ? directory : undefined;
+  }
+
+  private findReadmeFile(directory: string): string | undefined {
+    try {
+      const fileName = readdirSync(directory)
+        .filter(name => README_FILE_PATTERN.test(name))
+        .sort()[0];
+      return fileName ? join(directory, fileName) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import { ParsedReadme, ReadmeSection, ReadmeSelection, ReadmeTocEntry, ReadmeCodeExample } from '../types/index.js';
+import { SimilarityCalculator } from './similarity.js';
+
+interface Heading {
+  title: string;
+  level: number;
+  line: number;
+}
+
+interface Fence {
+  marker: string;
+  language?: string;
+  start: number;
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const ATX_HEADING_PATTERN = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*$/;
+
+// Splits README markdown into a heading tree. Headings inside fenced code
+// blocks are ignored; both ATX (#) and setext (===, ---) headings are read.
+export class ReadmeParser {
+  static parse(markdown: string): ParsedReadme {
+    const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+    const headings = this.findHeadings(lines);
+
+    const sections: ReadmeSection[] = [];
+    const stack: Array<{ section: ReadmeSection; heading: Heading }> = [];
+
+    headings.forEach((heading, index) => {
+      // A section runs until the next heading of the same or a higher level
+      const next = headings.slice(index + 1).find(candidate => candidate.level <= heading.level);
+      const section: ReadmeSection = {
+        title: heading.title,
+        level: heading.level,
+        content: lines.slice(heading.line, next ? next.line : lines.length).join('\n').trim(),
+        children: []
+      };
+
+      while (stack.length > 0 && stack[stack.length - 1].heading.level >= heading.level) {
+        stack.pop();
+      }
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].section.children.push(section);
+      } else {
+        sections.push(section);
+      }
+      stack.push({ section, heading });
+    });
+
+    return {
+      preamble: lines.slice(0, headings.length > 0 ? headings[0].line : lines.length).join('\n').trim(),
+      sections
+    };
+  }
+
+  // Returns the sections whose titles match any of the requested names,
+  // together with the headings that were left out
+  static selectSections(markdown: string, requested: string[]): ReadmeSelection {
+    const { sections } = this.parse(markdown);
+    const selected: ReadmeSection[] = [];
+    const omitted: ReadmeTocEntry[] = [];
+
+    const visit = (section: ReadmeSection) => {
+      if (requested.some(request => this.matchesTitle(section.title, request))) {
+        selected.push(section);
+        return;
+      }
+
+      omitted.push({ title: section.title, level: section.level });
+      section.children.forEach(visit);
+    };
+    sections.forEach(visit);
+
+    return {
+      content: selected.map(section => section.content).join('\n\n'),
+      matched_sections: selected.map(section => section.title),
+      omitted_sections: omitted
+    };
+  }
+
+  // Every word of the request has to match a word of the title, so
+  // "Usage" matches "Basic usage" and "Installation" matches "Install"
+  static matchesTitle(title: string, request: string): boolean {
+    const titleWords = this.normalizeWords(title);
+    const requestWords = this.normalizeWords(request);
+    if (titleWords.length === 0 || requestWords.length === 0) {
+      return false;
+    }
+
+    return requestWords.every(requestWord => titleWords.some(titleWord => this.wordsMatch(titleWord, requestWord)));
+  }
+
+  static extractCodeBlocks(markdown: string): ReadmeCodeExample[] {
+    const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+    const headings = this.findHeadings(lines);
+    const examples: ReadmeCodeExample[] = [];
+
+    this.forEachFence(lines, (fence, end) => {
+      const code = lines.slice(fence.start + 1, end).join('\n');
+      if (!code.trim()) return;
+
+      const heading = [...headings].reverse().find(candidate => candidate.line < fence.start);
+      examples.push({
+        title: heading?.title,
+        language: fence.language || undefined,
+        code
+      });
+    });
+
+    return examples;
+  }
+
+  static stripCodeBlocks(markdown: string): string {
+    const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+    const removed = new Set<number>();
+
+    this.forEachFence(lines, (fence, end) => {
+      for (let line = fence.start; line <= end; line++) {
+        removed.add(line);
+      }
+    });
+
+    return lines
+      .filter((_, index) => !removed.has(index))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n');
+  }
+
+  private static findHeadings(lines: string[]): Heading[] {
+    const headings: Heading[] = [];
+    const inFence = new Set<number>();
+    this.forEachFence(lines, (fence, end) => {
+      for (let line = fence.start; line <= end; line++) {
+        inFence.add(line);
+      }
+    });
+
+    for (let index = 0; index < lines.length; index++) {
+      if (inFence.has(index)) continue;
+      const line = lines[index];
+
+      const atx = ATX_HEADING_PATTERN.exec(line);
+      if (atx) {
+        const title = this.cleanTitle((atx[2] || '').replace(/\s+#+$/, ''));
+        if (title) {
+          headings.push({ title, level: atx[1].length, line: index });
+        }
+        continue;
+      }
+
+      // Setext headings underline a single paragraph line
+      const underline = lines[index + 1];
+      const isFirstLine = index === 0 || !lines[index - 1].trim();
+      if (
+        underline !== undefined &&
+        !inFence.has(index + 1) &&
+        isFirstLine &&
+        line.trim() &&
+        !/^\s*([-*+>]|\d+\.)\s/.test(line) &&
+        /^ {0,3}(=+|-+)\s*$/.test(underline)
+      ) {
+        const title = this.cleanTitle(line);
+        if (title) {
+          headings.push({ title, level: underline.trim().startsWith('=') ? 1 : 2, line: index });
+          index++;
+        }
+      }
+    }
+
+    return headings;
+  }
+
+  // Calls back with each fenced code block and the line index of its closing fence
+  private static forEachFence(lines: string[], callback: (fence: Fence, end: number) => void): void {
+    let open: Fence | null = null;
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index];
+      if (!open) {
+        const match = FENCE_PATTERN.exec(line);
+        if (match) {
+          open = { marker: match[1], language: match[2] || undefined, start: index };
+        }
+        continue;
+      }
+
+      const closing = /^ {0,3}(`{3,}|~{3,})\s*$/.exec(line);
+      if (closing && closing[1][0] === open.marker[0] && closing[1].length >= open.marker.length) {
+        callback(open, index);
+        open = null;
+      }
+    }
+
+    // An unclosed fence runs to the end of the document
+    if (open) {
+      callback(open, lines.length - 1);
+    }
+  }
+
+  private static cleanTitle(title: string): string {
+    return title
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/<[^>]+>/g, '')
+      .replace(/[`*_]/g, '')
+      .trim();
+  }
+
+  private static normalizeWords(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+  }
+
+  private static wordsMatch(titleWord: string, requestWord: string): boolean {
+    if (titleWord === requestWord) return true;
+    // Short words such as "api" or "use" only match exactly
+    if (Math.min(titleWord.length, requestWord.length) < 4) return false;
+    if (titleWord.startsWith(requestWord) || requestWord.startsWith(titleWord)) return true;
+
+    return SimilarityCalculator.calculateSimilarityScore(titleWord, requestWord) >= 0.8;
+  }
+}
@@ -15,6 +15,42 @@ export class SimilarityCalculator {
     return Math.max(0, 1 - (distance / maxLength));
   }
 
+  // Words that say nothing about what a package does
+  private static readonly STOP_WORDS = new Set([
+    'a', 'an', 'and', 'for', 'the', 'with', 'from', 'into', 'that', 'this', 'your', 'you',
+    'are', 'was', 'can', 'all', 'any', 'its', 'via', 'using', 'use', 'used', 'based',
+    'simple', 'fast', 'small', 'tiny', 'lightweight', 'easy', 'library', 'package', 'module',
+    'framework', 'tool', 'tools', 'official', 'written'
+  ]);
+
+  // ignoredWords drops caller-specific vocabulary on top of the stop words
+  static tokenize(text: string | undefined, ignoredWords: ReadonlySet<string> = new Set()): string[] {
+    if (!text) return [];
+
+    const tokens = text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length >= 3 && !this.STOP_WORDS.has(token) && !ignoredWords.has(token));
+
+    return Array.from(new Set(tokens));
+  }
+
+  static jaccardSimilarity(first: string[], second: string[]): number {
+    if (first.length === 0 || second.length === 0) return 0;
+
+    const firstSet = new Set(first);
+    const secondSet = new Set(second);
+    const intersection = Array.from(firstSet).filter(token => secondSet.has(token)).length;
+    const union = new Set([...firstSet, ...secondSet]).size;
+
+    return intersection / union;
+  }
+
+  static sharedTokens(first: string[], second: string[]): string[] {
+    const secondSet = new Set(second);
+    return Array.from(new Set(first)).filter(token => secondSet.has(token));
+  }
+
   private static levenshteinDistance(str1: string, str2: string): number {
     if (str1.length === 0) return str2.length;
     if (str2.length === 0) return str1.length;
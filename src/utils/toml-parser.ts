@@ -0,0 +1,307 @@
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+// Minimal TOML reader covering what package manifests and lockfiles use:
+// tables, arrays of tables, dotted keys, strings, numbers, booleans,
+// (multi-line) arrays and inline tables. Dates are returned as strings.
+export class TomlParser {
+  private pos = 0;
+  private root: TomlTable = {};
+  private current: TomlTable = this.root;
+
+  private constructor(private input: string) {}
+
+  static parse(input: string): TomlTable {
+    return new TomlParser(input.replace(/\r\n/g, '\n')).parseDocument();
+  }
+
+  private parseDocument(): TomlTable {
+    while (this.pos < this.input.length) {
+      this.skipWhitespaceAndComments(true);
+      if (this.pos >= this.input.length) break;
+
+      const char = this.input[this.pos];
+      if (char === '[') {
+        this.parseTableHeader();
+      } else {
+        const keys = this.parseKey();
+        this.skipInlineWhitespace();
+        this.expect('=');
+        this.skipInlineWhitespace();
+        const value = this.parseValue();
+        this.assignDotted(this.current, keys, value);
+      }
+
+      this.skipInlineWhitespace();
+      this.skipComment();
+      if (this.pos < this.input.length && this.input[this.pos] !== '\n') {
+        throw this.error('Expected end of line');
+      }
+    }
+
+    return this.root;
+  }
+
+  private parseTableHeader(): void {
+    const isArray = this.input.startsWith('[[', this.pos);
+    this.pos += isArray ? 2 : 1;
+    this.skipInlineWhitespace();
+    const keys = this.parseKey();
+    this.skipInlineWhitespace();
+    this.expect(']');
+    if (isArray) this.expect(']');
+
+    let table = this.root;
+    for (let i = 0; i < keys.length - 1; i++) {
+      table = this.descend(table, keys[i]);
+    }
+
+    const lastKey = keys[keys.length - 1];
+    if (isArray) {
+      const existing = table[lastKey];
+      const list = Array.isArray(existing) ? existing : [];
+      const entry: TomlTable = {};
+      list.push(entry);
+      table[lastKey] = list;
+      this.current = entry;
+    } else {
+      this.current = this.descend(table, lastKey);
+    }
+  }
+
+  // Walk into a sub-table, following the last element of arrays of tables
+  private descend(table: TomlTable, key: string): TomlTable {
+    const existing = table[key];
+    if (Array.isArray(existing)) {
+      const last = existing[existing.length - 1];
+      if (last && typeof last === 'object' && !Array.isArray(last)) {
+        return last as TomlTable;
+      }
+      throw this.error(`Key "${key}" is not a table`);
+    }
+    if (existing === undefined) {
+      const created: TomlTable = {};
+      table[key] = created;
+      return created;
+    }
+    if (typeof existing === 'object') {
+      return existing as TomlTable;
+    }
+    throw this.error(`Key "${key}" is not a table`);
+  }
+
+  private assignDotted(table: TomlTable, keys: string[], value: TomlValue): void {
+    let target = table;
+    for (let i = 0; i < keys.length - 1; i++) {
+      target = this.descend(target, keys[i]);
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+
+  private parseKey(): string[] {
+    const keys: string[] = [];
+
+    while (true) {
+      this.skipInlineWhitespace();
+      const char = this.input[this.pos];
+      if (char === '"' || char === '\'') {
+        keys.push(this.parseString());
+      } else {
+        const match = /^[A-Za-z0-9_-]+/.exec(this.input.slice(this.pos));
+        if (!match) throw this.error('Invalid key');
+        keys.push(match[0]);
+        this.pos += match[0].length;
+      }
+
+      this.skipInlineWhitespace();
+      if (this.input[this.pos] !== '.') break;
+      this.pos++;
+    }
+
+    return keys;
+  }
+
+  private parseValue(): TomlValue {
+    const char = this.input[this.pos];
+
+    if (char === '"' || char === '\'') return this.parseString();
+    if (char === '[') return this.parseArray();
+    if (char === '{') return this.parseInlineTable();
+
+    const rest = this.input.slice(this.pos);
+    const literal = /^[^\s,\]}#]+/.exec(rest);
+    if (!literal) throw this.error('Expected a value');
+
+    // Dates and times may contain a single space between date and time
+    const dateTime = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?/.exec(rest);
+    const token = dateTime ? dateTime[0] : literal[0];
+    this.pos += token.length;
+
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (/^[+-]?(\d[\d_]*)(\.\d[\d_]*)?([eE][+-]?\d+)?$/.test(token)) {
+      return Number(token.replace(/_/g, ''));
+    }
+    return token;
+  }
+
+  private parseString(): string {
+    const quote = this.input[this.pos];
+    const multiline = this.input.startsWith(quote.repeat(3), this.pos);
+    const delimiter = multiline ? quote.repeat(3) : quote;
+    this.pos += delimiter.length;
+
+    // A newline right after the opening delimiter is trimmed
+    if (multiline && this.input[this.pos] === '\n') this.pos++;
+
+    let result = '';
+    while (this.pos < this.input.length) {
+      if (this.input.startsWith(delimiter, this.pos)) {
+        // Up to two quotes may directly precede a multi-line closing delimiter
+        let extraQuotes = 0;
+        while (multiline && extraQuotes < 2 && this.input[this.pos + delimiter.length + extraQuotes] === quote) {
+          extraQuotes++;
+        }
+        this.pos += delimiter.length + extraQuotes;
+        return result + quote.repeat(extraQuotes);
+      }
+
+      const char = this.input[this.pos];
+      if (char === '\n' && !multiline) break;
+
+      if (char === '\\' && quote === '"') {
+        result += this.parseEscape(multiline);
+        continue;
+      }
+
+      result += char;
+      this.pos++;
+    }
+
+    throw this.error('Unterminated string');
+  }
+
+  private parseEscape(multiline: boolean): string {
+    const next = this.input[this.pos + 1];
+    this.pos += 2;
+
+    switch (next) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case '"': return '"';
+      case '\\': return '\\';
+      case 'u':
+      case 'U': {
+        const length = next === 'u' ? 4 : 8;
+        const hex = this.input.slice(this.pos, this.pos + length);
+        this.pos += length;
+        return String.fromCodePoint(parseInt(hex, 16));
+      }
+      case '\n':
+        if (multiline) {
+          // Line-ending backslash trims the newline and following whitespace
+          while (/\s/.test(this.input[this.pos] || '')) this.pos++;
+          return '';
+        }
+        break;
+    }
+
+    throw this.error(`Invalid escape sequence \\${next}`);
+  }
+
+  private parseArray(): TomlValue[] {
+    this.expect('[');
+    const values: TomlValue[] = [];
+
+    while (true) {
+      this.skipWhitespaceAndComments(true);
+      if (this.input[this.pos] === ']') {
+        this.pos++;
+        return values;
+      }
+
+      values.push(this.parseValue());
+      this.skipWhitespaceAndComments(true);
+
+      if (this.input[this.pos] === ',') {
+        this.pos++;
+      } else if (this.input[this.pos] !== ']') {
+        throw this.error('Expected "," or "]" in array');
+      }
+    }
+  }
+
+  private parseInlineTable(): TomlTable {
+    this.expect('{');
+    const table: TomlTable = {};
+
+    this.skipInlineWhitespace();
+    if (this.input[this.pos] === '}') {
+      this.pos++;
+      return table;
+    }
+
+    while (true) {
+      const keys = this.parseKey();
+      this.skipInlineWhitespace();
+      this.expect('=');
+      this.skipInlineWhitespace();
+      this.assignDotted(table, keys, this.parseValue());
+      this.skipInlineWhitespace();
+
+      if (this.input[this.pos] === ',') {
+        this.pos++;
+      } else if (this.input[this.pos] === '}') {
+        this.pos++;
+        return table;
+      } else {
+        throw this.error('Expected "," or "}" in inline table');
+      }
+    }
+  }
+
+  private skipInlineWhitespace(): void {
+    while (this.input[this.pos] === ' ' || this.input[this.pos] === '\t') {
+      this.pos++;
+    }
+  }
+
+  private skipComment(): void {
+    if (this.input[this.pos] === '#') {
+      while (this.pos < this.input.length && this.input[this.pos] !== '\n') {
+        this.pos++;
+      }
+    }
+  }
+
+  private skipWhitespaceAndComments(includeNewlines: boolean): void {
+    while (this.pos < this.input.length) {
+      const char = this.input[this.pos];
+      if (char === ' ' || char === '\t' || (includeNewlines && char === '\n')) {
+        this.pos++;
+      } else if (char === '#') {
+        this.skipComment();
+      } else {
+        break;
+      }
+    }
+  }
+
+  private expect(char: string): void {
+    if (this.input[this.pos] !== char) {
+      throw this.error(`Expected "${char}"`);
+    }
+    this.pos++;
+  }
+
+  private error(message: string): Error {
+    const line = this.input.slice(0, this.pos).split('\n').length;
+    return new Error(`TOML parse error at line ${line}: ${message}`);
+  }
+}
@@ -0,0 +1,45 @@
+// Downstream servers answer with MCP content blocks, usually a single text
+// block holding JSON. This turns such a result back into plain data.
+export class ToolResultParser {
+  static parse(result: any): any {
+    const content = Array.isArray(result) ? result : result?.content;
+    if (!Array.isArray(content)) {
+      return result;
+    }
+
+    for (const block of content) {
+      if (block?.type !== 'text' || typeof block.text !== 'string') continue;
+
+      try {
+        return JSON.parse(block.text);
+      } catch (error) {
+        return { text: block.text };
+      }
+    }
+
+    return result;
+  }
+
+  // Dependencies arrive either as a name -> version map or as a list of
+  // { name, version } entries
+  static extractDependencies(data: any, field: string = 'dependencies'): Record<string, string> {
+    const value = data?.[field];
+    const dependencies: Record<string, string> = {};
+
+    if (Array.isArray(value)) {
+      for (const entry of value) {
+        if (typeof entry === 'string') {
+          dependencies[entry] = '*';
+        } else if (typeof entry?.name === 'string') {
+          dependencies[entry.name] = String(entry.version || entry.requirement || entry.spec || '*');
+        }
+      }
+    } else if (value && typeof value === 'object') {
+      for (const [name, spec] of Object.entries(value)) {
+        dependencies[name] = typeof spec === 'string' ? spec : '*';
+      }
+    }
+
+    return dependencies;
+  }
+}
@@ -1,6 +1,7 @@
-import { PackageManager } from '../types/index.js';
+import { PackageManager, ProjectFile, ResponseFormat } from '../types/index.js';
 import { logger } from './logger.js';
 import { settingsLoader } from '../config/settings-loader.js';
+import { PackageUrl } from './purl.js';
 
 export interface ValidationResult<T = any> {
   valid: boolean;
@@ -50,6 +51,50 @@ export class Validators {
     return { valid: errors.length === 0, errors };
   }
 
+  static validatePurl(purl: any): ValidationResult<string> {
+    const errors: string[] = [];
+
+    if (purl === undefined) {
+      return { valid: true, errors: [], sanitized: undefined };
+    }
+
+    if (typeof purl !== 'string') {
+      errors.push('Package URL must be a string');
+      return { valid: false, errors };
+    }
+
+    const blockedPatterns = ['<script>', 'javascript:', '\0'];
+    for (const pattern of blockedPatterns) {
+      if (purl.includes(pattern)) {
+        errors.push(`Package URL contains blocked pattern: ${pattern}`);
+      }
+    }
+
+    try {
+      // The resolved name and version reach downstream servers like any other
+      const target = PackageUrl.resolve(purl);
+      // Maven joins group and artifact with ":", which package names may not contain
+      const nameParts = target.manager === PackageManager.MAVEN ? target.package_name.split(':') : [target.package_name];
+      for (const part of nameParts) {
+        errors.push(...this.validatePackageName(part).errors);
+      }
+      errors.push(...this.validateVersion(target.version).errors);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    return { valid: errors.length === 0, errors, sanitized: purl.trim() };
+  }
+
+  // A purl takes the place of package_name; one of the two is required
+  static validatePackageTarget(params: any): ValidationResult {
+    if (params.purl !== undefined) {
+      return this.validatePurl(params.purl);
+    }
+
+    return this.validatePackageName(params.package_name);
+  }
+
   static validateContextHints(contextHints: any): ValidationResult<string[]> {
     const errors: string[] = [];
     const settings = settingsLoader.getSettings();
@@ -193,27 +238,122 @@ export class Validators {
     return { valid: true, errors: [], sanitized: value };
   }
 
+  static validateFresh(fresh: any): ValidationResult<boolean> {
+    const validation = this.validateBoolean(fresh, false);
+    return validation.valid ? validation : { valid: false, errors: ['Fresh must be a boolean'] };
+  }
+
+  static validateSections(sections: any): ValidationResult<string[]> {
+    const errors: string[] = [];
+
+    if (sections === undefined) {
+      return { valid: true, errors: [], sanitized: undefined };
+    }
+
+    if (!Array.isArray(sections)) {
+      errors.push('Sections must be an array');
+      return { valid: false, errors };
+    }
+
+    if (sections.length > 20) {
+      errors.push('Too many sections (max 20)');
+    }
+
+    const validSections: string[] = [];
+    for (const section of sections) {
+      if (typeof section !== 'string' || !section.trim()) {
+        errors.push('Each section must be a non-empty string');
+      } else if (section.length > 100) {
+        errors.push('Section name too long (max 100 characters)');
+      } else {
+        validSections.push(section.trim());
+      }
+    }
+
+    return { valid: errors.length === 0, errors, sanitized: validSections };
+  }
+
+  static validateResponseFormat(format: any): ValidationResult<ResponseFormat> {
+    const formats: ResponseFormat[] = ['json', 'markdown', 'both'];
+
+    if (format === undefined) {
+      return { valid: true, errors: [], sanitized: 'markdown' };
+    }
+
+    if (!formats.includes(format)) {
+      return { valid: false, errors: [`Response format must be one of: ${formats.join(', ')}`] };
+    }
+
+    return { valid: true, errors: [], sanitized: format };
+  }
+
+  static validateProjectFile(
+    file: any,
+    label: string = 'Manifest',
+    maxLength: number = settingsLoader.getSettings().validation_rules.max_manifest_length
+  ): ValidationResult<ProjectFile> {
+    const errors: string[] = [];
+
+    if (file === undefined) {
+      return { valid: true, errors: [], sanitized: undefined };
+    }
+
+    if (!file || typeof file !== 'object' || Array.isArray(file)) {
+      errors.push(`${label} must be an object with filename and content`);
+      return { valid: false, errors };
+    }
+
+    if (typeof file.filename !== 'string' || file.filename.trim().length === 0) {
+      errors.push(`${label} filename must be a non-empty string`);
+    }
+
+    if (typeof file.content !== 'string') {
+      errors.push(`${label} content must be a string`);
+    } else if (file.content.length > maxLength) {
+      errors.push(`${label} content too long (max ${maxLength} characters)`);
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      sanitized: errors.length === 0 ? { filename: file.filename.trim(), content: file.content } : undefined
+    };
+  }
+
   static validateSmartPackageSearchParams(params: any): ValidationResult {
     const errors: string[] = [];
     
-    const packageNameValidation = this.validatePackageName(params.package_name);
-    if (!packageNameValidation.valid) {
-      errors.push(...packageNameValidation.errors);
+    const targetValidation = this.validatePackageTarget(params);
+    if (!targetValidation.valid) {
+      errors.push(...targetValidation.errors);
     }
 
     const contextHintsValidation = this.validateContextHints(params.context_hints);
     const preferredManagersValidation = this.validatePreferredManagers(params.preferred_managers);
     const limitValidation = this.validateLimit(params.limit);
+    const manifestValidation = this.validateProjectFile(params.manifest);
+    const freshValidation = this.validateFresh(params.fresh);
 
     if (!limitValidation.valid) {
       errors.push(...limitValidation.errors);
     }
 
+    if (!freshValidation.valid) {
+      errors.push(...freshValidation.errors);
+    }
+
+    if (!manifestValidation.valid) {
+      errors.push(...manifestValidation.errors);
+    }
+
     const validatedParams = {
       package_name: params.package_name,
+      purl: params.purl !== undefined ? targetValidation.sanitized : undefined,
       context_hints: contextHintsValidation.sanitized || [],
       preferred_managers: preferredManagersValidation.sanitized || [],
-      limit: limitValidation.sanitized || 10
+      manifest: manifestValidation.sanitized,
+      limit: limitValidation.sanitized || 10,
+      fresh: freshValidation.sanitized
     };
 
     return {
@@ -226,20 +366,172 @@ export class Validators {
   static validateSmartPackageInfoParams(params: any): ValidationResult {
     const errors: string[] = [];
     
-    const packageNameValidation = this.validatePackageName(params.package_name);
-    if (!packageNameValidation.valid) {
-      errors.push(...packageNameValidation.errors);
+    const targetValidation = this.validatePackageTarget(params);
+    if (!targetValidation.valid) {
+      errors.push(...targetValidation.errors);
     }
 
     const contextHintsValidation = this.validateContextHints(params.context_hints);
     const preferredManagersValidation = this.validatePreferredManagers(params.preferred_managers);
     const dependenciesValidation = this.validateBoolean(params.include_dependencies, true);
+    const manifestValidation = this.validateProjectFile(params.manifest);
+    const freshValidation = this.validateFresh(params.fresh);
+
+    if (!manifestValidation.valid) {
+      errors.push(...manifestValidation.errors);
+    }
+
+    if (!freshValidation.valid) {
+      errors.push(...freshValidation.errors);
+    }
 
     const validatedParams = {
       package_name: params.package_name,
+      purl: params.purl !== undefined ? targetValidation.sanitized : undefined,
       context_hints: contextHintsValidation.sanitized || [],
       preferred_managers: preferredManagersValidation.sanitized || [],
-      include_dependencies: dependenciesValidation.sanitized
+      manifest: manifestValidation.sanitized,
+      include_dependencies: dependenciesValidation.sanitized,
+      fresh: freshValidation.sanitized
+    };
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      validatedParams: validatedParams
+    };
+  }
+
+  // Individual package specs are validated per item by the batch tool, so
+  // one bad entry does not fail the whole batch
+  static validateSmartPackageInfoBatchParams(params: any): ValidationResult {
+    const errors: string[] = [];
+    const settings = settingsLoader.getSettings();
+
+    if (!Array.isArray(params.packages)) {
+      errors.push('Packages must be an array');
+    } else if (params.packages.length === 0) {
+      errors.push('Packages cannot be empty');
+    } else if (params.packages.length > settings.validation_rules.max_batch_size) {
+      errors.push(`Too many packages (max ${settings.validation_rules.max_batch_size})`);
+    } else if (params.packages.some((spec: any) => !spec || typeof spec !== 'object' || Array.isArray(spec))) {
+      errors.push('Each package must be an object');
+    }
+
+    const contextHintsValidation = this.validateContextHints(params.context_hints);
+    const dependenciesValidation = this.validateBoolean(params.include_dependencies, true);
+    const manifestValidation = this.validateProjectFile(params.manifest);
+    const freshValidation = this.validateFresh(params.fresh);
+
+    if (!manifestValidation.valid) {
+      errors.push(...manifestValidation.errors);
+    }
+
+    if (!freshValidation.valid) {
+      errors.push(...freshValidation.errors);
+    }
+
+    const validatedParams = {
+      packages: params.packages,
+      context_hints: contextHintsValidation.sanitized || [],
+      manifest: manifestValidation.sanitized,
+      include_dependencies: dependenciesValidation.sanitized,
+      fresh: freshValidation.sanitized
+    };
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      validatedParams: validatedParams
+    };
+  }
+
+  static validateResolveDependencyTreeParams(params: any): ValidationResult {
+    const errors: string[] = [];
+    const settings = settingsLoader.getSettings();
+
+    const targetValidation = this.validatePackageTarget(params);
+    if (!targetValidation.valid) {
+      errors.push(...targetValidation.errors);
+    }
+
+    const versionValidation = this.validateVersion(params.version);
+    if (!versionValidation.valid) {
+      errors.push(...versionValidation.errors);
+    }
+
+    if (params.manager !== undefined && !Object.values(PackageManager).includes(params.manager)) {
+      errors.push(`Unknown package manager: ${params.manager}`);
+    }
+
+    if (params.max_depth !== undefined) {
+      if (typeof params.max_depth !== 'number' || !Number.isInteger(params.max_depth)) {
+        errors.push('Max depth must be an integer');
+      } else if (params.max_depth < 0 || params.max_depth > settings.validation_rules.max_tree_depth) {
+        errors.push(`Max depth must be between 0 and ${settings.validation_rules.max_tree_depth}`);
+      }
+    }
+
+    const contextHintsValidation = this.validateContextHints(params.context_hints);
+    const devDependenciesValidation = this.validateBoolean(params.include_dev_dependencies, false);
+    const manifestValidation = this.validateProjectFile(params.manifest);
+
+    if (!manifestValidation.valid) {
+      errors.push(...manifestValidation.errors);
+    }
+
+    const validatedParams = {
+      package_name: params.package_name,
+      purl: params.purl !== undefined ? targetValidation.sanitized : undefined,
+      version: versionValidation.sanitized,
+      manager: params.manager,
+      context_hints: contextHintsValidation.sanitized || [],
+      manifest: manifestValidation.sanitized,
+      max_depth: params.max_depth,
+      include_dev_dependencies: devDependenciesValidation.sanitized
+    };
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      validatedParams: validatedParams
+    };
+  }
+
+  static validateFindEquivalentPackagesParams(params: any): ValidationResult {
+    const errors: string[] = [];
+
+    const targetValidation = this.validatePackageTarget(params);
+    if (!targetValidation.valid) {
+      errors.push(...targetValidation.errors);
+    }
+
+    const managerNames = Object.values(PackageManager) as string[];
+    if (params.manager !== undefined && !managerNames.includes(params.manager)) {
+      errors.push(`Unknown package manager: ${params.manager}`);
+    }
+
+    if (params.target_managers !== undefined && !Array.isArray(params.target_managers)) {
+      errors.push('Target managers must be an array');
+    }
+
+    const limitValidation = this.validateLimit(params.limit);
+    if (!limitValidation.valid) {
+      errors.push(...limitValidation.errors);
+    }
+
+    const contextHintsValidation = this.validateContextHints(params.context_hints);
+    const targetManagers = Array.isArray(params.target_managers)
+      ? Array.from(new Set(params.target_managers.filter((manager: any) => managerNames.includes(manager))))
+      : [];
+
+    const validatedParams = {
+      package_name: params.package_name,
+      purl: params.purl !== undefined ? targetValidation.sanitized : undefined,
+      manager: params.manager,
+      target_managers: targetManagers,
+      context_hints: contextHintsValidation.sanitized || [],
+      limit: limitValidation.sanitized
     };
 
     return {
@@ -252,9 +544,9 @@ export class Validators {
   static validateSmartPackageReadmeParams(params: any): ValidationResult {
     const errors: string[] = [];
     
-    const packageNameValidation = this.validatePackageName(params.package_name);
-    if (!packageNameValidation.valid) {
-      errors.push(...packageNameValidation.errors);
+    const targetValidation = this.validatePackageTarget(params);
+    if (!targetValidation.valid) {
+      errors.push(...targetValidation.errors);
     }
 
     const versionValidation = this.validateVersion(params.version);
@@ -264,14 +556,44 @@ export class Validators {
 
     const contextHintsValidation = this.validateContextHints(params.context_hints);
     const preferredManagersValidation = this.validatePreferredManagers(params.preferred_managers);
-    const examplesValidation = this.validateBoolean(params.include_examples, true);
+    const examplesValidation = this.validateBoolean(params.include_examples);
+    const sectionsValidation = this.validateSections(params.sections);
+    const freshValidation = this.validateFresh(params.fresh);
+    const manifestValidation = this.validateProjectFile(params.manifest);
+    const lockfileValidation = this.validateProjectFile(
+      params.lockfile,
+      'Lockfile',
+      settingsLoader.getSettings().validation_rules.max_lockfile_length
+    );
+
+    if (!manifestValidation.valid) {
+      errors.push(...manifestValidation.errors);
+    }
+
+    if (!lockfileValidation.valid) {
+      errors.push(...lockfileValidation.errors);
+    }
+
+    if (!sectionsValidation.valid) {
+      errors.push(...sectionsValidation.errors);
+    }
+
+    if (!freshValidation.valid) {
+      errors.push(...freshValidation.errors);
+    }
 
     const validatedParams = {
       package_name: params.package_name,
+      purl: params.purl !== undefined ? targetValidation.sanitized : undefined,
       version: versionValidation.sanitized,
       context_hints: contextHintsValidation.sanitized || [],
       preferred_managers: preferredManagersValidation.sanitized || [],
-      include_examples: examplesValidation.sanitized
+      manifest: manifestValidation.sanitized,
+      lockfile: lockfileValidation.sanitized,
+      sections: sectionsValidation.sanitized,
+      // Left unset unless passed so downstream servers keep their own default
+      include_examples: params.include_examples !== undefined ? examplesValidation.sanitized : undefined,
+      fresh: freshValidation.sanitized
     };
 
     return {
@@ -0,0 +1,114 @@
+import { expect, test, describe, beforeEach } from "vitest";
+import { CircuitBreaker } from "../../src/clients/circuit-breaker.js";
+import { ToolProxy } from "../../src/clients/tool-proxy.js";
+import { ResponseCache } from "../../src/utils/cache.js";
+import { PackageManager, OrchestrationErrorType } from "../../src/types/index.js";
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker({
+      windowSize: 4,
+      minimumCalls: 4,
+      failureRateThreshold: 0.5,
+      slowCallMs: 1000,
+      slowCallRateThreshold: 0.75,
+      cooldownMs: 5000,
+      now: () => now
+    });
+  });
+
+  test('should stay closed until the minimum number of calls', () => {
+    breaker.recordFailure('timeout');
+    breaker.recordFailure('timeout');
+    breaker.recordFailure('timeout');
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.recordSuccess(10);
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.describe()).toBe('75% of the last 4 calls failed; retrying after 1970-01-01T00:00:05.000Z');
+  });
+
+  test('should open when most calls are slow', () => {
+    [1500, 2000, 10, 1200].forEach(time => breaker.recordSuccess(time));
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'open', failure_rate: 0, slow_call_rate: 0.75 });
+  });
+
+  test('should only look at the most recent calls', () => {
+    breaker.recordFailure('timeout');
+    [10, 10, 10].forEach(time => breaker.recordSuccess(time));
+    breaker.recordFailure('timeout');
+
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', calls: 4, failure_rate: 0.25 });
+  });
+
+  test('should allow a single probe after the cooldown', () => {
+    [1, 2, 3, 4].forEach(() => breaker.recordFailure('Connection closed'));
+
+    now = 5000;
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.recordFailure('Connection closed');
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.getSnapshot().next_probe_at).toBe(new Date(10000).toISOString());
+
+    now = 10000;
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordSuccess(10);
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', calls: 0 });
+  });
+
+  test('should hand back the probe when it is cancelled', () => {
+    [1, 2, 3, 4].forEach(() => breaker.recordFailure('Connection closed'));
+
+    now = 5000;
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordCancelled();
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+});
+
+describe('ToolProxy circuit breaking', () => {
+  test('should skip managers with an open circuit', async () => {
+    const calls: PackageManager[] = [];
+    const clientManager = {
+      ensureConnected: async () => true,
+      getDiscoveredTools: () => undefined,
+      callToolWithTimeout: async (manager: PackageManager) => {
+        calls.push(manager);
+        if (manager === PackageManager.PIP) {
+          throw new Error('Tool call to pip.get_package_info timed out after 8000ms');
+        }
+        return [{ type: 'text', text: '{"name":"requests"}' }];
+      }
+    };
+    const proxy = new ToolProxy(clientManager as any, new ResponseCache());
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await proxy.executeToolParallel([PackageManager.NPM, PackageManager.PIP], 'get_package_info', {});
+    }
+    calls.length = 0;
+
+    const results = await proxy.executeToolParallel([PackageManager.NPM, PackageManager.PIP], 'get_package_info', {}, undefined, { fresh: true });
+
+    expect(calls).toEqual([PackageManager.NPM]);
+    expect(results[0]).toMatchObject({ manager: PackageManager.NPM, success: true, data: { name: 'requests' } });
+    expect(results[1]).toMatchObject({
+      manager: PackageManager.PIP,
+      success: false,
+      error_type: OrchestrationErrorType.MCP_SERVER_UNAVAILABLE
+    });
+    expect(results[1].error).toContain('Circuit open for pip MCP server: 100% of the last 5 calls failed');
+    expect(proxy.getCircuitBreakerSnapshots()).toMatchObject({
+      npm: { state: 'closed' },
+      pip: { state: 'open', last_failure: 'Tool call to pip.get_package_info timed out after 8000ms' }
+    });
+  });
+});
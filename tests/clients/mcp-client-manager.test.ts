@@ -0,0 +1,270 @@
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { MCPClientManagerImpl, ToolResultError } from "../../src/clients/mcp-client-manager.js";
+import { OrchestratorHttpServer } from "../../src/core/http-server.js";
+import { PackageManager, MCPServerConfig } from "../../src/types/index.js";
+
+function serverConfig(overrides: Partial<MCPServerConfig> = {}): MCPServerConfig {
+  return {
+    server_id: 'test-server',
+    command: 'node',
+    args: ['server.js'],
+    tools: ['get_package_info'],
+    connection_status: 'disconnected',
+    ...overrides
+  };
+}
+
+describe('MCPClientManagerImpl lazy connections', () => {
+  let clientManager: MCPClientManagerImpl;
+  let connects: PackageManager[];
+  let closes: PackageManager[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    connects = [];
+    closes = [];
+    clientManager = new MCPClientManagerImpl(new Map([
+      [PackageManager.NPM, serverConfig()],
+      [PackageManager.CARGO, serverConfig({ connection_mode: 'lazy', idle_timeout_ms: 1000 })]
+    ]));
+
+    // Stand in for spawning the stdio server
+    clientManager.connect = async (manager: PackageManager) => {
+      connects.push(manager);
+      await Promise.resolve();
+      clientManager.clients.set(manager, {
+        callTool: async () => ({ content: [{ type: 'text', text: '{}' }] }),
+        close: async () => { closes.push(manager); }
+      } as any);
+      (clientManager as any).connectionStatus.set(manager, true);
+    };
+  });
+
+  afterEach(async () => {
+    await clientManager.disconnectAll();
+    vi.useRealTimers();
+  });
+
+  test('should only connect eager servers up front', async () => {
+    await clientManager.connectEager();
+    expect(connects).toEqual([PackageManager.NPM]);
+  });
+
+  test('should disconnect removed and changed servers when configs are reloaded', async () => {
+    await clientManager.connectEager();
+    await clientManager.ensureConnected(PackageManager.CARGO);
+
+    await clientManager.updateServerConfigs(new Map([
+      [PackageManager.CARGO, serverConfig({ connection_mode: 'lazy', args: ['cargo-server.js'] })],
+      [PackageManager.PIP, serverConfig()]
+    ]), [PackageManager.CARGO]);
+
+    expect(closes).toEqual([PackageManager.NPM, PackageManager.CARGO]);
+    expect(clientManager.getConfiguredManagers()).toEqual([PackageManager.CARGO, PackageManager.PIP]);
+    expect(clientManager.getConnectedManagers()).toEqual([]);
+  });
+
+  test('should start a lazy server once on first use', async () => {
+    const results = await Promise.all([
+      clientManager.ensureConnected(PackageManager.CARGO),
+      clientManager.ensureConnected(PackageManager.CARGO)
+    ]);
+
+    expect(results).toEqual([true, true]);
+    expect(connects).toEqual([PackageManager.CARGO]);
+    expect(await clientManager.ensureConnected(PackageManager.NPM)).toBe(false);
+  });
+
+  test('should shut down a lazy server after its idle timeout', async () => {
+    await clientManager.ensureConnected(PackageManager.CARGO);
+    await vi.advanceTimersByTimeAsync(600);
+
+    // A call resets the idle timer
+    await clientManager.callTool(PackageManager.CARGO, 'get_package_info', {});
+    await vi.advanceTimersByTimeAsync(600);
+    expect(clientManager.isConnected(PackageManager.CARGO)).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(400);
+    expect(clientManager.isConnected(PackageManager.CARGO)).toBe(false);
+    expect(closes).toEqual([PackageManager.CARGO]);
+
+    await clientManager.ensureConnected(PackageManager.CARGO);
+    expect(connects).toEqual([PackageManager.CARGO, PackageManager.CARGO]);
+  });
+
+  test('should throw results the server flagged as errors', async () => {
+    await clientManager.ensureConnected(PackageManager.CARGO);
+    const content = [{ type: 'text', text: 'Package not found' }];
+    clientManager.clients.get(PackageManager.CARGO)!.callTool = async () => ({ content, isError: true }) as any;
+
+    const call = clientManager.callTool(PackageManager.CARGO, 'get_package_info', {});
+    await expect(call).rejects.toBeInstanceOf(ToolResultError);
+    await expect(call).rejects.toMatchObject({ manager: PackageManager.CARGO, content });
+  });
+});
+
+describe('MCPClientManagerImpl cancellation', () => {
+  let clientManager: MCPClientManagerImpl;
+  let requestSignal: AbortSignal | undefined;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    requestSignal = undefined;
+    clientManager = new MCPClientManagerImpl(new Map([[PackageManager.NPM, serverConfig()]]));
+
+    // Never answers, like a hung server; rejects once the request is aborted
+    clientManager.clients.set(PackageManager.NPM, {
+      callTool: (_params: any, _schema: any, options: any) => new Promise((_resolve, reject) => {
+        requestSignal = options.signal;
+        options.signal.addEventListener('abort', () => reject(options.signal.reason));
+      }),
+      close: async () => {}
+    } as any);
+    (clientManager as any).connectionStatus.set(PackageManager.NPM, true);
+  });
+
+  afterEach(async () => {
+    await clientManager.disconnectAll();
+    vi.useRealTimers();
+  });
+
+  test('should abort the downstream request on timeout', async () => {
+    const call = clientManager.callToolWithTimeout(PackageManager.NPM, 'get_package_info', {}, 1000);
+    const assertion = expect(call).rejects.toThrow('Tool call to npm.get_package_info timed out after 1000ms');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+    expect(requestSignal?.aborted).toBe(true);
+  });
+
+  test('should abort the downstream request when the caller cancels', async () => {
+    const controller = new AbortController();
+    const call = clientManager.callToolWithTimeout(PackageManager.NPM, 'get_package_info', {}, 1000, controller.signal);
+
+    controller.abort();
+    await expect(call).rejects.toThrow('Tool call to npm.get_package_info was cancelled');
+    expect(requestSignal?.aborted).toBe(true);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
+
+describe('MCPClientManagerImpl remote transports', () => {
+  let standIn: OrchestratorHttpServer;
+  let baseUrl: string;
+  let clientManager: MCPClientManagerImpl | undefined;
+
+  // A local HTTP stand-in for a hosted registry server that echoes the
+  // request headers it received
+  const createRegistryServer = () => {
+    const server = new Server({ name: 'npm-stand-in', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [
+        { name: 'get_package_info', inputSchema: { type: 'object' as const, properties: { package_name: { type: 'string' } } } },
+        { name: 'get_download_stats', description: 'Download counts', inputSchema: { type: 'object' as const } }
+      ]
+    }));
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => ({
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({ name: request.params.arguments?.package_name, token: extra.requestInfo?.headers['x-registry-token'] })
+      }]
+    }));
+    return server;
+  };
+
+  beforeEach(async () => {
+    standIn = new OrchestratorHttpServer({ createSessionServer: createRegistryServer } as any, {
+      type: 'http',
+      host: '127.0.0.1',
+      port: 0,
+      session_idle_timeout_ms: 60000,
+      max_request_bytes: 65536,
+      allowed_origins: []
+    });
+    baseUrl = `http://127.0.0.1:${(await standIn.start()).port}`;
+    process.env.TEST_REGISTRY_TOKEN = 'secret';
+  });
+
+  afterEach(async () => {
+    await clientManager?.disconnectAll();
+    await standIn.stop();
+    delete process.env.TEST_REGISTRY_TOKEN;
+  });
+
+  test.each([
+    ['streamable-http', '/mcp'],
+    ['sse', '/sse']
+  ] as const)('should call tools on a %s server with the configured headers', async (transport, path) => {
+    clientManager = new MCPClientManagerImpl(new Map([[PackageManager.NPM, serverConfig({
+      transport,
+      command: undefined,
+      url: `${baseUrl}${path}`,
+      headers: { 'X-Registry-Token': '${TEST_REGISTRY_TOKEN}' }
+    })]]));
+
+    await clientManager.connect(PackageManager.NPM);
+    const content = await clientManager.callTool<any[]>(PackageManager.NPM, 'get_package_info', { package_name: 'express' });
+
+    expect(JSON.parse(content[0].text)).toEqual({ name: 'express', token: 'secret' });
+  });
+
+  test('should discover the tools of a server when connecting', async () => {
+    clientManager = new MCPClientManagerImpl(new Map([[PackageManager.NPM, serverConfig({
+      transport: 'streamable-http',
+      url: `${baseUrl}/mcp`
+    })]]));
+    const discovered = vi.fn();
+    clientManager.onToolsDiscovered(discovered);
+
+    await clientManager.connect(PackageManager.NPM);
+    await clientManager.disconnect(PackageManager.NPM);
+
+    const tools = [
+      { name: 'get_package_info', input_schema: { type: 'object', properties: { package_name: { type: 'string' } } } },
+      { name: 'get_download_stats', description: 'Download counts', input_schema: { type: 'object' } }
+    ];
+    expect(clientManager.getDiscoveredTools(PackageManager.NPM)).toEqual(tools);
+    expect(discovered).toHaveBeenCalledWith(PackageManager.NPM, tools);
+  });
+
+  test('should ignore a late close from a client that was replaced', async () => {
+    clientManager = new MCPClientManagerImpl(new Map([[PackageManager.NPM, serverConfig({
+      transport: 'streamable-http',
+      url: `${baseUrl}/mcp`
+    })]]));
+    const lost = vi.fn();
+    clientManager.onConnectionLost(lost);
+
+    await clientManager.connect(PackageManager.NPM);
+    const previousClient = clientManager.clients.get(PackageManager.NPM)!;
+    const closePreviousClient = previousClient.onclose!;
+    await clientManager.disconnect(PackageManager.NPM);
+    await clientManager.connect(PackageManager.NPM);
+
+    // A stdio child reports its exit after disconnect() has returned
+    closePreviousClient();
+
+    expect(lost).not.toHaveBeenCalled();
+    expect(clientManager.isConnected(PackageManager.NPM)).toBe(true);
+  });
+
+  test('should end the remote session on disconnect', async () => {
+    clientManager = new MCPClientManagerImpl(new Map([[PackageManager.NPM, serverConfig({
+      transport: 'streamable-http',
+      url: `${baseUrl}/mcp`
+    })]]));
+
+    await clientManager.connect(PackageManager.NPM);
+    expect(standIn.getSessionCount()).toBe(1);
+
+    await clientManager.disconnect(PackageManager.NPM);
+    expect(standIn.getSessionCount()).toBe(0);
+  });
+
+  test('should require a url for remote servers', () => {
+    expect(() => MCPClientManagerImpl.createTransport(PackageManager.NPM, serverConfig({ transport: 'sse' })))
+      .toThrow('No url configured for the npm MCP server');
+  });
+});
@@ -0,0 +1,190 @@
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import { ServerSupervisor } from "../../src/clients/server-supervisor.js";
+import { PackageManager } from "../../src/types/index.js";
+
+class FakeClientManager {
+  connected = new Set<PackageManager>();
+  connectAttempts = 0;
+  failConnects = 0;
+  private listeners: Array<(manager: PackageManager, reason: string) => void> = [];
+
+  constructor(private managers: PackageManager[], private lazy: PackageManager[] = []) {}
+
+  isLazy(manager: PackageManager) {
+    return this.lazy.includes(manager);
+  }
+
+  onConnectionLost(listener: (manager: PackageManager, reason: string) => void) {
+    this.listeners.push(listener);
+  }
+
+  getConfiguredManagers() {
+    return this.managers;
+  }
+
+  isConnected(manager: PackageManager) {
+    return this.connected.has(manager);
+  }
+
+  async disconnect(manager: PackageManager) {
+    this.connected.delete(manager);
+  }
+
+  async connect(manager: PackageManager) {
+    this.connectAttempts++;
+    if (this.failConnects > 0) {
+      this.failConnects--;
+      throw new Error('spawn npx ENOENT');
+    }
+    this.connected.add(manager);
+  }
+
+  crash(manager: PackageManager, reason: string) {
+    this.connected.delete(manager);
+    this.listeners.forEach(listener => listener(manager, reason));
+  }
+}
+
+describe('ServerSupervisor', () => {
+  let clientManager: FakeClientManager;
+  let statuses: Array<[PackageManager, string]>;
+  let supervisor: ServerSupervisor;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clientManager = new FakeClientManager([PackageManager.NPM]);
+    clientManager.connected.add(PackageManager.NPM);
+    statuses = [];
+    const registry = {
+      updateConnectionStatus: (manager: PackageManager, status: string) => statuses.push([manager, status])
+    };
+    supervisor = new ServerSupervisor(clientManager as any, registry as any, {
+      baseDelayMs: 100,
+      maxDelayMs: 1000,
+      maxRestartsPerWindow: 3,
+      windowMs: 10000,
+      random: () => 1
+    });
+    supervisor.start();
+  });
+
+  afterEach(() => {
+    supervisor.stop();
+    vi.useRealTimers();
+  });
+
+  test('should mark connected servers in the registry on start', () => {
+    expect(statuses).toEqual([[PackageManager.NPM, 'connected']]);
+  });
+
+  test('should restart a crashed server after a backoff delay', async () => {
+    clientManager.crash(PackageManager.NPM, 'Server process exited');
+
+    expect(statuses.at(-1)).toEqual([PackageManager.NPM, 'error']);
+    expect(supervisor.getStatus(PackageManager.NPM)).toMatchObject({
+      restart_count: 0,
+      consecutive_failures: 1,
+      last_failure_reason: 'Server process exited'
+    });
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(clientManager.isConnected(PackageManager.NPM)).toBe(true);
+    expect(statuses.at(-1)).toEqual([PackageManager.NPM, 'connected']);
+    expect(supervisor.getStatus(PackageManager.NPM)).toMatchObject({ restart_count: 1, consecutive_failures: 0 });
+  });
+
+  test('should back off exponentially while restarts fail', async () => {
+    clientManager.failConnects = 2;
+    clientManager.crash(PackageManager.NPM, 'Server process exited');
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(clientManager.connectAttempts).toBe(1);
+    expect(supervisor.getStatus(PackageManager.NPM)?.last_failure_reason).toBe('spawn npx ENOENT');
+
+    await vi.advanceTimersByTimeAsync(199);
+    expect(clientManager.connectAttempts).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(clientManager.connectAttempts).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(400);
+    expect(clientManager.connectAttempts).toBe(3);
+    expect(clientManager.isConnected(PackageManager.NPM)).toBe(true);
+  });
+
+  test('should apply jitter and cap the backoff delay', () => {
+    const jittered = new ServerSupervisor(new FakeClientManager([]) as any, {} as any, {
+      baseDelayMs: 100,
+      maxDelayMs: 1000,
+      random: () => 0
+    });
+
+    expect(jittered.getBackoffDelay(1)).toBe(50);
+    expect(jittered.getBackoffDelay(3)).toBe(200);
+    expect(jittered.getBackoffDelay(10)).toBe(500);
+  });
+
+  test('should cap the number of restarts per window', async () => {
+    for (let crash = 0; crash < 3; crash++) {
+      clientManager.crash(PackageManager.NPM, 'Server process exited');
+      await vi.advanceTimersByTimeAsync(100);
+    }
+    expect(supervisor.getStatus(PackageManager.NPM)?.restart_count).toBe(3);
+
+    clientManager.crash(PackageManager.NPM, 'Server process exited');
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(supervisor.getStatus(PackageManager.NPM)?.restart_count).toBe(3);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(supervisor.getStatus(PackageManager.NPM)?.restart_count).toBe(4);
+  });
+
+  test('should not restart after being stopped', async () => {
+    clientManager.crash(PackageManager.NPM, 'Server process exited');
+    supervisor.stop();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(clientManager.connectAttempts).toBe(0);
+  });
+
+  test('should connect servers added by a config reload and retry failures', async () => {
+    clientManager.failConnects = 1;
+
+    await supervisor.connectServer(PackageManager.PIP);
+    expect(statuses.at(-1)).toEqual([PackageManager.PIP, 'error']);
+    expect(supervisor.getStatus(PackageManager.PIP)?.last_failure_reason).toBe('Initial connection failed: spawn npx ENOENT');
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(clientManager.isConnected(PackageManager.PIP)).toBe(true);
+    expect(statuses.at(-1)).toEqual([PackageManager.PIP, 'connected']);
+  });
+
+  test('should stop restarting servers removed by a config reload', async () => {
+    clientManager.crash(PackageManager.NPM, 'Server process exited');
+    supervisor.forget(PackageManager.NPM);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(clientManager.connectAttempts).toBe(0);
+    expect(supervisor.getStatus(PackageManager.NPM)).toBeUndefined();
+  });
+
+  test('should leave lazy servers to be started on their next use', async () => {
+    const lazyClients = new FakeClientManager([PackageManager.CARGO], [PackageManager.CARGO]);
+    const lazyStatuses: string[] = [];
+    const lazySupervisor = new ServerSupervisor(lazyClients as any, {
+      updateConnectionStatus: (_manager: PackageManager, status: string) => lazyStatuses.push(status)
+    } as any, { baseDelayMs: 100 });
+    lazySupervisor.start();
+    expect(lazyStatuses).toEqual([]);
+
+    lazyClients.connected.add(PackageManager.CARGO);
+    lazyClients.crash(PackageManager.CARGO, 'Server process exited');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(lazyStatuses).toEqual(['disconnected']);
+    expect(lazyClients.connectAttempts).toBe(0);
+    expect(lazySupervisor.getStatus(PackageManager.CARGO)?.last_failure_reason).toBe('Server process exited');
+    lazySupervisor.stop();
+  });
+});
@@ -0,0 +1,429 @@
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ToolProxy } from "../../src/clients/tool-proxy.js";
+import { ToolResultError } from "../../src/clients/mcp-client-manager.js";
+import { ResponseCache } from "../../src/utils/cache.js";
+import { settingsLoader } from "../../src/config/settings-loader.js";
+import { PackageManager, OrchestrationErrorType } from "../../src/types/index.js";
+
+type Outcome = { delay: number; fail?: boolean; isError?: boolean };
+
+const createProxy = (
+  outcomes: Partial<Record<PackageManager, Outcome>>,
+  tools: Partial<Record<PackageManager, string[]>> = {}
+) => {
+  const finished: PackageManager[] = [];
+  const cancelled: PackageManager[] = [];
+  const clientManager = {
+    ensureConnected: async () => true,
+    getDiscoveredTools: (manager: PackageManager) => tools[manager]?.map(name => ({ name, input_schema: { type: 'object' } })),
+    callToolWithTimeout: (manager: PackageManager, toolName: string, _params: any, _timeoutMs: number, signal?: AbortSignal) => new Promise((resolve, reject) => {
+      const outcome = outcomes[manager]!;
+      const onAbort = () => {
+        clearTimeout(timer);
+        cancelled.push(manager);
+        reject(new Error(`${manager} cancelled`));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        finished.push(manager);
+        if (outcome.fail) {
+          reject(new Error(`${manager} failed`));
+        } else if (outcome.isError) {
+          reject(new ToolResultError(manager, toolName, [{ type: 'text', text: `${manager} has no such package` }]));
+        } else {
+          resolve([{ type: 'text', text: `{"manager":"${manager}"}` }]);
+        }
+      }, outcome.delay);
+      signal?.addEventListener('abort', onAbort);
+    })
+  };
+  return { proxy: new ToolProxy(clientManager as any, new ResponseCache()), finished, cancelled };
+};
+
+describe('ToolProxy early return', () => {
+  test('should return on the first success and cancel slower managers', async () => {
+    const { proxy, finished, cancelled } = createProxy({
+      [PackageManager.NPM]: { delay: 5 },
+      [PackageManager.PIP]: { delay: 200 }
+    });
+
+    const results = await proxy.executeToolWithEarlyReturn([PackageManager.NPM, PackageManager.PIP], 'get_package_info', {});
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ manager: PackageManager.NPM, success: true, data: { manager: 'npm' } });
+    expect(finished).toEqual([PackageManager.NPM]);
+    expect(cancelled).toEqual([PackageManager.PIP]);
+  });
+
+  test('should not return early on a failure', async () => {
+    const { proxy } = createProxy({
+      [PackageManager.NPM]: { delay: 5, fail: true },
+      [PackageManager.PIP]: { delay: 20 }
+    });
+
+    const results = await proxy.executeToolWithEarlyReturn([PackageManager.NPM, PackageManager.PIP], 'get_package_info', {});
+
+    expect(results.map(result => [result.manager, result.success])).toEqual([
+      [PackageManager.NPM, false],
+      [PackageManager.PIP, true]
+    ]);
+  });
+
+  test('should not return early on an error result', async () => {
+    const { proxy } = createProxy({
+      [PackageManager.NPM]: { delay: 5, isError: true },
+      [PackageManager.PIP]: { delay: 20 }
+    });
+
+    const results = await proxy.executeToolWithEarlyReturn([PackageManager.NPM, PackageManager.PIP], 'get_package_info', {});
+
+    expect(results.map(result => [result.manager, result.success])).toEqual([
+      [PackageManager.NPM, false],
+      [PackageManager.PIP, true]
+    ]);
+    expect(results[0].error).toBe('npm has no such package');
+  });
+
+  test('should wait for a confident manager until the early return timeout', async () => {
+    const { proxy } = createProxy({
+      [PackageManager.NPM]: { delay: 5 },
+      [PackageManager.PIP]: { delay: 20 }
+    });
+    const confidences = new Map([[PackageManager.NPM, 0.2], [PackageManager.PIP, 0.7]]);
+
+    const results = await proxy.executeToolWithEarlyReturn(
+      [PackageManager.NPM, PackageManager.PIP], 'get_package_info', {}, 1000, { confidences }
+    );
+
+    expect(results.map(result => result.manager)).toEqual([PackageManager.NPM, PackageManager.PIP]);
+  });
+
+  test('should not let a low confidence manager win by answering first', async () => {
+    const { proxy, cancelled } = createProxy({
+      [PackageManager.NPM]: { delay: 5 },
+      [PackageManager.PIP]: { delay: 30 }
+    });
+    const confidences = new Map([[PackageManager.NPM, 0.35], [PackageManager.PIP, 0.75]]);
+
+    const results = await proxy.executeToolWithEarlyReturn(
+      [PackageManager.NPM, PackageManager.PIP], 'get_package_info', {}, 1000, { confidences }
+    );
+
+    expect(results.map(result => [result.manager, result.success])).toEqual([
+      [PackageManager.NPM, true],
+      [PackageManager.PIP, true]
+    ]);
+    expect(cancelled).toEqual([]);
+  });
+
+  test('should accept a less confident success once the timeout passes', async () => {
+    const { proxy } = createProxy({
+      [PackageManager.NPM]: { delay: 5 },
+      [PackageManager.PIP]: { delay: 500 }
+    });
+    const confidences = new Map([[PackageManager.NPM, 0.2], [PackageManager.PIP, 0.7]]);
+
+    const startTime = Date.now();
+    const results = await proxy.executeToolWithEarlyReturn(
+      [PackageManager.NPM, PackageManager.PIP], 'get_package_info', {}, 30, { confidences }
+    );
+
+    expect(Date.now() - startTime).toBeLessThan(400);
+    expect(results.map(result => result.manager)).toEqual([PackageManager.NPM]);
+  });
+
+  test('should return every result when all managers fail', async () => {
+    const { proxy } = createProxy({
+      [PackageManager.NPM]: { delay: 10, fail: true },
+      [PackageManager.PIP]: { delay: 5, fail: true }
+    });
+
+    const results = await proxy.executeToolWithEarlyReturn([PackageManager.NPM, PackageManager.PIP], 'get_package_info', {}, 1);
+
+    expect(results.map(result => result.manager)).toEqual([PackageManager.NPM, PackageManager.PIP]);
+    expect(results.every(result => !result.success)).toBe(true);
+  });
+});
+
+describe('ToolProxy cancellation', () => {
+  test('should cancel calls without counting them against the circuit', async () => {
+    const { proxy, cancelled } = createProxy({
+      [PackageManager.NPM]: { delay: 200 },
+      [PackageManager.PIP]: { delay: 200 }
+    });
+    const controller = new AbortController();
+
+    const call = proxy.executeToolParallel([PackageManager.NPM, PackageManager.PIP], 'get_package_info', {}, undefined, { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    controller.abort();
+    const results = await call;
+
+    expect(cancelled).toEqual([PackageManager.NPM, PackageManager.PIP]);
+    expect(results.map(result => result.error)).toEqual([
+      'Tool call to npm MCP server was cancelled',
+      'Tool call to pip MCP server was cancelled'
+    ]);
+    expect(proxy.getCircuitBreakerSnapshots()[PackageManager.NPM]).toMatchObject({ state: 'closed', calls: 0 });
+  });
+
+  test('should not start calls for an already cancelled request', async () => {
+    const { proxy, finished } = createProxy({ [PackageManager.NPM]: { delay: 5 } });
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await proxy.executeToolSingle(PackageManager.NPM, 'get_package_info', {}, 5000, { signal: controller.signal });
+
+    expect(result.success).toBe(false);
+    expect(finished).toEqual([]);
+  });
+});
+
+describe('ToolProxy request coalescing', () => {
+  test('should share one downstream call between identical concurrent calls', async () => {
+    const { proxy, finished } = createProxy({ [PackageManager.NPM]: { delay: 20 } });
+
+    const results = await Promise.all([
+      proxy.executeToolSingle(PackageManager.NPM, 'get_download_stats', { package_name: 'express', period: 'week' }),
+      proxy.executeToolSingle(PackageManager.NPM, 'get_download_stats', { period: 'week', package_name: 'express', version: undefined })
+    ]);
+
+    expect(finished).toEqual([PackageManager.NPM]);
+    expect(results.map(result => result.data)).toEqual([{ manager: 'npm' }, { manager: 'npm' }]);
+    expect(results[0]).not.toBe(results[1]);
+  });
+
+  test('should not share calls with different params', async () => {
+    const { proxy, finished } = createProxy({ [PackageManager.NPM]: { delay: 5 } });
+
+    await Promise.all([
+      proxy.executeToolSingle(PackageManager.NPM, 'get_download_stats', { package_name: 'express' }),
+      proxy.executeToolSingle(PackageManager.NPM, 'get_download_stats', { package_name: 'lodash' })
+    ]);
+
+    expect(finished).toEqual([PackageManager.NPM, PackageManager.NPM]);
+  });
+
+  test('should keep the shared call running while another caller waits for it', async () => {
+    const { proxy, finished, cancelled } = createProxy({ [PackageManager.NPM]: { delay: 30 } });
+    const controller = new AbortController();
+
+    const cancelledCall = proxy.executeToolSingle(PackageManager.NPM, 'get_download_stats', {}, 5000, { signal: controller.signal });
+    const waitingCall = proxy.executeToolSingle(PackageManager.NPM, 'get_download_stats', {});
+    controller.abort();
+
+    expect(await cancelledCall).toMatchObject({ success: false, error: 'Tool call to npm MCP server was cancelled' });
+    expect(await waitingCall).toMatchObject({ success: true, data: { manager: 'npm' } });
+    expect(finished).toEqual([PackageManager.NPM]);
+    expect(cancelled).toEqual([]);
+  });
+
+  test('should cancel the shared call once every caller cancelled', async () => {
+    const { proxy, cancelled } = createProxy({ [PackageManager.NPM]: { delay: 200 } });
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const calls = [
+      proxy.executeToolSingle(PackageManager.NPM, 'get_download_stats', {}, 5000, { signal: first.signal }),
+      proxy.executeToolSingle(PackageManager.NPM, 'get_download_stats', {}, 5000, { signal: second.signal })
+    ];
+    await new Promise(resolve => setTimeout(resolve, 10));
+    first.abort();
+    expect(cancelled).toEqual([]);
+    second.abort();
+    await Promise.all(calls);
+
+    expect(cancelled).toEqual([PackageManager.NPM]);
+  });
+});
+
+describe('ToolProxy tool discovery', () => {
+  test('should skip managers whose server does not offer the tool', async () => {
+    const { proxy, finished } = createProxy(
+      { [PackageManager.NPM]: { delay: 5 }, [PackageManager.PIP]: { delay: 5 } },
+      { [PackageManager.NPM]: ['get_package_info'], [PackageManager.PIP]: ['get_package_readme'] }
+    );
+
+    const results = await proxy.executeToolParallel([PackageManager.NPM, PackageManager.PIP], 'get_package_info', {});
+
+    expect(results[0].success).toBe(true);
+    expect(results[1]).toMatchObject({ success: false, error_type: OrchestrationErrorType.TOOL_NOT_SUPPORTED });
+    expect(finished).toEqual([PackageManager.NPM]);
+  });
+
+  test('should report discovered tools without asking the server again', async () => {
+    const { proxy } = createProxy({}, { [PackageManager.NPM]: ['get_package_info', 'get_download_stats'] });
+
+    expect(await proxy.getAvailableTools(PackageManager.NPM)).toEqual(['get_package_info', 'get_download_stats']);
+    expect(await proxy.validateToolSupport(PackageManager.NPM, 'get_download_stats')).toBe(true);
+    expect(proxy.supportsTool(PackageManager.PIP, 'get_package_info')).toBe(true);
+  });
+});
+
+describe('ToolProxy results', () => {
+  test('should return the JSON of a text block instead of the MCP content', async () => {
+    const responses: Record<string, any> = {
+      json: { content: [{ type: 'text', text: '{"name":"express"}' }] },
+      text: { content: [{ type: 'text', text: 'Package not listed' }] },
+      image: { content: [{ type: 'image', data: '', mimeType: 'image/png' }] }
+    };
+    const clientManager = {
+      ensureConnected: async () => true,
+      getDiscoveredTools: () => undefined,
+      callToolWithTimeout: async (_manager: PackageManager, _toolName: string, params: any) => responses[params.kind]
+    };
+    const proxy = new ToolProxy(clientManager as any, new ResponseCache());
+    const call = async (kind: string) => (await proxy.executeToolSingle(PackageManager.NPM, 'get_package_info', { kind })).data;
+
+    expect(await call('json')).toEqual({ name: 'express' });
+    expect(await call('text')).toEqual({ text: 'Package not listed' });
+    expect(await call('image')).toEqual(responses.image);
+  });
+});
+
+describe('ToolProxy caching', () => {
+  const createCountingProxy = (cache: ResponseCache) => {
+    let calls = 0;
+    const clientManager = {
+      ensureConnected: async () => true,
+      getDiscoveredTools: () => undefined,
+      callToolWithTimeout: async () => {
+        calls++;
+        return [{ type: 'text', text: `{"call":${calls}}` }];
+      }
+    };
+    return { proxy: new ToolProxy(clientManager as any, cache), calls: () => calls };
+  };
+
+  test('should answer repeated calls from the cache', async () => {
+    const { proxy, calls } = createCountingProxy(new ResponseCache());
+    const params = { package_name: 'express' };
+
+    const first = await proxy.executeToolSingle(PackageManager.NPM, 'get_package_info', params);
+    const second = await proxy.executeToolSingle(PackageManager.NPM, 'get_package_info', params);
+
+    expect(first).toMatchObject({ cache: 'miss', data: { call: 1 } });
+    expect(second).toMatchObject({ cache: 'hit', data: { call: 1 }, response_time: 0 });
+    expect(calls()).toBe(1);
+  });
+
+  test('should skip the cache for fresh calls and store the new response', async () => {
+    const { proxy, calls } = createCountingProxy(new ResponseCache());
+    const params = { package_name: 'express' };
+
+    await proxy.executeToolSingle(PackageManager.NPM, 'get_package_info', params);
+    const fresh = await proxy.executeToolSingle(PackageManager.NPM, 'get_package_info', params, 5000, { fresh: true });
+    const cached = await proxy.executeToolSingle(PackageManager.NPM, 'get_package_info', params);
+
+    expect(fresh).toMatchObject({ cache: 'bypass', data: { call: 2 } });
+    expect(cached).toMatchObject({ cache: 'hit', data: { call: 2 } });
+    expect(calls()).toBe(2);
+  });
+
+  test('should serve stale responses and refresh them in the background', async () => {
+    const cache = new ResponseCache();
+    const { proxy, calls } = createCountingProxy(cache);
+    const params = { package_name: 'express' };
+    cache.cacheToolResponse(PackageManager.NPM, 'get_package_info', params, { call: 0 }, 1, 60000);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const stale = await proxy.executeToolSingle(PackageManager.NPM, 'get_package_info', params);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(stale).toMatchObject({ cache: 'stale', data: { call: 0 } });
+    expect(calls()).toBe(1);
+    expect(cache.getToolResponse(PackageManager.NPM, 'get_package_info', params)).toEqual({ call: 1 });
+  });
+
+  test('should not cache tools without a TTL', async () => {
+    const { proxy, calls } = createCountingProxy(new ResponseCache());
+
+    await proxy.executeToolSingle(PackageManager.NPM, 'get_download_stats', { package_name: 'express' });
+    const second = await proxy.executeToolSingle(PackageManager.NPM, 'get_download_stats', { package_name: 'express' });
+
+    expect(second.cache).toBeUndefined();
+    expect(calls()).toBe(2);
+  });
+
+  test('should not cache error results or count them against the circuit', async () => {
+    let calls = 0;
+    const clientManager = {
+      ensureConnected: async () => true,
+      getDiscoveredTools: () => undefined,
+      callToolWithTimeout: async () => {
+        calls++;
+        throw new ToolResultError(PackageManager.NPM, 'get_package_info', [{ type: 'text', text: '{"error":"Package not found"}' }]);
+      }
+    };
+    const proxy = new ToolProxy(clientManager as any, new ResponseCache());
+    const params = { package_name: 'missing' };
+
+    const first = await proxy.executeToolSingle(PackageManager.NPM, 'get_package_info', params);
+    const second = await proxy.executeToolSingle(PackageManager.NPM, 'get_package_info', params);
+
+    expect(first).toMatchObject({ success: false, error: 'Package not found', cache: 'miss' });
+    expect(second.cache).toBe('miss');
+    expect(calls).toBe(2);
+    expect(proxy.getCircuitBreakerSnapshots()[PackageManager.NPM]).toMatchObject({ state: 'closed', failure_rate: 0 });
+  });
+});
+
+describe('ToolProxy offline mode', () => {
+  let mirrorDirectory: string;
+  const callToolWithTimeout = vi.fn();
+  const createOfflineProxy = (cache: ResponseCache) => new ToolProxy({
+    ensureConnected: async () => true,
+    getDiscoveredTools: () => undefined,
+    callToolWithTimeout
+  } as any, cache);
+
+  beforeEach(() => {
+    mirrorDirectory = mkdtempSync(join(tmpdir(), 'readme-mirror-'));
+    const settings = settingsLoader.getSettings();
+    vi.spyOn(settingsLoader, 'getSettings').mockReturnValue({
+      ...settings,
+      offline_settings: { enabled: true, mirror_directory: mirrorDirectory, retention_ms: 60000 }
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    callToolWithTimeout.mockReset();
+    rmSync(mirrorDirectory, { recursive: true, force: true });
+  });
+
+  test('should serve expired cached responses with their age', async () => {
+    const cache = new ResponseCache();
+    cache.cacheToolResponse(PackageManager.NPM, 'get_package_info', { package_name: 'express' }, { name: 'express' }, 1, 0, 60000);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const result = await createOfflineProxy(cache).executeToolSingle(PackageManager.NPM, 'get_package_info', { package_name: 'express' }, 5000, { fresh: true });
+
+    expect(result).toMatchObject({ success: true, data: { name: 'express' }, cache: 'stale', served_from: 'cache' });
+    expect(result.age_ms).toBeGreaterThanOrEqual(10);
+    expect(callToolWithTimeout).not.toHaveBeenCalled();
+  });
+
+  test('should fall back to the README mirror', async () => {
+    mkdirSync(join(mirrorDirectory, 'npm', 'express'), { recursive: true });
+    writeFileSync(join(mirrorDirectory, 'npm', 'express', 'README.md'), '# express');
+
+    const result = await createOfflineProxy(new ResponseCache()).executeToolSingle(PackageManager.NPM, 'get_package_readme', { package_name: 'express' });
+
+    expect(result).toMatchObject({
+      success: true,
+      data: { package_name: 'express', readme_content: '# express' },
+      served_from: 'mirror'
+    });
+    expect(ToolProxy.describeServedFrom([result])).toEqual({ served_from: 'mirror', age_ms: result.age_ms });
+  });
+
+  test('should report a cache miss without calling the server', async () => {
+    const result = await createOfflineProxy(new ResponseCache()).executeToolSingle(PackageManager.PIP, 'get_package_info', { package_name: 'requests' });
+
+    expect(result).toMatchObject({ success: false, error_type: OrchestrationErrorType.OFFLINE_CACHE_MISS });
+    expect(callToolWithTimeout).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,5 @@
 import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import { readFileSync } from "fs";
 import { settingsLoader, DetectionSettings } from "../../src/config/settings-loader.js";
 
 // Mock fs module
@@ -32,12 +33,64 @@ describe('SettingsLoader', () => {
       default_search_limit: 10,
       max_context_hints: 20,
       max_hint_length: 100,
-      max_version_length: 50
+      max_version_length: 50,
+      max_manifest_length: 1048576,
+      max_lockfile_length: 10485760,
+      max_batch_size: 200,
+      max_tree_depth: 10
     },
     execution_settings: {
       max_managers_attempted: 5,
       timeout_ms: 30000,
-      retry_attempts: 2
+      retry_attempts: 2,
+      batch_concurrency: 4,
+      default_tree_depth: 3,
+      max_tree_nodes: 500,
+      restart_base_delay_ms: 1000,
+      restart_max_delay_ms: 60000,
+      max_restarts_per_window: 5,
+      restart_window_ms: 300000,
+      idle_timeout_ms: 300000,
+      circuit_window_size: 20,
+      circuit_minimum_calls: 5,
+      circuit_failure_rate_threshold: 0.5,
+      circuit_slow_call_ms: 4000,
+      circuit_slow_call_rate_threshold: 0.8,
+      circuit_cooldown_ms: 30000
+    },
+    cache_settings: {
+      tool_ttl_ms: {
+        get_package_readme: 21600000,
+        get_package_info: 3600000,
+        search_packages: 600000
+      },
+      stale_while_revalidate_ms: 600000,
+      persistence: {
+        backend: "filesystem",
+        path: "",
+        max_size_bytes: 104857600
+      }
+    },
+    offline_settings: {
+      enabled: false,
+      mirror_directory: "",
+      retention_ms: 2592000000
+    },
+    transport_settings: {
+      type: "stdio",
+      host: "127.0.0.1",
+      port: 3000,
+      session_idle_timeout_ms: 1800000,
+      max_request_bytes: 16777216,
+      allowed_origins: []
+    },
+    passthrough_settings: {
+      enabled: false,
+      exclude_tools: ["get_package_readme", "get_package_info", "search_packages"]
+    },
+    reload_settings: {
+      watch: true,
+      debounce_ms: 500
     },
     file_patterns: {
       package_json: ["package.json", "package-lock.json", "yarn.lock"],
@@ -331,4 +384,54 @@ describe('SettingsLoader', () => {
       expect(mockReadFileSync).toHaveBeenCalledTimes(1);
     });
   });
-});
\ No newline at end of file
+
+  describe('readSettings', () => {
+    const userSettingsPath = 'package-readme-core-mcp-server/detection-settings.json';
+
+    beforeEach(() => {
+      // No user overrides unless a test provides them
+      vi.mocked(readFileSync).mockImplementation(() => {
+        throw Object.assign(new Error('ENOENT: no such file or directory'), { code: 'ENOENT' });
+      });
+    });
+
+    test('should apply user overrides over the bundled settings', () => {
+      vi.mocked(readFileSync).mockImplementation((path: any) => JSON.stringify(
+        String(path).endsWith(userSettingsPath)
+          ? { confidence_thresholds: { minimum_confidence: 0.5 }, reload_settings: { watch: false } }
+          : mockSettings
+      ));
+
+      const settings = settingsLoader.readSettings();
+
+      expect(settings.confidence_thresholds).toEqual({ ...mockSettings.confidence_thresholds, minimum_confidence: 0.5 });
+      expect(settings.reload_settings.watch).toBe(false);
+      expect(settings.validation_rules).toEqual(mockSettings.validation_rules);
+    });
+
+    test('should reject invalid settings and keep the current ones on reload', () => {
+      vi.mocked(readFileSync).mockReturnValueOnce(JSON.stringify(mockSettings));
+      const settings = settingsLoader.getSettings();
+
+      vi.mocked(readFileSync).mockReturnValueOnce(JSON.stringify({
+        ...mockSettings,
+        confidence_thresholds: { ...mockSettings.confidence_thresholds, minimum_confidence: 'high' },
+        validation_rules: { ...mockSettings.validation_rules, allowed_package_name_chars: '[a-z' },
+        reload_settings: undefined
+      }));
+
+      expect(() => settingsLoader.reloadSettings()).toThrow('Invalid detection settings: reload_settings is missing');
+      expect(settingsLoader.getSettings()).toBe(settings);
+
+      vi.mocked(readFileSync).mockReturnValueOnce(JSON.stringify({
+        ...mockSettings,
+        confidence_thresholds: { ...mockSettings.confidence_thresholds, minimum_confidence: 'high' },
+        validation_rules: { ...mockSettings.validation_rules, allowed_package_name_chars: '[a-z' }
+      }));
+
+      expect(() => settingsLoader.readSettings()).toThrow(
+        /confidence_thresholds\.minimum_confidence must be a non-negative number; validation_rules\.allowed_package_name_chars is not a valid pattern/
+      );
+    });
+  });
+});
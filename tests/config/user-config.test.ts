@@ -0,0 +1,64 @@
+import { expect, test, describe, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { mergeConfig, readUserConfig, userConfigDirectory } from "../../src/config/user-config.js";
+import { ManagerRegistry } from "../../src/detection/manager-registry.js";
+import { PackageManager } from "../../src/types/index.js";
+
+describe('user config', () => {
+  const originalConfigHome = process.env.XDG_CONFIG_HOME;
+  let configHome: string;
+
+  beforeEach(() => {
+    configHome = mkdtempSync(join(tmpdir(), 'user-config-'));
+    process.env.XDG_CONFIG_HOME = configHome;
+  });
+
+  afterEach(() => {
+    if (originalConfigHome === undefined) {
+      delete process.env.XDG_CONFIG_HOME;
+    } else {
+      process.env.XDG_CONFIG_HOME = originalConfigHome;
+    }
+    rmSync(configHome, { recursive: true, force: true });
+  });
+
+  const writeUserConfig = (fileName: string, config: unknown) => {
+    mkdirSync(userConfigDirectory(), { recursive: true });
+    writeFileSync(join(userConfigDirectory(), fileName), JSON.stringify(config));
+  };
+
+  test('should merge objects, replace arrays and remove keys set to null', () => {
+    const base = { servers: { npm: { command: 'node', args: ['npm.js'] }, pip: { command: 'node' } }, limit: 5 };
+
+    expect(mergeConfig(base, { servers: { npm: { args: ['other.js'] }, pip: null, cargo: { command: 'cargo' } } })).toEqual({
+      servers: { npm: { command: 'node', args: ['other.js'] }, cargo: { command: 'cargo' } },
+      limit: 5
+    });
+    expect(base.servers.pip).toEqual({ command: 'node' });
+  });
+
+  test('should read overrides from XDG_CONFIG_HOME', () => {
+    expect(userConfigDirectory()).toBe(join(configHome, 'package-readme-core-mcp-server'));
+    expect(readUserConfig('mcp-servers.json')).toBeUndefined();
+
+    writeUserConfig('mcp-servers.json', { servers: {} });
+    expect(readUserConfig('mcp-servers.json')).toEqual({ servers: {} });
+
+    writeFileSync(join(userConfigDirectory(), 'mcp-servers.json'), '{');
+    expect(() => readUserConfig('mcp-servers.json')).toThrow('Failed to parse');
+  });
+
+  test('should apply overrides to the registry config', async () => {
+    writeUserConfig('mcp-servers.json', { servers: { pip: null, npm: { args: ['./npm-server.js'] } } });
+    writeUserConfig('package-managers.json', { managers: { cargo: { package_name_patterns: ['^cargo-only$'] } } });
+
+    const config = await new ManagerRegistry().loadConfig();
+
+    expect(config.mcpServers.has(PackageManager.PIP)).toBe(false);
+    expect(config.mcpServers.get(PackageManager.NPM)?.args).toEqual(['./npm-server.js']);
+    expect(config.managers.get(PackageManager.CARGO)?.package_name_patterns.map(pattern => pattern.source)).toEqual(['^cargo-only$']);
+    expect(config.managers.get(PackageManager.CARGO)?.name).toBe('Cargo');
+  });
+});
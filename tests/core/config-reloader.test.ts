@@ -0,0 +1,168 @@
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ConfigReloader } from "../../src/core/config-reloader.js";
+import { ManagerRegistry } from "../../src/detection/manager-registry.js";
+import { PatternDetector } from "../../src/detection/pattern-detector.js";
+import { settingsLoader } from "../../src/config/settings-loader.js";
+import { detectionCache } from "../../src/utils/cache.js";
+import { logger } from "../../src/utils/logger.js";
+import { PackageManager } from "../../src/types/index.js";
+
+describe('ConfigReloader', () => {
+  const originalSettings = settingsLoader.getSettings();
+  let registry: ManagerRegistry;
+  let clientManager: { getConfiguredManagers: () => PackageManager[]; updateServerConfigs: ReturnType<typeof vi.fn> };
+  let supervisor: { connectServer: ReturnType<typeof vi.fn>; forget: ReturnType<typeof vi.fn> };
+  let reloader: ConfigReloader;
+
+  beforeEach(async () => {
+    vi.spyOn(logger, 'info').mockImplementation(() => undefined);
+    vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(logger, 'error').mockImplementation(() => undefined);
+    registry = new ManagerRegistry();
+    await registry.initialize();
+
+    clientManager = {
+      getConfiguredManagers: () => Array.from(registry.getServerConfigs().keys()),
+      updateServerConfigs: vi.fn(async () => undefined)
+    };
+    supervisor = { connectServer: vi.fn(async () => undefined), forget: vi.fn() };
+    reloader = new ConfigReloader(registry, clientManager as any, supervisor as any);
+  });
+
+  afterEach(() => {
+    reloader.stop();
+    settingsLoader.applySettings(originalSettings);
+    detectionCache.clear();
+    vi.restoreAllMocks();
+  });
+
+  test('should connect changed servers and drop removed ones', async () => {
+    const config = await registry.loadConfig();
+    config.mcpServers.delete(PackageManager.PIP);
+    config.mcpServers.get(PackageManager.NPM)!.args = ['../npm-package-readme-mcp-server/dist/cli.js'];
+    vi.spyOn(registry, 'loadConfig').mockResolvedValue(config);
+
+    const result = await reloader.reload();
+
+    expect(result).toMatchObject({
+      applied: true,
+      settings: [],
+      servers: { added: [], removed: [PackageManager.PIP], changed: [PackageManager.NPM] }
+    });
+    expect(supervisor.forget).toHaveBeenCalledWith(PackageManager.PIP);
+    expect(supervisor.connectServer.mock.calls).toEqual([[PackageManager.NPM]]);
+    const [serverConfigs, changed] = clientManager.updateServerConfigs.mock.calls[0];
+    expect(serverConfigs.has(PackageManager.PIP)).toBe(false);
+    expect(changed).toEqual([PackageManager.NPM]);
+    expect(registry.getMCPServerConfig(PackageManager.PIP)).toBeUndefined();
+  });
+
+  test('should keep the state of servers whose config is unchanged', async () => {
+    vi.spyOn(logger, 'debug').mockImplementation(() => undefined);
+    registry.updateConnectionStatus(PackageManager.NPM, 'connected');
+    registry.reconcileTools(PackageManager.NPM, [{ name: 'get_package_info', input_schema: { type: 'object' } }]);
+    detectionCache.cacheDetectionResult('serde', [], [{ manager: PackageManager.CARGO }]);
+
+    const result = await reloader.reload();
+
+    expect(result.servers).toEqual({ added: [], removed: [], changed: [] });
+    expect(registry.getMCPServerConfig(PackageManager.NPM)?.connection_status).toBe('connected');
+    expect(registry.getSupportedTools(PackageManager.NPM)).toEqual(['get_package_info']);
+    expect(supervisor.connectServer).not.toHaveBeenCalled();
+    expect(detectionCache.getDetectionResult('serde', [])).toBeDefined();
+  });
+
+  test('should recompile package name patterns', async () => {
+    const config = await registry.loadConfig();
+    config.managers.get(PackageManager.CARGO)!.package_name_patterns = [/^cargo-only$/];
+    vi.spyOn(registry, 'loadConfig').mockResolvedValue(config);
+    detectionCache.cacheDetectionResult('serde', [], [{ manager: PackageManager.CARGO }]);
+
+    const result = await reloader.reload();
+
+    expect(result.managers?.changed).toEqual([PackageManager.CARGO]);
+    expect(detectionCache.getDetectionResult('serde', [])).toBeUndefined();
+    expect(registry.getManager(PackageManager.CARGO)?.package_name_patterns.map(pattern => pattern.source)).toEqual(['^cargo-only$']);
+    const detector = new PatternDetector(registry);
+    expect(detector.detectByPackageName('cargo-only').map(detection => detection.manager)).toContain(PackageManager.CARGO);
+    expect(detector.detectByPackageName('serde').map(detection => detection.manager)).not.toContain(PackageManager.CARGO);
+  });
+
+  test('should report changed settings and the ones that need a restart', async () => {
+    vi.spyOn(settingsLoader, 'readSettings').mockReturnValue({
+      ...originalSettings,
+      confidence_thresholds: { ...originalSettings.confidence_thresholds, minimum_confidence: 0.5 },
+      transport_settings: { ...originalSettings.transport_settings, port: 4000 }
+    });
+
+    const result = await reloader.reload();
+
+    expect(result.settings).toEqual(['confidence_thresholds', 'transport_settings']);
+    expect(result.restart_required).toEqual(['transport_settings']);
+    expect(settingsLoader.getSettings().confidence_thresholds.minimum_confidence).toBe(0.5);
+  });
+
+  test('should tell listeners about reloads that changed the config', async () => {
+    vi.spyOn(logger, 'debug').mockImplementation(() => undefined);
+    const listener = vi.fn();
+    reloader.onReloaded(listener);
+
+    await reloader.reload();
+    expect(listener).not.toHaveBeenCalled();
+
+    const config = await registry.loadConfig();
+    config.mcpServers.delete(PackageManager.PIP);
+    vi.spyOn(registry, 'loadConfig').mockResolvedValue(config);
+    const result = await reloader.reload();
+
+    expect(listener).toHaveBeenCalledWith(result);
+  });
+
+  test('should keep the current config when the new one is invalid', async () => {
+    vi.spyOn(registry, 'loadConfig').mockRejectedValue(new Error('Invalid package name pattern for npm: Unterminated group'));
+    vi.spyOn(settingsLoader, 'readSettings').mockReturnValue({
+      ...originalSettings,
+      confidence_thresholds: { ...originalSettings.confidence_thresholds, minimum_confidence: 0.5 }
+    });
+
+    const result = await reloader.reload();
+
+    expect(result).toEqual({ applied: false, error: 'Invalid package name pattern for npm: Unterminated group' });
+    expect(settingsLoader.getSettings()).toBe(originalSettings);
+    expect(clientManager.updateServerConfigs).not.toHaveBeenCalled();
+  });
+
+  test('should reject package manager configs with invalid patterns', () => {
+    expect(() => ManagerRegistry.parsePackageManagers({
+      managers: { npm: { name: 'npm', file_patterns: [], package_name_patterns: ['^(unclosed'], priority: 1 } }
+    })).toThrow('Invalid package name pattern for npm');
+    expect(() => ManagerRegistry.parseMCPServers({ servers: { npm: { transport: 'sse', tools: [] } } }))
+      .toThrow('The npm MCP server needs a url');
+  });
+
+  test('should reload once after a burst of writes to the watched directories', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'config-reloader-'));
+    vi.spyOn(settingsLoader, 'getSettings').mockReturnValue({
+      ...originalSettings,
+      reload_settings: { watch: true, debounce_ms: 20 }
+    });
+    reloader = new ConfigReloader(registry, clientManager as any, supervisor as any, [directory, join(directory, 'missing')]);
+    const reload = vi.spyOn(reloader, 'reload').mockResolvedValue({ applied: true });
+
+    try {
+      reloader.start();
+      writeFileSync(join(directory, 'mcp-servers.json'), '{}');
+      writeFileSync(join(directory, 'mcp-servers.json'), '{"servers":{}}');
+      writeFileSync(join(directory, 'notes.txt'), 'ignored');
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(reload).toHaveBeenCalledTimes(1);
+    } finally {
+      reloader.stop();
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
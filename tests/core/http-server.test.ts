@@ -0,0 +1,100 @@
+import { expect, test, describe, beforeEach, afterEach } from "vitest";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { OrchestratorHttpServer } from "../../src/core/http-server.js";
+
+const createOrchestrator = () => ({
+  createSessionServer: () => {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'smart_package_info', inputSchema: { type: 'object' as const } }]
+    }));
+    return server;
+  },
+  healthCheck: async () => ({ status: 'healthy' })
+});
+
+describe('OrchestratorHttpServer', () => {
+  let httpServer: OrchestratorHttpServer;
+  let baseUrl: string;
+  const clients: Client[] = [];
+
+  const connect = async (transport: StreamableHTTPClientTransport | SSEClientTransport) => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(async () => {
+    httpServer = new OrchestratorHttpServer(createOrchestrator() as any, {
+      type: 'http',
+      host: '127.0.0.1',
+      port: 0,
+      session_idle_timeout_ms: 1800000,
+      max_request_bytes: 1024,
+      allowed_origins: ['http://localhost:5173']
+    });
+    const address = await httpServer.start();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.close().catch(() => undefined)));
+    await httpServer.stop();
+  });
+
+  test('should give every Streamable HTTP client its own session', async () => {
+    const first = await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    const secondTransport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    const second = await connect(secondTransport);
+
+    expect((await first.listTools()).tools.map(tool => tool.name)).toEqual(['smart_package_info']);
+    expect((await second.listTools()).tools.map(tool => tool.name)).toEqual(['smart_package_info']);
+    expect(httpServer.getSessionCount()).toBe(2);
+
+    await secondTransport.terminateSession();
+    expect(httpServer.getSessionCount()).toBe(1);
+  });
+
+  test('should serve clients of the HTTP+SSE transport', async () => {
+    const client = await connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+    expect((await client.listTools()).tools.map(tool => tool.name)).toEqual(['smart_package_info']);
+    expect(httpServer.getSessionCount()).toBe(1);
+  });
+
+  test('should reject requests without a valid session', async () => {
+    const post = (headers: Record<string, string>, body: unknown) => fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(body)
+    });
+    const listTools = { jsonrpc: '2.0', id: 1, method: 'tools/list' };
+
+    expect((await post({}, listTools)).status).toBe(400);
+    expect((await post({ 'Mcp-Session-Id': 'unknown' }, listTools)).status).toBe(404);
+  });
+
+  test('should reject unknown origins and oversized bodies', async () => {
+    const fromOrigin = await fetch(`${baseUrl}/health`, { headers: { Origin: 'http://evil.example' } });
+    const oversized = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ padding: 'x'.repeat(2048) })
+    });
+
+    expect(fromOrigin.status).toBe(403);
+    expect(oversized.status).toBe(413);
+  });
+
+  test('should report health with the session count', async () => {
+    const response = await fetch(`${baseUrl}/health`, { headers: { Origin: 'http://localhost:5173' } });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'healthy', sessions: 0 });
+  });
+});
@@ -0,0 +1,55 @@
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import { ManagerRegistry } from "../../src/detection/manager-registry.js";
+import { logger } from "../../src/utils/logger.js";
+import { PackageManager } from "../../src/types/index.js";
+
+describe('ManagerRegistry tool discovery', () => {
+  let registry: ManagerRegistry;
+
+  const tool = (name: string) => ({ name, input_schema: { type: 'object' } });
+
+  beforeEach(async () => {
+    registry = new ManagerRegistry();
+    await registry.initialize();
+    registry.updateConnectionStatus(PackageManager.NPM, 'connected');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('should use the configured tools until the server lists its own', () => {
+    expect(registry.getSupportedTools(PackageManager.NPM)).toEqual(['get_package_readme', 'get_package_info', 'search_packages']);
+    expect(registry.getDiscoveredTools(PackageManager.NPM)).toBeUndefined();
+  });
+
+  test('should prefer discovered tools and warn when they drift from the config', () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+
+    registry.reconcileTools(PackageManager.NPM, [tool('get_package_readme'), tool('get_package_info'), tool('get_download_stats')]);
+
+    expect(registry.getSupportedTools(PackageManager.NPM)).toEqual(['get_package_readme', 'get_package_info', 'get_download_stats']);
+    expect(warn).toHaveBeenCalledWith('Tools of the npm MCP server differ from mcp-servers.json', {
+      missing: ['search_packages'],
+      unlisted: ['get_download_stats']
+    });
+  });
+
+  test('should not warn when the server matches the config', () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+
+    registry.reconcileTools(PackageManager.NPM, [tool('search_packages'), tool('get_package_info'), tool('get_package_readme')]);
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  test('should treat managers without a tool as unavailable for it', () => {
+    vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    registry.reconcileTools(PackageManager.NPM, [tool('get_package_readme')]);
+
+    expect(registry.isManagerAvailable(PackageManager.NPM)).toBe(true);
+    expect(registry.isManagerAvailable(PackageManager.NPM, 'get_package_readme')).toBe(true);
+    expect(registry.isManagerAvailable(PackageManager.NPM, 'search_packages')).toBe(false);
+    expect(registry.getManagersWithToolSupport('search_packages')).not.toContain(PackageManager.NPM);
+  });
+});
@@ -0,0 +1,157 @@
+import { expect, test, describe } from "vitest";
+import { ManifestParser } from "../../src/detection/manifest-parser.js";
+import { ContextAnalyzer } from "../../src/detection/context-analyzer.js";
+import { ConfidenceCalculator } from "../../src/detection/confidence-calculator.js";
+import { PatternDetector } from "../../src/detection/pattern-detector.js";
+import { PackageManager } from "../../src/types/index.js";
+
+describe('ManifestParser', () => {
+  test('should parse package.json dependency sections', () => {
+    const parsed = ManifestParser.parse({
+      filename: 'web/package.json',
+      content: JSON.stringify({
+        dependencies: { express: '^4.18.0' },
+        devDependencies: { vitest: '^3.0.0' },
+        peerDependencies: { react: '>=18' }
+      })
+    });
+
+    expect(parsed?.manager).toBe(PackageManager.NPM);
+    expect(parsed?.filename).toBe('package.json');
+    expect(parsed?.dependencies).toEqual({ express: '^4.18.0', vitest: '^3.0.0', react: '>=18' });
+  });
+
+  test('should parse PEP 621 and Poetry dependencies from pyproject.toml', () => {
+    const parsed = ManifestParser.parse({
+      filename: 'pyproject.toml',
+      content: `
+[project]
+dependencies = ["requests[socks]>=2.31; python_version > '3.8'", "Click"]
+
+[project.optional-dependencies]
+dev = ["pytest"]
+
+[tool.poetry.dependencies]
+python = "^3.11"
+httpx = { version = "^0.27" }
+`
+    });
+
+    expect(parsed?.manager).toBe(PackageManager.PIP);
+    expect(parsed?.dependencies).toEqual({
+      requests: '>=2.31',
+      Click: '*',
+      pytest: '*',
+      httpx: '^0.27'
+    });
+  });
+
+  test('should parse requirements files', () => {
+    const parsed = ManifestParser.parse({
+      filename: 'requirements-dev.txt',
+      content: '-r requirements.txt\n# tools\nblack==24.1.0  # formatter\nflake8\n'
+    });
+
+    expect(parsed?.dependencies).toEqual({ black: '==24.1.0', flake8: '*' });
+  });
+
+  test('should parse Cargo.toml including renamed and target dependencies', () => {
+    const parsed = ManifestParser.parse({
+      filename: 'Cargo.toml',
+      content: `
+[dependencies]
+serde = { version = "1.0", features = ["derive"] }
+http_client = { package = "reqwest", version = "0.12" }
+
+[target.'cfg(windows)'.dependencies]
+winapi = "0.3"
+`
+    });
+
+    expect(parsed?.manager).toBe(PackageManager.CARGO);
+    expect(parsed?.dependencies).toEqual({ serde: '1.0', reqwest: '0.12', winapi: '0.3' });
+  });
+
+  test('should parse pom.xml dependencies', () => {
+    const parsed = ManifestParser.parse({
+      filename: 'pom.xml',
+      content: `
+<project>
+  <dependencies>
+    <!-- <dependency><groupId>ignored</groupId><artifactId>ignored</artifactId></dependency> -->
+    <dependency>
+      <groupId>com.google.guava</groupId>
+      <artifactId>guava</artifactId>
+      <version>33.0.0-jre</version>
+    </dependency>
+  </dependencies>
+</project>`
+    });
+
+    expect(parsed?.dependencies).toEqual({ 'com.google.guava:guava': '33.0.0-jre' });
+  });
+
+  test('should return null for unknown or malformed manifests', () => {
+    expect(ManifestParser.parse({ filename: 'README.md', content: '# hi' })).toBeNull();
+    expect(ManifestParser.parse({ filename: 'package.json', content: '{ not json' })).toBeNull();
+    expect(ManifestParser.parse(undefined)).toBeNull();
+  });
+
+  test('should match names using ecosystem normalization', () => {
+    const pip = { manager: PackageManager.PIP, filename: 'requirements.txt', dependencies: { 'Zope.Interface': '*' } };
+    expect(ManifestParser.findDependency(pip, 'zope-interface')?.name).toBe('Zope.Interface');
+
+    const maven = { manager: PackageManager.MAVEN, filename: 'pom.xml', dependencies: { 'com.google.guava:guava': '33' } };
+    expect(ManifestParser.findDependency(maven, 'guava')?.name).toBe('com.google.guava:guava');
+
+    const npm = { manager: PackageManager.NPM, filename: 'package.json', dependencies: { Express: '4' } };
+    expect(ManifestParser.findDependency(npm, 'express')).toBeNull();
+  });
+});
+
+describe('Manifest-aware detection', () => {
+  const analyzer = new ContextAnalyzer();
+  const calculator = new ConfidenceCalculator();
+  const detector = new PatternDetector();
+
+  test('should report declared packages as near-certain dependency patterns', () => {
+    const detections = analyzer.analyzeManifest(
+      { filename: 'requirements.txt', content: 'requests==2.31.0\n' },
+      'requests'
+    );
+
+    expect(detections).toHaveLength(1);
+    expect(detections[0].manager).toBe(PackageManager.PIP);
+    expect(detections[0].confidence).toBe(0.95);
+    expect(detections[0].detection_reasons[0].type).toBe('dependency_pattern');
+  });
+
+  test('should only hint at the ecosystem when the package is not declared', () => {
+    const detections = analyzer.analyzeManifest(
+      { filename: 'package.json', content: '{"dependencies":{"lodash":"^4"}}' },
+      'requests'
+    );
+
+    expect(detections[0].manager).toBe(PackageManager.NPM);
+    expect(detections[0].confidence).toBe(0.5);
+    expect(detections[0].detection_reasons[0].type).toBe('file_pattern');
+  });
+
+  test('should make the declaring manager win with high confidence', () => {
+    const manifestDetections = analyzer.analyzeManifest(
+      { filename: 'pyproject.toml', content: '[project]\ndependencies = ["click>=8"]\n' },
+      'click'
+    );
+
+    const result = calculator.calculateOverallConfidence(
+      detector.detectByPackageName('click'),
+      [],
+      [],
+      manifestDetections
+    );
+
+    expect(result[0].manager).toBe(PackageManager.PIP);
+    expect(calculator.getConfidenceLevel(result[0].confidence)).toBe('high');
+    expect(calculator.shouldUseParallelExecution(result).strategy).toBe('single');
+  });
+});
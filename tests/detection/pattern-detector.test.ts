@@ -1,5 +1,6 @@
 import { expect, test, describe, beforeEach } from "vitest";
 import { PatternDetector } from "../../src/detection/pattern-detector.js";
+import { ManagerRegistry } from "../../src/detection/manager-registry.js";
 import { PackageManager } from "../../src/types/index.js";
 
 describe('PatternDetector', () => {
@@ -104,4 +105,17 @@ describe('PatternDetector', () => {
       expect(result).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('with a manager registry', () => {
+    test('should detect the same managers from package-managers.json as from the built-in patterns', async () => {
+      const registry = new ManagerRegistry();
+      await registry.initialize();
+      const configured = new PatternDetector(registry);
+      const summarize = (results: any[]) => results.map(result => [result.manager, result.confidence]);
+
+      for (const name of ['lodash', '@types/node', 'Django', 'requests', 'serde_json', 'org.slf4j:slf4j-api', 'laravel/framework']) {
+        expect(summarize(configured.detectByPackageName(name))).toEqual(summarize(detector.detectByPackageName(name)));
+      }
+    });
+  });
+});
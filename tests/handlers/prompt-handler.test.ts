@@ -0,0 +1,98 @@
+import { expect, test, describe } from "vitest";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { PromptHandler } from "../../src/handlers/prompt-handler.js";
+import { PromptProvider } from "../../src/handlers/prompt-provider.js";
+
+describe('PromptHandler', () => {
+  const readmeCalls: any[] = [];
+  const infoCalls: any[] = [];
+
+  const readmeTool = {
+    execute: async (params: any) => {
+      readmeCalls.push(params);
+      if (params.package_name === 'missing') {
+        return { success: false, errors: [{ message: 'Package not found' }], metadata: {} };
+      }
+      const version = params.version || '4.19.2';
+      return {
+        success: true,
+        data: {
+          package_manager: 'npm',
+          readme_data: { package_name: 'express', version, readme_content: `# Express ${version}\n` + 'x'.repeat(30000) }
+        },
+        metadata: {}
+      };
+    }
+  };
+  const infoTool = {
+    execute: async (params: any) => {
+      infoCalls.push(params);
+      return {
+        success: true,
+        data: { package_manager: 'npm', package_data: { package_name: params.package_name || 'requests', latest_version: '1.0.0' } },
+        metadata: {}
+      };
+    }
+  };
+  const handler = new PromptHandler(readmeTool as any, infoTool as any);
+
+  test('should advertise the prompt templates', () => {
+    const names = PromptProvider.getPrompts().map(prompt => prompt.name);
+    expect(names).toEqual(['compare_packages', 'migration_guide', 'evaluate_dependency']);
+  });
+
+  test('should embed both READMEs in the migration guide', async () => {
+    const result = await handler.getPrompt('migration_guide', {
+      package_name: 'npm:express',
+      from_version: '4.18.0',
+      to_version: '5.0.0'
+    });
+
+    expect(result.messages).toHaveLength(3);
+    expect(result.messages[0].content.text).toContain('from version 4.18.0 to version 5.0.0');
+    expect(result.messages[1].content.resource.uri).toBe('package://npm/express@4.18.0/README.md');
+    expect(result.messages[2].content.resource.text).toContain('# Express 5.0.0');
+    expect(result.messages[2].content.resource.text).toContain('[README truncated]');
+    expect(readmeCalls.at(-1).purl).toBe('pkg:npm/express@5.0.0');
+  });
+
+  test('should fetch info and README for each compared package', async () => {
+    infoCalls.length = 0;
+    const result = await handler.getPrompt('compare_packages', {
+      packages: 'pip:requests, pkg:pypi/httpx',
+      criteria: 'async support'
+    });
+
+    expect(result.messages).toHaveLength(5);
+    expect(result.messages[0].content.text).toContain('Focus on: async support.');
+    expect(infoCalls.map(call => call.purl)).toEqual(['pkg:pypi/requests', 'pkg:pypi/httpx']);
+    expect(result.messages[1].content.resource.mimeType).toBe('application/json');
+  });
+
+  test('should describe failed fetches instead of failing the prompt', async () => {
+    const result = await handler.getPrompt('evaluate_dependency', { package_name: 'missing' });
+
+    expect(result.messages[2].content).toEqual({
+      type: 'text',
+      text: 'README for missing could not be fetched: Package not found'
+    });
+  });
+
+  test('should reject unknown prompts and missing arguments', async () => {
+    await expect(handler.getPrompt('unknown_prompt')).rejects.toThrow('Unknown prompt');
+    await expect(handler.getPrompt('migration_guide', { package_name: 'express' }))
+      .rejects.toThrow('from_version, to_version');
+  });
+
+  test('should reject invalid package names and versions as invalid params', async () => {
+    const callCount = readmeCalls.length;
+
+    await expect(handler.getPrompt('evaluate_dependency', { package_name: '../../etc/passwd' }))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams, message: expect.stringContaining('Invalid package_name') });
+    await expect(handler.getPrompt('compare_packages', { packages: 'express, npm:<script>' }))
+      .rejects.toThrow('Invalid packages');
+    await expect(handler.getPrompt('migration_guide', { package_name: 'express', from_version: '4.18.0', to_version: '5.0.0; rm -rf' }))
+      .rejects.toThrow('Invalid to_version: Version contains invalid characters');
+    expect(readmeCalls).toHaveLength(callCount);
+  });
+});
@@ -0,0 +1,105 @@
+import { expect, test, describe } from "vitest";
+import { ResourceHandler } from "../../src/handlers/resource-handler.js";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { PackageManager } from "../../src/types/index.js";
+
+describe('ResourceHandler', () => {
+  describe('parseUri', () => {
+    test('should parse README and info URIs', () => {
+      expect(ResourceHandler.parseUri('package://npm/express/README.md')).toEqual({
+        manager: PackageManager.NPM,
+        package_name: 'express',
+        version: undefined,
+        kind: 'readme'
+      });
+      expect(ResourceHandler.parseUri('package://pip/requests@2.31.0/info')).toEqual({
+        manager: PackageManager.PIP,
+        package_name: 'requests',
+        version: '2.31.0',
+        kind: 'info'
+      });
+    });
+
+    test('should keep scoped and namespaced package names', () => {
+      expect(ResourceHandler.parseUri('package://npm/@types/node@20.11.0/README.md')).toMatchObject({
+        package_name: '@types/node',
+        version: '20.11.0'
+      });
+      expect(ResourceHandler.parseUri('package://composer/laravel/framework/info').package_name).toBe('laravel/framework');
+      expect(ResourceHandler.parseUri('package://npm/%40babel%2Fcore/info').package_name).toBe('@babel/core');
+    });
+
+    test('should accept purl types and auto detection', () => {
+      expect(ResourceHandler.parseUri('package://pypi/requests/info').manager).toBe(PackageManager.PIP);
+      expect(ResourceHandler.parseUri('package://auto/requests/info').manager).toBeUndefined();
+    });
+
+    test('should reject unsupported URIs', () => {
+      expect(() => ResourceHandler.parseUri('https://npmjs.com/express')).toThrow('Unsupported resource URI');
+      expect(() => ResourceHandler.parseUri('package://npm/express/CHANGELOG.md')).toThrow('Invalid package resource URI');
+      expect(() => ResourceHandler.parseUri('package://golang/mux/info')).toThrow('Unknown package manager');
+    });
+
+    test('should validate the decoded package name and version', () => {
+      expect(() => ResourceHandler.parseUri('package://npm/..%2F..%2Fx/info')).toThrow('Invalid package resource URI');
+      expect(() => ResourceHandler.parseUri('package://auto/..%2F..%2Fx/info')).toThrow('blocked pattern: ../');
+      expect(() => ResourceHandler.parseUri('package://npm/express@4.18.2%3Brm/README.md')).toThrow('Version contains invalid characters');
+      expect(() => ResourceHandler.parseUri('package://auto/requests@%3Cscript%3E/info')).toThrow('Version contains invalid characters');
+      expect(ResourceHandler.parseUri('package://maven/org.slf4j:slf4j-api@2.0.9/info').package_name).toBe('org.slf4j:slf4j-api');
+    });
+  });
+
+  test('should advertise templates for README and info resources', () => {
+    const templates = ResourceHandler.getResourceTemplates().map(template => template.uriTemplate);
+    expect(templates).toContain('package://{manager}/{package}/README.md');
+    expect(templates).toContain('package://{manager}/{package}@{version}/info');
+  });
+
+  describe('readResource', () => {
+    const calls: any[] = [];
+    const readmeTool = {
+      execute: async (params: any) => {
+        calls.push(params);
+        return params.purl === 'pkg:npm/missing'
+          ? { success: false, errors: [{ message: 'Package not found' }], metadata: {} }
+          : { success: true, data: { readme_data: { readme_content: '# Express' } }, metadata: {} };
+      }
+    };
+    const infoTool = {
+      execute: async (params: any) => {
+        calls.push(params);
+        return { success: true, data: { package_data: { package_name: 'requests', license: 'Apache-2.0' } }, metadata: {} };
+      }
+    };
+    const handler = new ResourceHandler(readmeTool as any, infoTool as any);
+
+    test('should route README reads through the readme tool with an explicit purl', async () => {
+      const result = await handler.readResource('package://npm/express@4.18.2/README.md');
+
+      expect(result.contents[0]).toEqual({
+        uri: 'package://npm/express@4.18.2/README.md',
+        mimeType: 'text/markdown',
+        text: '# Express'
+      });
+      expect(calls[calls.length - 1]).toMatchObject({ purl: 'pkg:npm/express@4.18.2', version: '4.18.2' });
+    });
+
+    test('should return package info as JSON and detect the manager for auto URIs', async () => {
+      const result = await handler.readResource('package://auto/requests/info');
+
+      expect(result.contents[0].mimeType).toBe('application/json');
+      expect(JSON.parse(result.contents[0].text)).toEqual({ package_name: 'requests', license: 'Apache-2.0' });
+      expect(calls[calls.length - 1]).toMatchObject({ package_name: 'requests' });
+    });
+
+    test('should surface lookup failures as errors', async () => {
+      await expect(handler.readResource('package://npm/missing/README.md')).rejects.toThrow('Package not found');
+    });
+
+    test('should reject traversal URIs before calling any tool', async () => {
+      const callCount = calls.length;
+      await expect(handler.readResource('package://npm/..%2F..%2Fx/info')).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+      expect(calls).toHaveLength(callCount);
+    });
+  });
+});
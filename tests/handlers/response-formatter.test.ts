@@ -0,0 +1,132 @@
+import { expect, test, describe } from "vitest";
+import { CallToolResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import { ResponseFormatter } from "../../src/handlers/response-formatter.js";
+import { SchemaProvider } from "../../src/handlers/schema-provider.js";
+
+describe('ResponseFormatter', () => {
+  const metadata = {
+    execution_time: 12,
+    managers_attempted: ['npm'],
+    managers_succeeded: ['npm'],
+    detection_confidence: 0.9
+  };
+  const readmeResult = {
+    success: true,
+    data: {
+      package_manager: 'npm',
+      confidence_score: 0.9,
+      readme_data: {
+        package_manager: 'npm',
+        package_name: 'express',
+        version: '4.19.2',
+        readme_content: '# Express\n\n```js\nconst app = express();\n```\n'
+      }
+    },
+    metadata
+  };
+
+  test('should return READMEs as raw markdown by default', () => {
+    const result = ResponseFormatter.format('smart_package_readme', readmeResult, 'markdown');
+
+    expect(result.content).toEqual([{ type: 'text', text: readmeResult.data.readme_data.readme_content }]);
+    expect(result.structuredContent).toEqual(readmeResult);
+    expect(() => CallToolResultSchema.parse(result)).not.toThrow();
+  });
+
+  test('should return serialized JSON and markdown for both', () => {
+    const json = ResponseFormatter.format('smart_package_readme', readmeResult, 'json');
+    expect(json.content).toHaveLength(1);
+    expect(JSON.parse(json.content[0].text)).toEqual(readmeResult);
+
+    const both = ResponseFormatter.format('smart_package_readme', readmeResult, 'both');
+    expect(both.content.map(item => item.text)).toEqual([json.content[0].text, readmeResult.data.readme_data.readme_content]);
+  });
+
+  test('should drop undefined values from structured content', () => {
+    const result = ResponseFormatter.format('smart_package_info', {
+      success: false,
+      data: undefined,
+      errors: [{ error_type: 'DETECTION_FAILED', message: 'Could not detect appropriate package manager' }],
+      metadata
+    }, 'markdown');
+
+    expect('data' in result.structuredContent).toBe(false);
+    expect(result.content[0].text).toBe('> **DETECTION_FAILED**: Could not detect appropriate package manager');
+  });
+
+  test('should flag failed orchestrations as tool errors', () => {
+    const failed = ResponseFormatter.format('smart_package_info', {
+      success: false,
+      errors: [{ error_type: 'ALL_MANAGERS_FAILED', message: 'Package not found' }],
+      metadata
+    }, 'markdown');
+
+    expect(failed.isError).toBe(true);
+    expect(() => CallToolResultSchema.parse(failed)).not.toThrow();
+    expect(ResponseFormatter.format('smart_package_readme', readmeResult, 'markdown').isError).toBeUndefined();
+  });
+
+  test('should render package information and dependency trees as markdown', () => {
+    const info = ResponseFormatter.toMarkdown('smart_package_info', {
+      success: true,
+      data: {
+        package_data: {
+          package_manager: 'pip',
+          package_name: 'requests',
+          latest_version: '2.31.0',
+          description: 'Python HTTP for Humans.',
+          license: 'Apache-2.0',
+          dependencies: { urllib3: '>=1.21.1' }
+        }
+      }
+    });
+    expect(info).toContain('# requests 2.31.0');
+    expect(info).toContain('- **License:** Apache-2.0');
+    expect(info).toContain('- urllib3 >=1.21.1');
+
+    const tree = ResponseFormatter.toMarkdown('resolve_dependency_tree', {
+      success: true,
+      data: {
+        package_manager: 'npm',
+        root: {
+          name: 'a', version: '1.0.0', depth: 0,
+          dependencies: [{ name: 'b', version: '2.0.0', depth: 1, dependencies: [{ name: 'a', depth: 2, cycle: true, dependencies: [] }] }]
+        },
+        cycles: [['a', 'b', 'a']],
+        total_packages: 2,
+        max_depth: 3,
+        truncated: false
+      }
+    });
+    expect(tree).toContain('- a@1.0.0\n  - b@2.0.0\n    - a _(cycle)_');
+    expect(tree).toContain('- a → b → a');
+  });
+
+  test('should declare an output schema and response format for every tool', () => {
+    for (const tool of SchemaProvider.getToolSchemas()) {
+      expect(tool.outputSchema.type).toBe('object');
+      expect(tool.outputSchema.required).toEqual(['success', 'metadata']);
+      expect(tool.inputSchema.properties).toHaveProperty('response_format');
+    }
+  });
+
+  test('should accept any shape for dependencies and keywords', () => {
+    const infoTool = SchemaProvider.getToolSchemas().find(tool => tool.name === 'smart_package_info')!;
+    const packageData = (infoTool.outputSchema.properties as any).data.properties.package_data.properties;
+
+    // Downstream servers return dependencies as a map or as a list
+    for (const field of ['dependencies', 'dev_dependencies', 'keywords']) {
+      expect(packageData[field]).toEqual({});
+    }
+  });
+
+  test('should allow null for optional package fields', () => {
+    const infoTool = SchemaProvider.getToolSchemas().find(tool => tool.name === 'smart_package_info')!;
+    const packageData = (infoTool.outputSchema.properties as any).data.properties.package_data.properties;
+
+    for (const field of ['version', 'latest_version', 'description', 'homepage', 'readme_content']) {
+      expect(packageData[field].type).toEqual(['string', 'null']);
+    }
+    expect(packageData.package_name.type).toBe('string');
+  });
+});
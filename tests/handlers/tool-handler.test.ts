@@ -0,0 +1,90 @@
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import { ToolHandler } from "../../src/handlers/tool-handler.js";
+import { settingsLoader } from "../../src/config/settings-loader.js";
+import { logger } from "../../src/utils/logger.js";
+import { OrchestrationErrorType } from "../../src/types/index.js";
+
+describe('ToolHandler', () => {
+  let readmeCalls: any[];
+  let handler: ToolHandler;
+
+  beforeEach(() => {
+    vi.spyOn(logger, 'error').mockImplementation(() => undefined);
+    readmeCalls = [];
+    const readmeTool = {
+      execute: async (params: any) => {
+        readmeCalls.push(params);
+        return { success: true, data: {}, metadata: { managers_attempted: [] } };
+      }
+    };
+    handler = new ToolHandler({} as any, readmeTool as any, {} as any, {} as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const validationErrors = (result: any): string[] => {
+    expect(result.success).toBe(false);
+    expect(result.errors[0].error_type).toBe(OrchestrationErrorType.VALIDATION_ERROR);
+    return result.errors[0].details.validation_errors;
+  };
+
+  describe('smart_package_readme', () => {
+    test('should reject invalid sections before calling the tool', async () => {
+      const numeric = await handler.handleToolCall('smart_package_readme', { package_name: 'express', sections: [123] });
+      const single = await handler.handleToolCall('smart_package_readme', { package_name: 'express', sections: 'Usage' });
+
+      expect(validationErrors(numeric)).toContain('Each section must be a non-empty string');
+      expect(validationErrors(single)).toContain('Sections must be an array');
+      expect(readmeCalls).toHaveLength(0);
+    });
+
+    test('should reject a lockfile over the configured size', async () => {
+      const settings = settingsLoader.getSettings();
+      vi.spyOn(settingsLoader, 'getSettings').mockReturnValue({
+        ...settings,
+        validation_rules: { ...settings.validation_rules, max_lockfile_length: 32 }
+      });
+
+      const result = await handler.handleToolCall('smart_package_readme', {
+        package_name: 'express',
+        lockfile: { filename: 'package-lock.json', content: JSON.stringify({ packages: { 'node_modules/express': { version: '4.18.2' } } }) }
+      });
+
+      expect(validationErrors(result)).toContain('Lockfile content too long (max 32 characters)');
+      expect(readmeCalls).toHaveLength(0);
+    });
+
+    test('should only accept a boolean fresh flag', async () => {
+      const result = await handler.handleToolCall('smart_package_readme', { package_name: 'express', fresh: 'no' });
+      await handler.handleToolCall('smart_package_readme', { package_name: 'express', fresh: true });
+
+      expect(validationErrors(result)).toContain('Fresh must be a boolean');
+      expect(readmeCalls.map(params => params.fresh)).toEqual([true]);
+    });
+
+    test('should pass the validated params to the tool', async () => {
+      await handler.handleToolCall('smart_package_readme', {
+        package_name: 'express',
+        sections: [' Usage '],
+        context_hints: ['<node>']
+      });
+
+      expect(readmeCalls).toHaveLength(1);
+      expect(readmeCalls[0]).toMatchObject({
+        package_name: 'express',
+        sections: ['Usage'],
+        context_hints: ['node']
+      });
+    });
+
+    test('should only set include_examples when it is passed', async () => {
+      await handler.handleToolCall('smart_package_readme', { package_name: 'express' });
+      await handler.handleToolCall('smart_package_readme', { package_name: 'express', include_examples: true });
+      await handler.handleToolCall('smart_package_readme', { package_name: 'express', include_examples: false });
+
+      expect(readmeCalls.map(params => params.include_examples)).toEqual([undefined, true, false]);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { expect, test, describe } from "vitest";
+import { LockfileParser } from "../../src/lockfiles/lockfile-parser.js";
+import { LockfileResolver } from "../../src/lockfiles/lockfile-resolver.js";
+import { ContextAnalyzer } from "../../src/detection/context-analyzer.js";
+import { PackageManager } from "../../src/types/index.js";
+
+const findVersion = (filename: string, content: string, name: string) =>
+  LockfileParser.parse({ filename, content })?.packages.find(pkg => pkg.name === name)?.version;
+
+describe('LockfileParser', () => {
+  test('should prefer top-level entries in package-lock.json v3', () => {
+    const content = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app' },
+        'node_modules/debug/node_modules/ms': { version: '2.0.0' },
+        'node_modules/ms': { version: '2.1.3' },
+        'node_modules/@types/node': { version: '20.11.0' }
+      }
+    });
+
+    expect(findVersion('package-lock.json', content, 'ms')).toBe('2.1.3');
+    expect(findVersion('package-lock.json', content, '@types/node')).toBe('20.11.0');
+  });
+
+  test('should parse package-lock.json v1 dependencies', () => {
+    const content = JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: {
+        debug: { version: '2.6.9', dependencies: { ms: { version: '2.0.0' } } },
+        ms: { version: '2.1.3' }
+      }
+    });
+
+    expect(findVersion('package-lock.json', content, 'ms')).toBe('2.1.3');
+  });
+
+  test('should parse classic and Berry yarn.lock files', () => {
+    const classic = `# yarn lockfile v1
+
+"@babel/core@^7.0.0", "@babel/core@^7.1.0":
+  version "7.23.2"
+  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.23.2.tgz"
+
+lodash@^4.17.21:
+  version "4.17.21"
+`;
+    const berry = `__metadata:
+  version: 8
+
+"lodash@npm:^4.17.21":
+  version: 4.17.21
+  resolution: "lodash@npm:4.17.21"
+`;
+
+    expect(findVersion('yarn.lock', classic, '@babel/core')).toBe('7.23.2');
+    expect(findVersion('yarn.lock', classic, 'lodash')).toBe('4.17.21');
+    expect(findVersion('yarn.lock', berry, 'lodash')).toBe('4.17.21');
+    expect(LockfileParser.parse({ filename: 'yarn.lock', content: berry })?.packages).toHaveLength(1);
+  });
+
+  test('should parse pnpm-lock.yaml v5, v6 and v9 layouts', () => {
+    const v5 = `lockfileVersion: 5.4
+
+dependencies:
+  react: 18.2.0
+
+packages:
+
+  /react/18.2.0:
+    resolution: {integrity: sha512-abc}
+
+  /@babel/core/7.23.2_react@18.2.0:
+    resolution: {integrity: sha512-def}
+`;
+    const v9 = `lockfileVersion: '9.0'
+
+importers:
+
+  .:
+    dependencies:
+      react:
+        specifier: ^18.2.0
+        version: 18.2.0
+
+packages:
+
+  '@babel/core@7.23.2':
+    resolution: {integrity: sha512-def}
+
+snapshots:
+
+  react@18.2.0(loose-envify@1.4.0):
+    dependencies:
+      loose-envify: 1.4.0
+`;
+
+    expect(findVersion('pnpm-lock.yaml', v5, 'react')).toBe('18.2.0');
+    expect(findVersion('pnpm-lock.yaml', v5, '@babel/core')).toBe('7.23.2');
+    expect(findVersion('pnpm-lock.yaml', v9, 'react')).toBe('18.2.0');
+    expect(findVersion('pnpm-lock.yaml', v9, '@babel/core')).toBe('7.23.2');
+  });
+
+  test('should parse Cargo.lock and poetry.lock packages', () => {
+    const cargo = `version = 3
+
+[[package]]
+name = "serde"
+version = "1.0.188"
+source = "registry+https://github.com/rust-lang/crates.io-index"
+`;
+    const poetry = `[[package]]
+name = "requests"
+version = "2.31.0"
+description = "Python HTTP for Humans."
+
+[package.extras]
+socks = ["PySocks (>=1.5.6,!=1.5.7)"]
+`;
+
+    expect(LockfileParser.parse({ filename: 'Cargo.lock', content: cargo })?.manager).toBe(PackageManager.CARGO);
+    expect(findVersion('Cargo.lock', cargo, 'serde')).toBe('1.0.188');
+    expect(LockfileParser.parse({ filename: 'poetry.lock', content: poetry })?.manager).toBe(PackageManager.PIP);
+    expect(findVersion('poetry.lock', poetry, 'requests')).toBe('2.31.0');
+  });
+
+  test('should parse Gemfile.lock specs without their requirements', () => {
+    const content = `GEM
+  remote: https://rubygems.org/
+  specs:
+    nokogiri (1.15.4-x86_64-linux)
+      racc (~> 1.4)
+    rails (7.1.1)
+      actionpack (= 7.1.1)
+
+PLATFORMS
+  x86_64-linux
+`;
+    const parsed = LockfileParser.parse({ filename: 'Gemfile.lock', content });
+
+    expect(parsed?.packages).toEqual([
+      { name: 'nokogiri', version: '1.15.4' },
+      { name: 'rails', version: '7.1.1' }
+    ]);
+  });
+
+  test('should parse composer.lock including dev packages', () => {
+    const content = JSON.stringify({
+      packages: [{ name: 'monolog/monolog', version: '3.4.0' }],
+      'packages-dev': [{ name: 'phpunit/phpunit', version: 'v10.4.1' }]
+    });
+
+    expect(findVersion('composer.lock', content, 'monolog/monolog')).toBe('3.4.0');
+    expect(findVersion('composer.lock', content, 'phpunit/phpunit')).toBe('10.4.1');
+  });
+
+  test('should map Podfile.lock subspecs to their root pod', () => {
+    const content = `PODS:
+  - Alamofire (5.8.0)
+  - Firebase/Core (10.16.0):
+    - Firebase/CoreOnly
+    - FirebaseAnalytics (= 10.16.0)
+
+DEPENDENCIES:
+  - Alamofire
+`;
+
+    expect(findVersion('Podfile.lock', content, 'Alamofire')).toBe('5.8.0');
+    expect(findVersion('Podfile.lock', content, 'Firebase')).toBe('10.16.0');
+  });
+
+  test('should parse Package.resolved v1 and v2 pins', () => {
+    const v1 = JSON.stringify({
+      object: { pins: [{ package: 'Alamofire', repositoryURL: 'https://github.com/Alamofire/Alamofire.git', state: { version: '5.8.0' } }] },
+      version: 1
+    });
+    const v2 = JSON.stringify({
+      pins: [{ identity: 'swift-argument-parser', location: 'https://github.com/apple/swift-argument-parser', state: { version: '1.2.3' } }],
+      version: 2
+    });
+
+    expect(findVersion('Package.resolved', v1, 'Alamofire')).toBe('5.8.0');
+    expect(findVersion('Package.resolved', v2, 'swift-argument-parser')).toBe('1.2.3');
+  });
+
+  test('should ignore unknown or malformed lockfiles', () => {
+    expect(LockfileParser.parse({ filename: 'Pipfile.lock', content: '{}' })).toBeNull();
+    expect(LockfileParser.parse({ filename: 'package-lock.json', content: '{not json' })).toBeNull();
+  });
+});
+
+describe('LockfileResolver', () => {
+  test('should resolve the locked version using ecosystem name normalization', () => {
+    const resolution = LockfileResolver.resolve({
+      filename: 'poetry.lock',
+      content: '[[package]]\nname = "typing-extensions"\nversion = "4.8.0"\n'
+    }, 'Typing_Extensions');
+
+    expect(resolution).toEqual({
+      manager: PackageManager.PIP,
+      package_name: 'typing-extensions',
+      version: '4.8.0',
+      lockfile: 'poetry.lock'
+    });
+  });
+
+  test('should return null when the package is not locked', () => {
+    const resolution = LockfileResolver.resolve({
+      filename: 'Cargo.lock',
+      content: '[[package]]\nname = "serde"\nversion = "1.0.188"\n'
+    }, 'tokio');
+
+    expect(resolution).toBeNull();
+  });
+
+  test('should turn a resolution into a high-confidence detection', () => {
+    const analyzer = new ContextAnalyzer();
+    const resolution = LockfileResolver.resolve({
+      filename: 'Gemfile.lock',
+      content: 'GEM\n  specs:\n    rails (7.1.1)\n'
+    }, 'rails');
+
+    const detections = analyzer.analyzeLockfile(resolution);
+    expect(detections).toHaveLength(1);
+    expect(detections[0].manager).toBe(PackageManager.GEM);
+    expect(detections[0].confidence).toBe(0.95);
+    expect(analyzer.analyzeLockfile(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ToolOrchestrationMCPServer } from "../src/server.js";
+import { ToolListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../src/utils/logger.js";
+import { settingsLoader } from "../src/config/settings-loader.js";
+
+describe('ToolOrchestrationMCPServer tool calls', () => {
+  let handleToolCall: ReturnType<typeof vi.fn>;
+  let client: Client;
+
+  beforeEach(async () => {
+    vi.spyOn(logger, 'error').mockImplementation(() => undefined);
+    handleToolCall = vi.fn(async () => ({ success: true, data: {}, metadata: {} }));
+
+    const orchestrator = new ToolOrchestrationMCPServer();
+    (orchestrator as any).dependencies = {
+      passthroughTools: { isPassthroughTool: (name: string) => name === 'npm__get_download_stats' }
+    };
+    (orchestrator as any).toolHandler = { handleToolCall };
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await orchestrator.createSessionServer().connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    vi.restoreAllMocks();
+  });
+
+  test('should take response_format out of the arguments of its own tools', async () => {
+    await client.callTool({ name: 'smart_package_info', arguments: { package_name: 'express', response_format: 'json' } });
+
+    expect(handleToolCall.mock.calls[0].slice(0, 2)).toEqual(['smart_package_info', { package_name: 'express' }]);
+    await expect(client.callTool({ name: 'smart_package_info', arguments: { package_name: 'express', response_format: 'csv' } }))
+      .rejects.toThrow('Response format must be one of');
+  });
+
+  test('should pass response_format through to pass-through tools', async () => {
+    await client.callTool({ name: 'npm__get_download_stats', arguments: { package_name: 'express', response_format: 'csv' } });
+
+    expect(handleToolCall.mock.calls[0].slice(0, 2)).toEqual([
+      'npm__get_download_stats',
+      { package_name: 'express', response_format: 'csv' }
+    ]);
+  });
+});
+
+describe('ToolOrchestrationMCPServer tool list changes', () => {
+  const originalSettings = settingsLoader.getSettings();
+  let orchestrator: ToolOrchestrationMCPServer;
+  let discovered: (() => void) | undefined;
+  let client: Client;
+  let notifications: number;
+
+  beforeEach(async () => {
+    orchestrator = new ToolOrchestrationMCPServer();
+    (orchestrator as any).dependencies = {
+      clientManager: { onToolsDiscovered: (listener: () => void) => { discovered = listener; } }
+    };
+    (orchestrator as any).setupToolListNotifications();
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await orchestrator.createSessionServer().connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    notifications = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      notifications++;
+    });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    settingsLoader.applySettings(originalSettings);
+  });
+
+  test('should advertise tool list changes', () => {
+    expect(client.getServerCapabilities()?.tools).toEqual({ listChanged: true });
+  });
+
+  test('should notify clients when a server discovers its tools', async () => {
+    settingsLoader.applySettings({ ...originalSettings, passthrough_settings: { ...originalSettings.passthrough_settings, enabled: true } });
+    discovered!();
+    await vi.waitFor(() => expect(notifications).toBe(1));
+  });
+
+  test('should not notify when pass-through tools are disabled', async () => {
+    settingsLoader.applySettings({ ...originalSettings, passthrough_settings: { ...originalSettings.passthrough_settings, enabled: false } });
+    discovered!();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(notifications).toBe(0);
+  });
+
+  test('should stop notifying sessions that closed', async () => {
+    await client.close();
+    (orchestrator as any).notifyToolListChanged();
+    expect((orchestrator as any).sessionServers.size).toBe(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { expect, test, describe } from "vitest";
+import { FindEquivalentPackagesTool } from "../../src/tools/find-equivalent-packages.js";
+import { PatternDetector } from "../../src/detection/pattern-detector.js";
+import { ContextAnalyzer } from "../../src/detection/context-analyzer.js";
+import { ConfidenceCalculator } from "../../src/detection/confidence-calculator.js";
+import { PackageManager } from "../../src/types/index.js";
+
+const infos: Record<string, Record<string, any>> = {
+  pip: {
+    requests: {
+      description: 'Python HTTP for Humans. An elegant HTTP client library',
+      keywords: ['http', 'client', 'requests'],
+      repository: 'https://github.com/psf/requests'
+    }
+  },
+  npm: {
+    axios: { description: 'Promise based HTTP client for the browser and node.js', keywords: ['http', 'client', 'ajax'] },
+    got: { description: 'Human-friendly and powerful HTTP request library for Node.js', keywords: ['http', 'request', 'fetch'] },
+    chalk: { description: 'Terminal string styling done right', keywords: ['color', 'terminal'] },
+    pyhttp: { description: 'HTTP client in the style of Python requests', keywords: ['python', 'http'] }
+  },
+  cargo: {
+    reqwest: { description: 'higher level HTTP client library', keywords: ['http', 'client', 'request'] },
+    'requests-rs': { description: 'Port of requests', repository: 'git+https://github.com/psf/requests.git' }
+  }
+};
+
+const contextKeywords: Record<string, string[]> = {
+  pip: ['python', 'django'],
+  npm: ['node', 'nodejs', 'javascript'],
+  cargo: ['rust', 'tokio']
+};
+
+const createTool = () => {
+  const toolProxy = {
+    executeToolSingle: async (manager: PackageManager, toolName: string, params: any) => {
+      const registry = infos[manager] || {};
+      if (toolName === 'search_packages') {
+        const packages = Object.entries(registry).map(([name, info]) => ({ name, description: info.description }));
+        return { manager, success: true, data: { packages }, response_time: 1 };
+      }
+
+      const info = registry[params.package_name];
+      return info
+        ? { manager, success: true, data: info, response_time: 1 }
+        : { manager, success: false, error: 'Package not found', response_time: 1 };
+    }
+  };
+
+  return new FindEquivalentPackagesTool(
+    new PatternDetector(),
+    new ContextAnalyzer(),
+    new ConfidenceCalculator(),
+    {
+      isManagerAvailable: (manager: PackageManager) => manager in infos,
+      getManager: (manager: PackageManager) => ({ context_keywords: contextKeywords[manager] || [] })
+    } as any,
+    toolProxy as any
+  );
+};
+
+describe('FindEquivalentPackagesTool', () => {
+  test('should rank equivalents across ecosystems with evidence', async () => {
+    const result = await createTool().execute({
+      package_name: 'requests',
+      manager: PackageManager.PIP,
+      target_managers: [PackageManager.NPM, PackageManager.CARGO]
+    });
+
+    expect(result.success).toBe(true);
+    const equivalents = result.data!.equivalents;
+    const names = equivalents.map(item => item.package_name);
+
+    // A shared repository is the strongest possible evidence
+    expect(equivalents[0]).toMatchObject({ package_name: 'requests-rs', manager: PackageManager.CARGO, score: 1 });
+    expect(equivalents[0].evidence[0].type).toBe('repository');
+
+    expect(names).toContain('axios');
+    expect(names).toContain('reqwest');
+    expect(names).not.toContain('chalk');
+
+    const axios = equivalents.find(item => item.package_name === 'axios')!;
+    expect(axios.purl).toBe('pkg:npm/axios');
+    expect(axios.evidence.map(item => item.type)).toEqual(expect.arrayContaining(['description', 'keywords']));
+    expect(result.data!.searched_managers).toEqual([PackageManager.NPM, PackageManager.CARGO]);
+  });
+
+  test('should search all other available managers by default', async () => {
+    const result = await createTool().execute({ package_name: 'requests', manager: PackageManager.PIP });
+
+    expect(result.data!.searched_managers).toEqual([PackageManager.NPM, PackageManager.CARGO]);
+    expect(result.data!.source.keywords).toEqual(['http', 'client', 'requests']);
+  });
+
+  test('should not count ecosystem terms from the registry as shared evidence', async () => {
+    const result = await createTool().execute({
+      package_name: 'requests',
+      manager: PackageManager.PIP,
+      target_managers: [PackageManager.NPM]
+    });
+
+    const pyhttp = result.data!.equivalents.find(item => item.package_name === 'pyhttp')!;
+    expect(pyhttp.evidence.find(item => item.type === 'description')?.description)
+      .toBe('Description terms in common: http, client');
+    expect(pyhttp.evidence.find(item => item.type === 'keywords')?.description).toBe('Keywords in common: http');
+  });
+
+  test('should fail when the source package cannot be fetched', async () => {
+    const result = await createTool().execute({ package_name: 'missing', manager: PackageManager.PIP });
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0].message).toBe('Package not found');
+  });
+});
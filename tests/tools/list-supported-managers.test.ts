@@ -0,0 +1,53 @@
+import { expect, test, describe } from "vitest";
+import { ListSupportedManagersTool } from "../../src/tools/list-supported-managers.js";
+import { ResponseFormatter } from "../../src/handlers/response-formatter.js";
+import { PackageManager } from "../../src/types/index.js";
+
+const manager = (name: PackageManager, priority: number) => ({
+  manager: name,
+  name,
+  description: `${name} package manager`,
+  file_patterns: [],
+  package_name_patterns: [],
+  context_keywords: [],
+  priority,
+  mcp_server_available: false
+});
+
+describe('ListSupportedManagersTool', () => {
+  const registry = { getAllManagers: () => [manager(PackageManager.NPM, 1), manager(PackageManager.PIP, 2)] };
+  const clientManager = { isConnected: () => false };
+  const supervisor = {
+    getStatus: (name: PackageManager) => name === PackageManager.NPM
+      ? { restart_count: 2, consecutive_failures: 1, last_failure_reason: 'Process exited' }
+      : undefined
+  };
+  const toolProxy = {
+    getCircuitBreakerSnapshots: () => ({
+      [PackageManager.NPM]: { state: 'open', calls: 6, failure_rate: 1, slow_call_rate: 0, last_failure: 'Timeout' }
+    })
+  };
+
+  test('should report circuit breaker state next to supervision', async () => {
+    const tool = new ListSupportedManagersTool(registry as any, clientManager as any, supervisor as any, toolProxy as any);
+    const result = await tool.execute();
+
+    const [npm, pip] = result.data!.managers;
+    expect(npm.supervision?.restart_count).toBe(2);
+    expect(npm.circuit_breaker).toMatchObject({ state: 'open', failure_rate: 1 });
+    // Managers that were never called have no breaker yet
+    expect(pip.circuit_breaker).toBeUndefined();
+
+    const markdown = ResponseFormatter.toMarkdown('list_supported_managers', result);
+    expect(markdown).toContain('| npm | npm | disconnected | open | 2 | Process exited |');
+    expect(markdown).toContain('| pip | pip | disconnected | closed | 0 | - |');
+  });
+
+  test('should list managers without a tool proxy', async () => {
+    const tool = new ListSupportedManagersTool(registry as any, clientManager as any);
+    const result = await tool.execute();
+
+    expect(result.success).toBe(true);
+    expect(result.data!.managers.every(item => item.circuit_breaker === undefined)).toBe(true);
+  });
+});
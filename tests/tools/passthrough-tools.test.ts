@@ -0,0 +1,107 @@
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import { PassthroughTools } from "../../src/tools/passthrough-tools.js";
+import { ManagerRegistry } from "../../src/detection/manager-registry.js";
+import { ToolProxy } from "../../src/clients/tool-proxy.js";
+import { ResponseCache } from "../../src/utils/cache.js";
+import { settingsLoader } from "../../src/config/settings-loader.js";
+import { logger } from "../../src/utils/logger.js";
+import { PackageManager, OrchestrationErrorType } from "../../src/types/index.js";
+
+describe('PassthroughTools', () => {
+  let registry: ManagerRegistry;
+  let calls: Array<{ manager: PackageManager; toolName: string; params: any }>;
+  let tools: PassthroughTools;
+
+  const statsSchema = { type: 'object', properties: { package_name: { type: 'string' } }, required: ['package_name'] };
+
+  const enablePassthrough = (enabled: boolean) => {
+    const settings = settingsLoader.getSettings();
+    vi.spyOn(settingsLoader, 'getSettings').mockReturnValue({
+      ...settings,
+      passthrough_settings: { enabled, exclude_tools: ['get_package_info'] }
+    });
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+    registry = new ManagerRegistry();
+    await registry.initialize();
+    registry.reconcileTools(PackageManager.NPM, [
+      { name: 'get_package_info', input_schema: { type: 'object' } },
+      { name: 'get_download_stats', description: 'Weekly download counts', input_schema: statsSchema }
+    ]);
+
+    calls = [];
+    const clientManager = {
+      ensureConnected: async () => true,
+      getDiscoveredTools: (manager: PackageManager) => registry.getDiscoveredTools(manager),
+      callToolWithTimeout: async (manager: PackageManager, toolName: string, params: any) => {
+        calls.push({ manager, toolName, params });
+        if (params.package_name === 'missing') {
+          throw new Error('Package not found');
+        }
+        return [{ type: 'text', text: '{"weekly":42}' }];
+      }
+    };
+    tools = new PassthroughTools(registry, new ToolProxy(clientManager as any, new ResponseCache()));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('should list discovered tools under namespaced names with their schemas', () => {
+    enablePassthrough(true);
+
+    expect(tools.getToolSchemas()).toEqual([{
+      name: 'npm__get_download_stats',
+      description: '[npm] Weekly download counts',
+      inputSchema: statsSchema
+    }]);
+  });
+
+  test('should list nothing while disabled', () => {
+    enablePassthrough(false);
+
+    expect(tools.getToolSchemas()).toEqual([]);
+    expect(tools.isPassthroughTool('npm__get_download_stats')).toBe(false);
+  });
+
+  test('should route calls to the manager that owns the tool', async () => {
+    enablePassthrough(true);
+
+    const result = await tools.execute('npm__get_download_stats', { package_name: 'express' });
+
+    expect(calls).toEqual([{ manager: PackageManager.NPM, toolName: 'get_download_stats', params: { package_name: 'express' } }]);
+    expect(result).toMatchObject({
+      success: true,
+      data: { weekly: 42 },
+      metadata: { managers_attempted: [PackageManager.NPM], managers_succeeded: [PackageManager.NPM] }
+    });
+  });
+
+  test('should report downstream failures as errors', async () => {
+    enablePassthrough(true);
+
+    const result = await tools.execute('npm__get_download_stats', { package_name: 'missing' });
+
+    expect(result).toMatchObject({
+      success: false,
+      errors: [{ manager: PackageManager.NPM, error_type: OrchestrationErrorType.MCP_SERVER_UNAVAILABLE, message: 'Package not found' }]
+    });
+  });
+
+  test('should reject excluded, unknown and malformed names', async () => {
+    enablePassthrough(true);
+
+    expect(tools.isPassthroughTool('npm__get_package_info')).toBe(false);
+    expect(tools.isPassthroughTool('pip__get_download_stats')).toBe(false);
+    expect(tools.isPassthroughTool('unknown__get_download_stats')).toBe(false);
+    await expect(tools.execute('npm__get_version_list', {})).rejects.toThrow('Unknown tool: npm__get_version_list');
+  });
+
+  test('should parse manager names that contain underscores', () => {
+    expect(PassthroughTools.parseName('docker_hub__get_tags')).toEqual({ manager: PackageManager.DOCKER_HUB, toolName: 'get_tags' });
+    expect(PassthroughTools.parseName('smart_package_info')).toBeUndefined();
+  });
+});
@@ -0,0 +1,163 @@
+import { expect, test, describe } from "vitest";
+import { ResolveDependencyTreeTool } from "../../src/tools/resolve-dependency-tree.js";
+import { PatternDetector } from "../../src/detection/pattern-detector.js";
+import { ContextAnalyzer } from "../../src/detection/context-analyzer.js";
+import { ConfidenceCalculator } from "../../src/detection/confidence-calculator.js";
+import { ToolResultParser } from "../../src/utils/tool-result.js";
+import { ResponseCache } from "../../src/utils/cache.js";
+import { ToolProxy } from "../../src/clients/tool-proxy.js";
+import { ProgressReporter } from "../../src/utils/progress-reporter.js";
+import { logger } from "../../src/utils/logger.js";
+import { PackageManager } from "../../src/types/index.js";
+
+const registry: Record<string, any> = {
+  app: { latest_version: '1.0.0', dependencies: { a: '^1.0.0', b: '^2.0.0' }, dev_dependencies: { test: '*' } },
+  a: { latest_version: '1.2.0', dependencies: { c: '^3.0.0' } },
+  b: { latest_version: '2.1.0', dependencies: [{ name: 'c', version: '^3.1.0' }] },
+  c: { latest_version: '3.4.0', dependencies: { a: '^1.0.0', d: '*' } },
+  d: { latest_version: '0.1.0' },
+  test: { latest_version: '9.0.0' },
+  diamond: { latest_version: '1.0.0', dependencies: { left: '*', right: '*' } },
+  left: { latest_version: '1.0.0', dependencies: { right: '*' } },
+  right: { latest_version: '1.0.0', dependencies: { left: '*' } }
+};
+
+// A real ToolProxy parses and caches what the fake downstream server sends
+const createTool = (calls: string[], callTool?: (packageName: string, signal?: AbortSignal) => Promise<void>) => {
+  const clientManager = {
+    ensureConnected: async () => true,
+    getDiscoveredTools: () => undefined,
+    callToolWithTimeout: async (_manager: PackageManager, _toolName: string, params: any, _timeoutMs: number, signal?: AbortSignal) => {
+      calls.push(params.package_name);
+      await callTool?.(params.package_name, signal);
+      const info = registry[params.package_name];
+      if (!info) {
+        throw new Error('Package not found');
+      }
+      // Downstream servers answer with MCP text content
+      return [{ type: 'text', text: JSON.stringify(info) }];
+    }
+  };
+
+  return new ResolveDependencyTreeTool(
+    new PatternDetector(),
+    new ContextAnalyzer(),
+    new ConfidenceCalculator(),
+    { isManagerAvailable: () => true } as any,
+    new ToolProxy(clientManager as any, new ResponseCache())
+  );
+};
+
+describe('ResolveDependencyTreeTool', () => {
+  test('should build a nested tree and a flat list with paths to the root', async () => {
+    const calls: string[] = [];
+    const result = await createTool(calls).execute({ package_name: 'app', manager: PackageManager.NPM });
+
+    expect(result.success).toBe(true);
+    const tree = result.data!;
+    expect(tree.root.version).toBe('1.0.0');
+    expect(tree.root.dependencies.map(dep => dep.name)).toEqual(['a', 'b']);
+
+    const flat = Object.fromEntries(tree.packages.map(pkg => [pkg.name, pkg]));
+    expect(flat.c).toMatchObject({ depth: 2, path: ['app', 'a', 'c'], version: '3.4.0' });
+    expect(flat.d).toMatchObject({ depth: 3, path: ['app', 'a', 'c', 'd'] });
+    expect(tree.total_packages).toBe(5);
+  });
+
+  test('should de-duplicate shared subtrees and detect cycles', async () => {
+    const calls: string[] = [];
+    const result = await createTool(calls).execute({ package_name: 'app', manager: PackageManager.NPM, max_depth: 5 });
+    const tree = result.data!;
+
+    const cThroughB = tree.root.dependencies[1].dependencies[0];
+    expect(cThroughB).toMatchObject({ name: 'c', duplicate: true, dependencies: [] });
+
+    expect(tree.cycles).toEqual([['app', 'a', 'c', 'a']]);
+    expect(calls.filter(name => name === 'c')).toHaveLength(1);
+  });
+
+  test('should detect cycles between packages reached through different branches', async () => {
+    const result = await createTool([]).execute({ package_name: 'diamond', manager: PackageManager.NPM });
+    const tree = result.data!;
+
+    expect(tree.cycles).toEqual([['diamond', 'left', 'right', 'left']]);
+    expect(tree.root.dependencies[1].dependencies[0]).toMatchObject({ name: 'left', duplicate: true, cycle: true });
+  });
+
+  test('should stop at the requested depth', async () => {
+    const result = await createTool([]).execute({ package_name: 'app', manager: PackageManager.NPM, max_depth: 1 });
+    const tree = result.data!;
+
+    expect(tree.truncated).toBe(true);
+    expect(tree.packages.map(pkg => pkg.name)).toEqual(['app', 'a', 'b']);
+    expect(tree.root.dependencies[0].truncated).toBe(true);
+  });
+
+  test('should include root development dependencies on request', async () => {
+    const result = await createTool([]).execute({
+      package_name: 'app',
+      manager: PackageManager.NPM,
+      max_depth: 1,
+      include_dev_dependencies: true
+    });
+
+    expect(result.data!.packages.map(pkg => pkg.name)).toContain('test');
+  });
+
+  test('should serve repeated lookups from the response cache', async () => {
+    const calls: string[] = [];
+    const tool = createTool(calls);
+
+    await tool.execute({ package_name: 'app', manager: PackageManager.NPM });
+    const firstRunCalls = calls.length;
+    await tool.execute({ package_name: 'b', manager: PackageManager.NPM, max_depth: 1 });
+
+    expect(calls.length).toBe(firstRunCalls);
+  });
+
+  test('should stop walking the tree when the request is cancelled', async () => {
+    const calls: string[] = [];
+    const controller = new AbortController();
+    const tool = createTool(calls, async packageName => {
+      if (packageName === 'a') {
+        controller.abort();
+      }
+    });
+
+    const result = await tool.execute({ package_name: 'app', manager: PackageManager.NPM, max_depth: 5 }, controller.signal);
+
+    expect(result.success).toBe(true);
+    expect(result.data!.root.dependencies[0].error).toBe('Tool call to npm MCP server was cancelled');
+    expect(calls).not.toContain('c');
+  });
+
+  test('should report progress for every package it looks up', async () => {
+    const messages: string[] = [];
+    const progress = new ProgressReporter('tree', async notification => { messages.push((notification.params as any).message); });
+
+    await logger.runWithHooks(progress, () => createTool([]).execute({ package_name: 'a', manager: PackageManager.NPM, max_depth: 2 }));
+
+    expect(messages).toEqual([
+      'Detected npm for a',
+      'Querying npm for a',
+      expect.stringMatching(/^npm succeeded in \d+ms$/),
+      'Querying npm for c',
+      expect.stringMatching(/^npm succeeded in \d+ms$/)
+    ]);
+  });
+
+  test('should fail when the root package cannot be found', async () => {
+    const result = await createTool([]).execute({ package_name: 'unknown', manager: PackageManager.NPM });
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0].message).toBe('Package not found');
+  });
+});
+
+describe('ToolResultParser', () => {
+  test('should parse JSON text content and pass plain data through', () => {
+    expect(ToolResultParser.parse([{ type: 'text', text: '{"name":"a"}' }])).toEqual({ name: 'a' });
+    expect(ToolResultParser.parse({ content: [{ type: 'text', text: 'plain' }] })).toEqual({ text: 'plain' });
+    expect(ToolResultParser.parse({ name: 'a' })).toEqual({ name: 'a' });
+  });
+});
@@ -0,0 +1,92 @@
+import { expect, test, describe } from "vitest";
+import { SmartPackageInfoBatchTool } from "../../src/tools/smart-package-info-batch.js";
+import { PatternDetector } from "../../src/detection/pattern-detector.js";
+import { ContextAnalyzer } from "../../src/detection/context-analyzer.js";
+import { ConfidenceCalculator } from "../../src/detection/confidence-calculator.js";
+import { Validators } from "../../src/utils/validators.js";
+import { PackageManager } from "../../src/types/index.js";
+
+const createTool = (
+  calls: Array<{ manager: PackageManager; params: any }>,
+  unavailable: PackageManager[] = [PackageManager.HELM]
+) => {
+  const managerRegistry = { isManagerAvailable: (manager: PackageManager) => !unavailable.includes(manager) };
+  const toolProxy = {
+    executeToolSingle: async (manager: PackageManager, _toolName: string, params: any) => {
+      calls.push({ manager, params });
+      if (params.package_name === 'missing') {
+        return { manager, success: false, error: 'Package not found', response_time: 1 };
+      }
+      return { manager, success: true, data: { description: `${params.package_name} package` }, response_time: 1 };
+    }
+  };
+
+  return new SmartPackageInfoBatchTool(
+    new PatternDetector(),
+    new ContextAnalyzer(),
+    new ConfidenceCalculator(),
+    managerRegistry as any,
+    toolProxy as any
+  );
+};
+
+describe('SmartPackageInfoBatchTool', () => {
+  test('should return per-item results in request order with a summary', async () => {
+    const calls: Array<{ manager: PackageManager; params: any }> = [];
+    const tool = createTool(calls);
+
+    const result = await tool.execute({
+      packages: [
+        { package_name: 'express', manager: PackageManager.NPM },
+        { purl: 'pkg:pypi/requests@2.31.0' },
+        { package_name: 'missing', manager: PackageManager.NPM },
+        { package_name: 'nginx', manager: PackageManager.HELM }
+      ],
+      include_dependencies: false
+    });
+
+    const items = result.data!.results;
+    expect(items.map(item => item.package_name)).toEqual(['express', 'requests', 'missing', 'nginx']);
+    expect(items[0].success).toBe(true);
+    expect(items[0].data?.purl).toBe('pkg:npm/express');
+    expect(items[1].manager).toBe(PackageManager.PIP);
+    expect(items[1].metadata.managers_succeeded).toEqual([PackageManager.PIP]);
+    expect(items[2].errors?.[0].message).toBe('Package not found');
+    expect(items[3].errors?.[0].error_type).toBe('MCP_SERVER_UNAVAILABLE');
+
+    expect(result.data!.summary).toMatchObject({ total: 4, succeeded: 2, failed: 2 });
+    expect(result.data!.summary.by_manager[PackageManager.NPM]).toEqual({ total: 2, succeeded: 1 });
+    expect(calls.find(call => call.manager === PackageManager.PIP)?.params.version).toBe('2.31.0');
+    expect(calls).toHaveLength(3);
+  });
+
+  test('should report invalid items individually', async () => {
+    const tool = createTool([]);
+
+    const result = await tool.execute({
+      packages: [{}, { purl: 'pkg:golang/github.com/gorilla/mux' }, { package_name: 'express', manager: PackageManager.NPM }]
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data!.results[0].errors?.[0].error_type).toBe('VALIDATION_ERROR');
+    expect(result.data!.results[1].errors?.[0].error_type).toBe('VALIDATION_ERROR');
+    expect(result.data!.results[2].success).toBe(true);
+  });
+
+  test('should use the first detected manager that is available', async () => {
+    const calls: Array<{ manager: PackageManager; params: any }> = [];
+    const tool = createTool(calls, [PackageManager.PIP]);
+
+    const result = await tool.execute({ packages: [{ package_name: 'serde' }] });
+
+    expect(result.data!.results[0].success).toBe(true);
+    expect(result.data!.results[0].manager).toBe(PackageManager.CARGO);
+    expect(calls.map(call => call.manager)).toEqual([PackageManager.CARGO]);
+  });
+
+  test('should validate the batch itself', () => {
+    expect(Validators.validateSmartPackageInfoBatchParams({ packages: [] }).valid).toBe(false);
+    expect(Validators.validateSmartPackageInfoBatchParams({ packages: 'express' }).valid).toBe(false);
+    expect(Validators.validateSmartPackageInfoBatchParams({ packages: [{ package_name: 'express' }] }).valid).toBe(true);
+  });
+});
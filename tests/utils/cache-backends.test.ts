@@ -0,0 +1,226 @@
+import { expect, test, describe, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync, appendFileSync } from "fs";
+import { spawnSync } from "child_process";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  FileSystemCacheBackend,
+  SingleFileCacheBackend,
+  createCacheBackend
+} from "../../src/utils/cache-backends.js";
+import { ResponseCache } from "../../src/utils/cache.js";
+
+describe('FileSystemCacheBackend', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cache-backend-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should keep entries across instances', () => {
+    const expiresAt = Date.now() + 60000;
+    new FileSystemCacheBackend(directory, 1024 * 1024).set('response:npm:readme', { value: { name: 'express' }, expires_at: expiresAt });
+
+    const reopened = new FileSystemCacheBackend(directory, 1024 * 1024);
+
+    expect(reopened.get('response:npm:readme')).toEqual({ value: { name: 'express' }, expires_at: expiresAt });
+    expect(reopened.keys()).toEqual(['response:npm:readme']);
+  });
+
+  test('should find entries another instance wrote after its index was loaded', () => {
+    const expiresAt = Date.now() + 60000;
+    const first = new FileSystemCacheBackend(directory, 1024 * 1024);
+    const second = new FileSystemCacheBackend(directory, 1024 * 1024);
+    second.set('response:npm:info', { value: { name: 'express' }, expires_at: expiresAt });
+
+    expect(first.get('response:npm:info')).toEqual({ value: { name: 'express' }, expires_at: expiresAt });
+    expect(first.getStats().entries).toBe(1);
+    expect(first.delete('response:npm:info')).toBe(true);
+    expect(second.get('response:npm:info')).toBeUndefined();
+  });
+
+  test('should name files after the hash of their key and leave no temporary files', () => {
+    const backend = new FileSystemCacheBackend(directory, 1024 * 1024);
+    backend.set('key', { value: 'value', expires_at: Date.now() + 60000 });
+
+    expect(readdirSync(directory)).toEqual([expect.stringMatching(/^[0-9a-f]{64}\.json$/)]);
+  });
+
+  test('should drop expired entries', () => {
+    const backend = new FileSystemCacheBackend(directory, 1024 * 1024);
+    backend.set('key', { value: 'value', expires_at: Date.now() - 1 });
+
+    expect(backend.get('key')).toBeUndefined();
+    expect(readdirSync(directory)).toEqual([]);
+  });
+
+  test('should evict the least recently used entries past the size limit', () => {
+    const backend = new FileSystemCacheBackend(directory, 250);
+    const expiresAt = Date.now() + 60000;
+    backend.set('first', { value: 'a'.repeat(80), expires_at: expiresAt });
+    backend.set('second', { value: 'b'.repeat(80), expires_at: expiresAt });
+    backend.set('third', { value: 'c'.repeat(80), expires_at: expiresAt });
+
+    expect(backend.get('first')).toBeUndefined();
+    expect(backend.get('third')?.value).toBe('c'.repeat(80));
+    expect(backend.getStats().size_bytes).toBeLessThanOrEqual(250);
+  });
+
+  test('should ignore corrupt and interrupted writes', () => {
+    const backend = new FileSystemCacheBackend(directory, 1024 * 1024);
+    backend.set('key', { value: 'value', expires_at: Date.now() + 60000 });
+    const [fileName] = readdirSync(directory);
+    writeFileSync(join(directory, fileName), '{"key":');
+    writeFileSync(join(directory, `${fileName}.123.0.tmp`), '{}');
+
+    const reopened = new FileSystemCacheBackend(directory, 1024 * 1024);
+
+    expect(reopened.get('key')).toBeUndefined();
+    expect(readdirSync(directory)).toEqual([]);
+  });
+});
+
+describe('SingleFileCacheBackend', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cache-backend-'));
+    filePath = join(directory, 'cache.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should keep entries and deletes across instances', () => {
+    const backend = new SingleFileCacheBackend(filePath, 1024 * 1024);
+    const expiresAt = Date.now() + 60000;
+    backend.set('kept', { value: { name: 'express' }, expires_at: expiresAt });
+    backend.set('deleted', { value: 'value', expires_at: expiresAt });
+    backend.set('kept', { value: { name: 'express', version: '5.0.0' }, expires_at: expiresAt });
+    backend.delete('deleted');
+    backend.close();
+
+    const reopened = new SingleFileCacheBackend(filePath, 1024 * 1024);
+
+    expect(reopened.keys()).toEqual(['kept']);
+    expect(reopened.get('kept')).toEqual({ value: { name: 'express', version: '5.0.0' }, expires_at: expiresAt });
+    reopened.close();
+  });
+
+  test('should skip a torn write at the end of the file', () => {
+    const backend = new SingleFileCacheBackend(filePath, 1024 * 1024);
+    backend.set('key', { value: 'value', expires_at: Date.now() + 60000 });
+    backend.close();
+    appendFileSync(filePath, '{"k":"partial","v":');
+
+    const reopened = new SingleFileCacheBackend(filePath, 1024 * 1024);
+    reopened.set('next', { value: 'next', expires_at: Date.now() + 60000 });
+
+    expect(reopened.get('key')?.value).toBe('value');
+    expect(reopened.get('partial')).toBeUndefined();
+    reopened.close();
+  });
+
+  test('should evict the oldest entries and compact the file', () => {
+    const backend = new SingleFileCacheBackend(filePath, 64 * 1024);
+    const expiresAt = Date.now() + 60000;
+    for (let i = 0; i < 200; i++) {
+      backend.set(`key-${i}`, { value: 'x'.repeat(10000), expires_at: expiresAt });
+    }
+
+    expect(backend.get('key-0')).toBeUndefined();
+    expect(backend.get('key-199')?.value).toHaveLength(10000);
+    expect(backend.getStats().size_bytes).toBeLessThan(1024 * 1024 + 64 * 1024);
+    backend.close();
+  });
+
+  test('should refuse a cache file that another instance has open', () => {
+    const backend = new SingleFileCacheBackend(filePath, 1024 * 1024);
+
+    expect(() => new SingleFileCacheBackend(filePath, 1024 * 1024)).toThrow(`${filePath} is in use by process ${process.pid}`);
+    backend.close();
+
+    const reopened = new SingleFileCacheBackend(filePath, 1024 * 1024);
+    reopened.close();
+  });
+
+  test('should take over the lock of a process that has exited', () => {
+    const exited = spawnSync(process.execPath, ['-e', '']);
+    writeFileSync(`${filePath}.lock`, String(exited.pid));
+
+    const backend = new SingleFileCacheBackend(filePath, 1024 * 1024);
+    expect(readFileSync(`${filePath}.lock`, 'utf-8')).toBe(String(process.pid));
+    backend.close();
+    expect(existsSync(`${filePath}.lock`)).toBe(false);
+  });
+});
+
+describe('Persistent ResponseCache', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cache-backend-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should answer from the backend after a restart', () => {
+    const settings = { backend: 'filesystem' as const, path: directory, max_size_bytes: 1024 * 1024 };
+    const cache = new ResponseCache();
+    cache.setBackend(createCacheBackend(settings));
+    cache.cacheToolResponse('npm', 'get_package_readme', { package_name: 'express' }, { readme: '# express' }, 60000);
+    cache.close();
+
+    const restarted = new ResponseCache();
+    restarted.setBackend(createCacheBackend(settings));
+
+    expect(restarted.getToolResponseEntry('npm', 'get_package_readme', { package_name: 'express' })).toMatchObject({
+      value: { readme: '# express' },
+      stale: false
+    });
+    expect(restarted.getStats()).toMatchObject({ cache_hits: 1, persistent: { backend: 'filesystem', entries: 1 } });
+  });
+
+  test('should keep persisted entries when only memory is cleared', () => {
+    const cache = new ResponseCache();
+    cache.setBackend(createCacheBackend({ backend: 'single-file', path: join(directory, 'cache.jsonl'), max_size_bytes: 1024 * 1024 }));
+    cache.cacheToolResponse('npm', 'get_package_info', { package_name: 'lodash' }, { name: 'lodash' });
+
+    cache.clearMemory();
+    expect(cache.getToolResponse('npm', 'get_package_info', { package_name: 'lodash' })).toEqual({ name: 'lodash' });
+
+    cache.clear();
+    expect(cache.getToolResponse('npm', 'get_package_info', { package_name: 'lodash' })).toBeUndefined();
+    cache.close();
+  });
+
+  test('should invalidate matching entries in memory and in the backend', () => {
+    const settings = { backend: 'filesystem' as const, path: directory, max_size_bytes: 1024 * 1024 };
+    const cache = new ResponseCache();
+    cache.setBackend(createCacheBackend(settings));
+    cache.cacheToolResponse('npm', 'get_package_info', { package_name: 'express' }, { name: 'express' }, 60000);
+    cache.cacheToolResponse('pip', 'get_package_info', { package_name: 'requests' }, { name: 'requests' }, 60000);
+
+    expect(cache.invalidateManagerCache('npm')).toBe(1);
+    expect(cache.getToolResponse('npm', 'get_package_info', { package_name: 'express' })).toBeUndefined();
+    cache.close();
+
+    const restarted = new ResponseCache();
+    restarted.setBackend(createCacheBackend(settings));
+    expect(restarted.getToolResponse('npm', 'get_package_info', { package_name: 'express' })).toBeUndefined();
+    expect(restarted.getToolResponse('pip', 'get_package_info', { package_name: 'requests' })).toEqual({ name: 'requests' });
+    restarted.close();
+  });
+
+  test('should not create a backend for the memory setting', () => {
+    expect(createCacheBackend({ backend: 'memory', max_size_bytes: 0 })).toBeUndefined();
+  });
+});
@@ -282,6 +282,19 @@ describe('DetectionCache', () => {
     const cached = detCache.getDetectionResult(packageName, []);
     expect(cached).toEqual(result);
   });
+
+  test('should only run detection on a miss or a fresh lookup', () => {
+    const detect = vi.fn(() => [{ manager: 'npm', confidence: 0.9 }]);
+
+    expect(detCache.detect('lodash', [], { manifest: 'package.json' }, false, detect).cache).toBe('miss');
+    expect(detCache.detect('lodash', [], { manifest: 'package.json' }, false, detect)).toEqual({
+      detections: [{ manager: 'npm', confidence: 0.9 }],
+      cache: 'hit'
+    });
+    expect(detCache.detect('lodash', [], { manifest: 'pyproject.toml' }, false, detect).cache).toBe('miss');
+    expect(detCache.detect('lodash', [], { manifest: 'package.json' }, true, detect).cache).toBe('bypass');
+    expect(detect).toHaveBeenCalledTimes(3);
+  });
 });
 
 describe('ResponseCache', () => {
@@ -317,6 +330,12 @@ describe('ResponseCache', () => {
     expect(respCache.getToolResponse(manager, toolName, { package_name: 'express' })).toEqual(response2);
   });
 
+  test('should normalize params in cache keys', () => {
+    respCache.cacheToolResponse('npm', 'get_package_info', { package_name: 'lodash', version: '4.17.21' }, 'response');
+
+    expect(respCache.getToolResponse('npm', 'get_package_info', { version: '4.17.21', package_name: 'lodash', limit: undefined })).toBe('response');
+  });
+
   test('should invalidate cache by manager', () => {
     respCache.cacheToolResponse('npm', 'tool1', { param: 'value1' }, 'response1');
     respCache.cacheToolResponse('npm', 'tool2', { param: 'value2' }, 'response2');
@@ -329,6 +348,17 @@ describe('ResponseCache', () => {
     expect(respCache.getToolResponse('npm', 'tool2', { param: 'value2' })).toBeUndefined();
     expect(respCache.getToolResponse('pip', 'tool1', { param: 'value3' })).toBe('response3');
   });
+
+  test('should keep stale responses for the stale-while-revalidate window', async () => {
+    respCache.cacheToolResponse('npm', 'get_package_info', { package_name: 'lodash' }, 'response', 20, 1000);
+
+    expect(respCache.getToolResponseEntry('npm', 'get_package_info', { package_name: 'lodash' })).toMatchObject({ value: 'response', stale: false });
+
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    expect(respCache.getToolResponse('npm', 'get_package_info', { package_name: 'lodash' })).toBeUndefined();
+    expect(respCache.getToolResponseEntry('npm', 'get_package_info', { package_name: 'lodash' })).toMatchObject({ value: 'response', stale: true });
+  });
 });
 
 describe('ConnectionStatusCache', () => {
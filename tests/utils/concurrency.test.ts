@@ -0,0 +1,31 @@
+import { expect, test, describe } from "vitest";
+import { mapWithConcurrency } from "../../src/utils/concurrency.js";
+
+describe('mapWithConcurrency', () => {
+  test('should keep input order in the results', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, async (delay, index) => {
+      await new Promise(resolve => setTimeout(resolve, delay));
+      return `${index}:${delay}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:10', '2:20']);
+  });
+
+  test('should never exceed the concurrency limit', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+    });
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  test('should handle empty input', async () => {
+    expect(await mapWithConcurrency([], 4, async item => item)).toEqual([]);
+  });
+});
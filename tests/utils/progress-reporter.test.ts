@@ -0,0 +1,141 @@
+import { expect, test, describe, beforeEach, afterEach, vi } from "vitest";
+import { ProgressReporter } from "../../src/utils/progress-reporter.js";
+import { ToolProxy } from "../../src/clients/tool-proxy.js";
+import { ResponseCache } from "../../src/utils/cache.js";
+import { logger } from "../../src/utils/logger.js";
+import { PackageManager } from "../../src/types/index.js";
+
+describe('ProgressReporter', () => {
+  let notifications: any[];
+  const send = async (notification: any) => { notifications.push(notification.params); };
+
+  beforeEach(() => {
+    notifications = [];
+    vi.spyOn(logger, 'info').mockImplementation(() => undefined);
+    vi.spyOn(logger, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('should only be created when the client sends a progress token', () => {
+    expect(ProgressReporter.fromRequest(undefined, send)).toBeUndefined();
+    expect(ProgressReporter.fromRequest({}, send)).toBeUndefined();
+    expect(ProgressReporter.fromRequest({ progressToken: 0 }, send)).toBeInstanceOf(ProgressReporter);
+  });
+
+  test('should report each step of a lookup from the logger hooks', () => {
+    const progress = new ProgressReporter('token-1', send);
+
+    logger.runWithHooks(progress, () => {
+      logger.logOrchestrationStart('smart_package_info', { package_name: 'requests' });
+      logger.logDetection('requests', [{ manager: PackageManager.NPM }, { manager: PackageManager.PIP }], 0.5);
+      logger.logToolCallStart(PackageManager.NPM, 'get_package_info', { package_name: 'requests' });
+      logger.logToolCallStart(PackageManager.PIP, 'get_package_info', { package_name: 'requests' });
+      logger.logToolCall(PackageManager.NPM, 'get_package_info', {}, false, 40, { error: 'Package not found' });
+      logger.logToolCall(PackageManager.PIP, 'get_package_info', {}, true, 120);
+      logger.logOrchestrationComplete('smart_package_info', true, [PackageManager.NPM, PackageManager.PIP], 130, [PackageManager.PIP]);
+    });
+
+    expect(notifications).toEqual([
+      { progressToken: 'token-1', progress: 1, total: 6, message: 'Detected npm, pip for requests' },
+      { progressToken: 'token-1', progress: 2, total: 6, message: 'Querying npm for requests' },
+      { progressToken: 'token-1', progress: 3, total: 6, message: 'Querying pip for requests' },
+      { progressToken: 'token-1', progress: 4, total: 6, message: 'npm failed: Package not found' },
+      { progressToken: 'token-1', progress: 5, total: 6, message: 'pip succeeded in 120ms' },
+      { progressToken: 'token-1', progress: 6, total: 6, message: 'Selected result from pip' }
+    ]);
+  });
+
+  test('should finish at the total when a lookup returns early', () => {
+    const progress = new ProgressReporter('token-1', send);
+
+    logger.runWithHooks(progress, () => {
+      logger.logDetection('requests', [PackageManager.NPM, PackageManager.PIP, PackageManager.CARGO].map(manager => ({ manager })), 0.5);
+      logger.logToolCallStart(PackageManager.NPM, 'get_package_info', {});
+      logger.logToolCall(PackageManager.NPM, 'get_package_info', {}, true, 10);
+      logger.logOrchestrationComplete('smart_package_info', true, [PackageManager.NPM], 10, [PackageManager.NPM]);
+    });
+
+    expect(notifications[notifications.length - 1]).toEqual({
+      progressToken: 'token-1', progress: 8, total: 8, message: 'Selected result from npm'
+    });
+  });
+
+  test('should drop progress after it is closed', () => {
+    const progress = new ProgressReporter('token-1', send);
+
+    logger.runWithHooks(progress, () => {
+      logger.logDetection('express', [{ manager: PackageManager.NPM }], 0.9);
+      progress.close();
+      logger.logToolCall(PackageManager.NPM, 'get_package_info', {}, false, 5, { error: 'cancelled' });
+    });
+
+    expect(notifications).toHaveLength(1);
+  });
+
+  test('should only receive the hooks of its own call', async () => {
+    const first = new ProgressReporter('first', send);
+    const second = new ProgressReporter('second', send);
+
+    await Promise.all([
+      logger.runWithHooks(first, async () => {
+        await Promise.resolve();
+        logger.logDetection('express', [{ manager: PackageManager.NPM }], 0.9);
+      }),
+      logger.runWithHooks(second, async () => {
+        logger.logDetection('requests', [{ manager: PackageManager.PIP }], 0.9);
+      })
+    ]);
+    logger.logDetection('serde', [{ manager: PackageManager.CARGO }], 0.9);
+
+    expect(notifications.map(notification => [notification.progressToken, notification.message])).toEqual([
+      ['second', 'Detected pip for requests'],
+      ['first', 'Detected npm for express']
+    ]);
+  });
+
+  test('should be reported by the tool proxy for every downstream call', async () => {
+    const progress = new ProgressReporter('token-1', send);
+    const clientManager = {
+      ensureConnected: async () => true,
+      getDiscoveredTools: () => undefined,
+      callToolWithTimeout: async () => [{ type: 'text', text: '{"name":"express"}' }]
+    };
+    const proxy = new ToolProxy(clientManager as any, new ResponseCache());
+
+    await logger.runWithHooks(progress, () =>
+      proxy.executeToolSingle(PackageManager.NPM, 'get_package_info', { package_name: 'express' }, 5000)
+    );
+
+    expect(notifications.map(notification => notification.message)).toEqual([
+      'Querying npm for express',
+      expect.stringMatching(/^npm succeeded in \d+ms$/)
+    ]);
+  });
+
+  test('should report shared and cached downstream calls to every tool call', async () => {
+    const first = new ProgressReporter('first', send);
+    const second = new ProgressReporter('second', send);
+    let calls = 0;
+    const clientManager = {
+      ensureConnected: async () => true,
+      getDiscoveredTools: () => undefined,
+      callToolWithTimeout: async () => {
+        calls++;
+        return [{ type: 'text', text: '{"name":"express"}' }];
+      }
+    };
+    const proxy = new ToolProxy(clientManager as any, new ResponseCache());
+    const lookup = () => proxy.executeToolSingle(PackageManager.NPM, 'get_package_info', { package_name: 'express' }, 5000);
+
+    await Promise.all([logger.runWithHooks(first, lookup), logger.runWithHooks(second, lookup)]);
+    await logger.runWithHooks(first, lookup);
+
+    expect(calls).toBe(1);
+    expect(notifications.filter(notification => notification.progressToken === 'second').map(notification => notification.message))
+      .toEqual(['Querying npm for express', expect.stringMatching(/^npm succeeded in \d+ms$/)]);
+    expect(notifications[notifications.length - 1]).toMatchObject({ progressToken: 'first', message: 'npm answered from cache' });
+  });
+});
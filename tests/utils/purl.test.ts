@@ -0,0 +1,103 @@
+import { expect, test, describe } from "vitest";
+import { PackageUrl } from "../../src/utils/purl.js";
+import { Validators } from "../../src/utils/validators.js";
+import { PackageManager, OrchestrationErrorType } from "../../src/types/index.js";
+
+describe('PackageUrl', () => {
+  test('should parse scoped npm purls with versions', () => {
+    const components = PackageUrl.parse('pkg:npm/%40babel/core@7.23.2');
+
+    expect(components).toEqual({
+      type: 'npm',
+      namespace: '@babel',
+      name: 'core',
+      version: '7.23.2',
+      qualifiers: undefined,
+      subpath: undefined
+    });
+  });
+
+  test('should parse qualifiers and subpaths', () => {
+    const components = PackageUrl.parse('pkg:maven/org.apache.commons/commons-lang3@3.13.0?type=jar&classifier=sources#src/main');
+
+    expect(components.qualifiers).toEqual({ type: 'jar', classifier: 'sources' });
+    expect(components.subpath).toBe('src/main');
+  });
+
+  test('should reject malformed purls', () => {
+    expect(() => PackageUrl.parse('npm/express')).toThrow('must start with "pkg:"');
+    expect(() => PackageUrl.parse('pkg:npm')).toThrow('type and a name');
+    expect(() => PackageUrl.resolve('pkg:golang/github.com/gorilla/mux')).toThrow('Unsupported package URL type');
+  });
+
+  test('should map purl types to package managers in both directions', () => {
+    expect(PackageUrl.toManager('pypi')).toBe(PackageManager.PIP);
+    expect(PackageUrl.toManager('docker')).toBe(PackageManager.DOCKER_HUB);
+    expect(PackageUrl.toManager('golang')).toBeNull();
+
+    for (const manager of Object.values(PackageManager)) {
+      expect(PackageUrl.toManager(PackageUrl.fromManager(manager))).toBe(manager);
+    }
+  });
+
+  test('should resolve namespaces into manager-specific package names', () => {
+    expect(PackageUrl.resolve('pkg:npm/%40types/node').package_name).toBe('@types/node');
+    expect(PackageUrl.resolve('pkg:maven/com.google.guava/guava@32.1.3-jre')).toMatchObject({
+      manager: PackageManager.MAVEN,
+      package_name: 'com.google.guava:guava',
+      version: '32.1.3-jre'
+    });
+    expect(PackageUrl.resolve('pkg:composer/Laravel/Framework').package_name).toBe('laravel/framework');
+    expect(PackageUrl.resolve('pkg:docker/library/nginx@1.25').package_name).toBe('nginx');
+    expect(PackageUrl.resolve('pkg:docker/bitnami/redis').package_name).toBe('bitnami/redis');
+    expect(PackageUrl.resolve('pkg:pypi/Typing_Extensions').package_name).toBe('typing-extensions');
+  });
+
+  test('should resolve tool call purls into a target or an error response', () => {
+    expect(PackageUrl.resolveParam(undefined, Date.now())).toEqual({ target: null });
+    expect(PackageUrl.resolveParam('pkg:pypi/requests', Date.now())).toEqual({
+      target: { manager: PackageManager.PIP, package_name: 'requests', version: undefined, purl: 'pkg:pypi/requests' }
+    });
+
+    const resolution = PackageUrl.resolveParam('pkg:golang/github.com/gorilla/mux', Date.now());
+    expect(resolution).toMatchObject({
+      errorResponse: {
+        success: false,
+        errors: [{
+          error_type: OrchestrationErrorType.INVALID_PACKAGE_NAME,
+          message: 'Invalid package URL: Unsupported package URL type: golang',
+          details: { purl: 'pkg:golang/github.com/gorilla/mux' }
+        }],
+        metadata: { managers_attempted: [], detection_confidence: 0 }
+      }
+    });
+  });
+
+  test('should format canonical purls from package names', () => {
+    expect(PackageUrl.fromPackage(PackageManager.NPM, '@babel/core', '7.23.2')).toBe('pkg:npm/%40babel/core@7.23.2');
+    expect(PackageUrl.fromPackage(PackageManager.MAVEN, 'org.slf4j:slf4j-api')).toBe('pkg:maven/org.slf4j/slf4j-api');
+    expect(PackageUrl.fromPackage(PackageManager.PIP, 'Django')).toBe('pkg:pypi/django');
+    expect(PackageUrl.fromPackage(PackageManager.DOCKER_HUB, 'nginx')).toBe('pkg:docker/nginx');
+  });
+
+  test('should round-trip parse and format', () => {
+    const purl = 'pkg:cargo/serde@1.0.188?arch=x86_64';
+    expect(PackageUrl.format(PackageUrl.parse(purl))).toBe(purl);
+  });
+});
+
+describe('Validators purl support', () => {
+  test('should accept a purl in place of package_name', () => {
+    const result = Validators.validateSmartPackageInfoParams({ purl: 'pkg:pypi/requests' });
+
+    expect(result.valid).toBe(true);
+    expect(result.validatedParams?.purl).toBe('pkg:pypi/requests');
+  });
+
+  test('should reject invalid purls', () => {
+    const result = Validators.validateSmartPackageReadmeParams({ purl: 'pkg:unknown/thing' });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('Unsupported package URL type');
+  });
+});
@@ -0,0 +1,51 @@
+import { expect, test, describe, beforeEach, afterEach } from "vitest";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ReadmeMirror } from "../../src/utils/readme-mirror.js";
+import { PackageManager } from "../../src/types/index.js";
+
+describe('ReadmeMirror', () => {
+  let directory: string;
+
+  const writeReadme = (segments: string[], fileName: string, content: string) => {
+    mkdirSync(join(directory, ...segments), { recursive: true });
+    writeFileSync(join(directory, ...segments, fileName), content);
+  };
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'readme-mirror-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should prefer the README of the requested version', () => {
+    writeReadme(['npm', 'express'], 'README.md', '# express');
+    writeReadme(['npm', 'express', '4.18.2'], 'README.md', '# express 4');
+    const mirror = new ReadmeMirror(directory);
+
+    expect(mirror.find(PackageManager.NPM, 'express', '4.18.2')).toMatchObject({ version: '4.18.2', readme_content: '# express 4' });
+    expect(mirror.find(PackageManager.NPM, 'express', '5.0.0')).toMatchObject({ version: undefined, readme_content: '# express' });
+    expect(mirror.find(PackageManager.NPM, 'express')?.age_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  test('should find scoped packages and other README file names', () => {
+    writeReadme(['npm', '@types', 'node'], 'readme.markdown', '# @types/node');
+    writeReadme(['pip', 'requests'], 'README.rst', 'Requests');
+    const mirror = new ReadmeMirror(directory);
+
+    expect(mirror.find(PackageManager.NPM, '@types/node')?.readme_content).toBe('# @types/node');
+    expect(mirror.find(PackageManager.PIP, 'requests')?.readme_content).toBe('Requests');
+    expect(mirror.find(PackageManager.CARGO, 'serde')).toBeUndefined();
+  });
+
+  test('should not read outside the mirror directory', () => {
+    writeReadme(['npm', 'express'], 'README.md', '# express');
+    const mirror = new ReadmeMirror(join(directory, 'npm'));
+
+    expect(mirror.find(PackageManager.NPM, '../npm/express')).toBeUndefined();
+    expect(mirror.find(PackageManager.NPM, 'express', '../../npm/express')).toBeUndefined();
+  });
+});
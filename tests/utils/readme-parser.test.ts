@@ -0,0 +1,96 @@
+import { expect, test, describe } from "vitest";
+import { ReadmeParser } from "../../src/utils/readme-parser.js";
+
+const README = `# express
+
+Fast, unopinionated, minimalist web framework.
+
+## Installation
+
+\`\`\`bash
+npm install express
+\`\`\`
+
+## Usage
+
+### Basic usage
+
+\`\`\`js
+// # not a heading
+const app = express();
+\`\`\`
+
+### Routing
+
+Routes are matched in order.
+
+Contributing
+------------
+
+See CONTRIBUTING.md.
+`;
+
+describe('ReadmeParser', () => {
+  test('should build a heading tree', () => {
+    const parsed = ReadmeParser.parse(README);
+
+    expect(parsed.preamble).toBe('');
+    expect(parsed.sections).toHaveLength(1);
+
+    const [root] = parsed.sections;
+    expect(root.title).toBe('express');
+    expect(root.children.map(section => [section.title, section.level])).toEqual([
+      ['Installation', 2],
+      ['Usage', 2],
+      ['Contributing', 2]
+    ]);
+    expect(root.children[1].children.map(section => section.title)).toEqual(['Basic usage', 'Routing']);
+    expect(root.children[1].content).toContain('Routes are matched in order.');
+    expect(root.children[1].content).not.toContain('Contributing');
+  });
+
+  test('should clean markdown from heading titles', () => {
+    const parsed = ReadmeParser.parse('## [Getting **Started**](#start) ##\n\ntext');
+    expect(parsed.sections[0].title).toBe('Getting Started');
+  });
+
+  test('should select fuzzy-matched sections and list what was omitted', () => {
+    const selection = ReadmeParser.selectSections(README, ['install', 'Routing']);
+
+    expect(selection.matched_sections).toEqual(['Installation', 'Routing']);
+    expect(selection.content).toBe('## Installation\n\n```bash\nnpm install express\n```\n\n### Routing\n\nRoutes are matched in order.');
+    expect(selection.omitted_sections).toEqual([
+      { title: 'express', level: 1 },
+      { title: 'Usage', level: 2 },
+      { title: 'Basic usage', level: 3 },
+      { title: 'Contributing', level: 2 }
+    ]);
+  });
+
+  test('should include subsections of a matched section', () => {
+    const selection = ReadmeParser.selectSections(README, ['Usage']);
+
+    expect(selection.matched_sections).toEqual(['Usage']);
+    expect(selection.content).toContain('### Basic usage');
+    expect(selection.content).toContain('### Routing');
+  });
+
+  test('should match titles word by word', () => {
+    expect(ReadmeParser.matchesTitle('Getting Started', 'getting started')).toBe(true);
+    expect(ReadmeParser.matchesTitle('API Reference', 'api')).toBe(true);
+    expect(ReadmeParser.matchesTitle('Configuraton', 'Configuration')).toBe(true);
+    expect(ReadmeParser.matchesTitle('Because', 'use')).toBe(false);
+    expect(ReadmeParser.matchesTitle('License', 'Usage')).toBe(false);
+  });
+
+  test('should extract and strip fenced code blocks', () => {
+    expect(ReadmeParser.extractCodeBlocks(README)).toEqual([
+      { title: 'Installation', language: 'bash', code: 'npm install express' },
+      { title: 'Basic usage', language: 'js', code: '// # not a heading\nconst app = express();' }
+    ]);
+
+    const stripped = ReadmeParser.stripCodeBlocks(README);
+    expect(stripped).not.toContain('```');
+    expect(stripped).toContain('## Installation\n\n## Usage');
+  });
+});
@@ -175,4 +175,31 @@ describe('SimilarityCalculator', () => {
       }
     });
   });
-});
\ No newline at end of file
+});
+
+describe('SimilarityCalculator token helpers', () => {
+  test('should tokenize text without stop words or duplicates', () => {
+    expect(SimilarityCalculator.tokenize('Python HTTP for Humans. Simple HTTP library')).toEqual(['python', 'http', 'humans']);
+    expect(SimilarityCalculator.tokenize('Promise based HTTP client for the browser')).toEqual(['promise', 'http', 'client', 'browser']);
+    expect(SimilarityCalculator.tokenize(undefined)).toEqual([]);
+  });
+
+  test('should drop the ignored words it is given', () => {
+    const ignored = new Set(['rust', 'ruby']);
+    const rustClient = SimilarityCalculator.tokenize('A Rust HTTP client with async support', ignored);
+    const rubyClient = SimilarityCalculator.tokenize('A Ruby HTTP client with async support', ignored);
+
+    expect(rustClient).toEqual(['http', 'client', 'async', 'support']);
+    expect(SimilarityCalculator.jaccardSimilarity(rustClient, rubyClient)).toBe(1);
+  });
+
+  test('should compute Jaccard similarity between token lists', () => {
+    expect(SimilarityCalculator.jaccardSimilarity(['http', 'client'], ['http', 'client'])).toBe(1);
+    expect(SimilarityCalculator.jaccardSimilarity(['http', 'client'], ['http', 'server'])).toBeCloseTo(1 / 3);
+    expect(SimilarityCalculator.jaccardSimilarity([], ['http'])).toBe(0);
+  });
+
+  test('should list shared tokens', () => {
+    expect(SimilarityCalculator.sharedTokens(['http', 'client', 'async'], ['async', 'http'])).toEqual(['http', 'async']);
+  });
+});
@@ -0,0 +1,88 @@
+import { expect, test, describe } from "vitest";
+import { TomlParser } from "../../src/utils/toml-parser.js";
+
+describe('TomlParser', () => {
+  test('should parse key/value pairs and tables', () => {
+    const result = TomlParser.parse(`
+# comment
+name = "demo"
+version = 3
+enabled = true
+
+[package]
+edition = '2021' # trailing comment
+`);
+
+    expect(result.name).toBe('demo');
+    expect(result.version).toBe(3);
+    expect(result.enabled).toBe(true);
+    expect(result.package).toEqual({ edition: '2021' });
+  });
+
+  test('should parse dotted keys and quoted keys', () => {
+    const result = TomlParser.parse(`
+[target.'cfg(unix)'.dependencies]
+libc = "0.2"
+tool.poetry.name = "x"
+`);
+
+    expect((result.target as any)['cfg(unix)'].dependencies.libc).toBe('0.2');
+    expect((result.target as any)['cfg(unix)'].dependencies.tool.poetry.name).toBe('x');
+  });
+
+  test('should parse multi-line arrays and inline tables', () => {
+    const result = TomlParser.parse(`
+deps = [
+  "requests>=2", # http
+  "click",
+]
+serde = { version = "1.0", features = ["derive"] }
+`);
+
+    expect(result.deps).toEqual(['requests>=2', 'click']);
+    expect(result.serde).toEqual({ version: '1.0', features: ['derive'] });
+  });
+
+  test('should parse arrays of tables', () => {
+    const result = TomlParser.parse(`
+[[package]]
+name = "a"
+version = "1.0.0"
+
+[[package]]
+name = "b"
+version = "2.0.0"
+
+[package.metadata]
+files = []
+`);
+
+    const packages = result.package as any[];
+    expect(packages).toHaveLength(2);
+    expect(packages[1]).toEqual({ name: 'b', version: '2.0.0', metadata: { files: [] } });
+  });
+
+  test('should handle multi-line strings and escapes', () => {
+    const result = TomlParser.parse(`
+description = """
+Line one
+Line "two\""""
+path = 'C:\\temp'
+escaped = "tab\\tend"
+`);
+
+    expect(result.description).toBe('Line one\nLine "two"');
+    expect(result.path).toBe('C:\\temp');
+    expect(result.escaped).toBe('tab\tend');
+  });
+
+  test('should keep dates as strings', () => {
+    const result = TomlParser.parse('created = 2024-01-02T03:04:05Z');
+    expect(result.created).toBe('2024-01-02T03:04:05Z');
+  });
+
+  test('should throw with a line number on invalid input', () => {
+    expect(() => TomlParser.parse('a = "unterminated')).toThrow(/line 1/);
+    expect(() => TomlParser.parse('\n[table\n')).toThrow(/line 2/);
+  });
+});
@@ -337,6 +337,163 @@ describe('Validators', () => {
     });
   });
 
+  describe('validateProjectFile', () => {
+    test('should accept a manifest and trim its filename', () => {
+      const result = Validators.validateProjectFile({ filename: ' package.json ', content: '{}' });
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({ filename: 'package.json', content: '{}' });
+      expect(Validators.validateProjectFile(undefined).sanitized).toBeUndefined();
+    });
+
+    test('should reject malformed and oversized files', () => {
+      expect(Validators.validateProjectFile('package.json').errors).toContain('Manifest must be an object with filename and content');
+      expect(Validators.validateProjectFile({ filename: '', content: 1 }).errors).toEqual([
+        'Manifest filename must be a non-empty string',
+        'Manifest content must be a string'
+      ]);
+      expect(Validators.validateProjectFile({ filename: 'Cargo.lock', content: 'x'.repeat(11) }, 'Lockfile', 10).errors)
+        .toContain('Lockfile content too long (max 10 characters)');
+    });
+  });
+
+  describe('validatePurl', () => {
+    test('should accept valid purls', () => {
+      for (const purl of ['pkg:npm/%40types/node@20.1.0', 'pkg:maven/org.apache.commons/commons-lang3@3.14.0', 'pkg:pypi/requests']) {
+        const result = Validators.validatePurl(purl);
+        expect(result.errors).toEqual([]);
+        expect(result.sanitized).toBe(purl);
+      }
+    });
+
+    test('should check the resolved name and version like any other', () => {
+      expect(Validators.validatePurl('pkg:npm/..%2F..%2Fetc%2Fpasswd').errors).toContain('Package name contains blocked pattern: ../');
+      expect(Validators.validatePurl('pkg:npm/left%20pad').errors).toContain('Package name contains invalid characters');
+      expect(Validators.validatePurl(`pkg:npm/${'a'.repeat(300)}`).errors[0]).toMatch(/^Package name too long/);
+      expect(Validators.validatePurl('pkg:npm/express@4.x%20%7C%7C%205').errors).toContain('Version contains invalid characters');
+    });
+
+    test('should reject unsupported and non-string purls', () => {
+      expect(Validators.validatePurl(42).errors).toContain('Package URL must be a string');
+      expect(Validators.validatePurl('pkg:unknown/thing').errors[0]).toContain('Unsupported package URL type');
+    });
+  });
+
+  describe('validatePackageTarget', () => {
+    test('should validate the purl when one is given', () => {
+      expect(Validators.validatePackageTarget({ purl: 'pkg:npm/express' }).valid).toBe(true);
+      expect(Validators.validatePackageTarget({ package_name: 'express', purl: 'pkg:unknown/x' }).valid).toBe(false);
+    });
+
+    test('should fall back to package_name', () => {
+      expect(Validators.validatePackageTarget({ package_name: 'express' }).valid).toBe(true);
+      expect(Validators.validatePackageTarget({}).errors).toContain('Package name must be a string');
+    });
+  });
+
+  describe('validateSmartPackageInfoBatchParams', () => {
+    test('should reject empty, oversized and malformed batches', () => {
+      expect(Validators.validateSmartPackageInfoBatchParams({}).errors).toContain('Packages must be an array');
+      expect(Validators.validateSmartPackageInfoBatchParams({ packages: [] }).errors).toContain('Packages cannot be empty');
+      expect(Validators.validateSmartPackageInfoBatchParams({ packages: Array(201).fill({ package_name: 'express' }) }).errors)
+        .toContain('Too many packages (max 200)');
+      expect(Validators.validateSmartPackageInfoBatchParams({ packages: ['express'] }).errors).toContain('Each package must be an object');
+    });
+
+    test('should default include_dependencies and sanitize shared hints', () => {
+      const result = Validators.validateSmartPackageInfoBatchParams({
+        packages: [{ package_name: 'express' }],
+        context_hints: ['<node>']
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.validatedParams).toMatchObject({ include_dependencies: true, context_hints: ['node'] });
+    });
+  });
+
+  describe('validateResolveDependencyTreeParams', () => {
+    test('should accept a package with an explicit manager and depth', () => {
+      const result = Validators.validateResolveDependencyTreeParams({ package_name: 'express', manager: 'npm', max_depth: 10 });
+      expect(result.valid).toBe(true);
+      expect(result.validatedParams).toMatchObject({ manager: 'npm', max_depth: 10, include_dev_dependencies: false });
+    });
+
+    test('should reject unknown managers and depths out of range', () => {
+      expect(Validators.validateResolveDependencyTreeParams({ package_name: 'express', manager: 'apt' }).errors)
+        .toContain('Unknown package manager: apt');
+      expect(Validators.validateResolveDependencyTreeParams({ package_name: 'express', max_depth: 1.5 }).errors)
+        .toContain('Max depth must be an integer');
+      expect(Validators.validateResolveDependencyTreeParams({ package_name: 'express', max_depth: 11 }).errors)
+        .toContain('Max depth must be between 0 and 10');
+    });
+  });
+
+  describe('validateFindEquivalentPackagesParams', () => {
+    test('should keep only known, distinct target managers', () => {
+      const result = Validators.validateFindEquivalentPackagesParams({
+        package_name: 'requests',
+        manager: 'pip',
+        target_managers: ['npm', 'npm', 'apt', 'cargo']
+      });
+      expect(result.valid).toBe(true);
+      expect(result.validatedParams.target_managers).toEqual(['npm', 'cargo']);
+    });
+
+    test('should reject unknown managers and malformed target lists', () => {
+      expect(Validators.validateFindEquivalentPackagesParams({ package_name: 'requests', manager: 'apt' }).errors)
+        .toContain('Unknown package manager: apt');
+      expect(Validators.validateFindEquivalentPackagesParams({ package_name: 'requests', target_managers: 'npm' }).errors)
+        .toContain('Target managers must be an array');
+      expect(Validators.validateFindEquivalentPackagesParams({ target_managers: ['npm'] }).valid).toBe(false);
+    });
+  });
+
+
+  describe('validateResponseFormat', () => {
+    test('should default to markdown and accept every known format', () => {
+      expect(Validators.validateResponseFormat(undefined).sanitized).toBe('markdown');
+      for (const format of ['json', 'markdown', 'both']) {
+        expect(Validators.validateResponseFormat(format)).toEqual({ valid: true, errors: [], sanitized: format });
+      }
+    });
+
+    test('should reject unknown formats', () => {
+      expect(Validators.validateResponseFormat('html').errors).toEqual(['Response format must be one of: json, markdown, both']);
+      expect(Validators.validateResponseFormat(null).valid).toBe(false);
+    });
+  });
+
+
+  describe('validateSections', () => {
+    test('should leave sections unset and trim the ones given', () => {
+      expect(Validators.validateSections(undefined)).toEqual({ valid: true, errors: [], sanitized: undefined });
+      expect(Validators.validateSections([' Installation ', 'Usage']).sanitized).toEqual(['Installation', 'Usage']);
+    });
+
+    test('should reject malformed section lists', () => {
+      expect(Validators.validateSections('Usage').errors).toEqual(['Sections must be an array']);
+      expect(Validators.validateSections(['Usage', ' ', 42]).errors).toEqual([
+        'Each section must be a non-empty string',
+        'Each section must be a non-empty string'
+      ]);
+      expect(Validators.validateSections(['x'.repeat(101)]).errors).toEqual(['Section name too long (max 100 characters)']);
+      expect(Validators.validateSections(Array(21).fill('Usage')).errors).toContain('Too many sections (max 20)');
+    });
+  });
+
+
+  describe('validateFresh', () => {
+    test('should default to false and pass booleans through', () => {
+      expect(Validators.validateFresh(undefined)).toEqual({ valid: true, errors: [], sanitized: false });
+      expect(Validators.validateFresh(true).sanitized).toBe(true);
+    });
+
+    test('should reject values that are not booleans', () => {
+      expect(Validators.validateFresh('true')).toEqual({ valid: false, errors: ['Fresh must be a boolean'] });
+      expect(Validators.validateFresh(1).valid).toBe(false);
+    });
+  });
+
+
   describe('sanitizeContextHint', () => {
     test('should sanitize dangerous characters', () => {
       const dangerous = '<script>alert("xss")</script>';